@@ -18,10 +18,11 @@ const gateway = createOpenAI({
 });
 
 export async function POST(req: Request) {
-  const { messages, vaultContext } = await req.json();
+  const { messages, vaultContext, workflowContext } = await req.json();
 
-  // Append vault context to system prompt so AI knows what artifacts exist
-  const systemPrompt = SYSTEM_PROMPT + (vaultContext || '');
+  // Append vault context to system prompt so AI knows what artifacts exist,
+  // and the open workflow so it can propose mutations to it
+  const systemPrompt = SYSTEM_PROMPT + (vaultContext || '') + (workflowContext || '');
 
   const result = streamText({
     model: gateway('anthropic/claude-sonnet-4-20250514'),
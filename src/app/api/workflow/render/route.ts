@@ -0,0 +1,97 @@
+/**
+ * Workflow Render API Route
+ *
+ * Renders a vault workflow as SVG or PNG for audit reports, PDFs and
+ * emails. The vault lives in the browser, so the client posts the
+ * workflow itself; nodes without positions are laid out first.
+ */
+
+import { renderWorkflowSvg } from '@/lib/workflow-renderer';
+import type { BusinessProcess, ProcessNodeType } from '@/types/module';
+
+export const runtime = 'nodejs';
+
+const FORMATS = ['svg', 'png'] as const;
+const MAX_SCALE = 4;
+const NODE_TYPES: ProcessNodeType[] = ['start', 'end', 'task', 'gateway', 'subprocess', 'event'];
+
+export async function POST(req: Request) {
+  let body: { workflow?: BusinessProcess; format?: string; scale?: number } | null;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  const { workflow, format = 'svg', scale = 2 } = body || {};
+  if (!workflow || !Array.isArray(workflow.nodes) || !Array.isArray(workflow.transitions)) {
+    return Response.json({ error: 'Expected a workflow with nodes and transitions' }, { status: 400 });
+  }
+  const invalid = validateWorkflow(workflow);
+  if (invalid) {
+    return Response.json({ error: invalid }, { status: 400 });
+  }
+  if (!FORMATS.includes(format as typeof FORMATS[number])) {
+    return Response.json({ error: `Unsupported format: ${format}` }, { status: 400 });
+  }
+
+  const svg = renderWorkflowSvg(workflow);
+  const disposition = contentDisposition(`${workflow.code || 'workflow'}`, format);
+
+  if (format === 'svg') {
+    return new Response(svg, {
+      headers: {
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+        'Content-Disposition': disposition,
+      },
+    });
+  }
+
+  // Rasterize at scale × the SVG's own size, for sharp text on high density screens and in print
+  const sharp = (await import('sharp')).default;
+  const density = 72 * Math.min(Math.max(Number(scale) || 1, 1), MAX_SCALE);
+  const png = await sharp(Buffer.from(svg), { density }).png().toBuffer();
+
+  return new Response(new Uint8Array(png), {
+    headers: {
+      'Content-Type': 'image/png',
+      'Content-Disposition': disposition,
+    },
+  });
+}
+
+/**
+ * Check the posted workflow has what the renderer reads, so a bad
+ * request gets a 400 with the reason rather than failing mid-render
+ */
+function validateWorkflow(workflow: BusinessProcess): string | null {
+  if (typeof workflow.name !== 'string') return 'The workflow needs a name';
+
+  const ids = new Set<string>();
+  for (const [i, node] of workflow.nodes.entries()) {
+    if (!node || typeof node.id !== 'string' || typeof node.name !== 'string') {
+      return `Node ${i} needs a string id and name`;
+    }
+    if (!NODE_TYPES.includes(node.type)) return `Node "${node.id}" has an unknown type "${node.type}"`;
+    ids.add(node.id);
+  }
+  for (const [i, transition] of workflow.transitions.entries()) {
+    if (!transition || typeof transition.id !== 'string') return `Transition ${i} needs a string id`;
+    if (!ids.has(transition.from) || !ids.has(transition.to)) {
+      return `Transition "${transition.id}" must connect two of the workflow's nodes`;
+    }
+    if (transition.label !== undefined && typeof transition.label !== 'string') {
+      return `Transition "${transition.id}" has a label that is not a string`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Inline disposition with an ASCII fallback name and the full UTF-8 name,
+ * so codes with quotes, spaces or accents can't break the header
+ */
+function contentDisposition(code: string, format: string): string {
+  const fallback = code.replace(/[^A-Za-z0-9_-]/g, '_') || 'workflow';
+  return `inline; filename="${fallback}.${format}"; filename*=UTF-8''${encodeURIComponent(`${code}.${format}`)}`;
+}
@@ -4,7 +4,7 @@
  * Spinner - Module Builder
  *
  * AI-native conversational interface for creating HSE module artifacts.
- * Dictionaries, Forms, and Business Processes — generated through dialogue.
+ * Dictionaries, Forms, Business Processes and Roles — generated through dialogue.
  */
 
 import { useState } from 'react';
@@ -12,24 +12,26 @@ import { Chat } from '@/components/Chat';
 import { WorkflowUploader } from '@/components/WorkflowUploader';
 import { DictionaryViewer } from '@/components/DictionaryViewer';
 import { FormViewer } from '@/components/FormViewer';
+import { RolesViewer } from '@/components/RolesViewer';
 import { VaultSidebar } from '@/components/VaultSidebar';
 import { VaultProvider, useVault } from '@/lib/vault-context';
-import { MessageSquare, GitBranch, PanelLeftClose, PanelLeft, List, FileText } from 'lucide-react';
-import type { Dictionary, Form, BusinessProcess } from '@/types/module';
+import { WorkflowProvider } from '@/lib/workflow-context';
+import { MessageSquare, GitBranch, PanelLeftClose, PanelLeft, List, FileText, Shield } from 'lucide-react';
+import type { Dictionary, Form, BusinessProcess, Role } from '@/types/module';
 
-type Tab = 'chat' | 'workflow' | 'dictionary' | 'form';
+type Tab = 'chat' | 'workflow' | 'dictionary' | 'form' | 'role';
 
 function AppContent() {
   const [activeTab, setActiveTab] = useState<Tab>('chat');
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [selectedArtifact, setSelectedArtifact] = useState<{
     type: string;
-    data: Dictionary | Form | BusinessProcess;
+    data: Dictionary | Form | BusinessProcess | Role;
   } | null>(null);
 
   const { currentModule } = useVault();
 
-  const handleSelectArtifact = (type: string, artifact: Dictionary | Form | BusinessProcess) => {
+  const handleSelectArtifact = (type: string, artifact: Dictionary | Form | BusinessProcess | Role) => {
     setSelectedArtifact({ type, data: artifact });
     // Switch to appropriate tab based on type
     if (type === 'workflow') {
@@ -38,6 +40,8 @@ function AppContent() {
       setActiveTab('dictionary');
     } else if (type === 'form') {
       setActiveTab('form');
+    } else if (type === 'role') {
+      setActiveTab('role');
     }
   };
 
@@ -114,12 +118,20 @@ function AppContent() {
               label="Form"
             />
           )}
+          {activeTab === 'role' && selectedArtifact?.type === 'role' && (
+            <TabButton
+              active={true}
+              onClick={() => {}}
+              icon={<Shield className="h-4 w-4" />}
+              label="Roles"
+            />
+          )}
         </nav>
 
         <div className="flex items-center gap-2">
           {currentModule && (
             <span className="rounded bg-zinc-800 px-2 py-1 text-xs text-zinc-400">
-              {currentModule.dictionaries.length} dict · {currentModule.forms.length} forms · {currentModule.processes.length} flows
+              {currentModule.dictionaries.length} dict · {currentModule.forms.length} forms · {currentModule.processes.length} flows · {currentModule.roles.length} roles
             </span>
           )}
           <span className="rounded-full bg-emerald-500/10 px-3 py-1 text-xs font-medium text-emerald-400">
@@ -159,6 +171,14 @@ function AppContent() {
               onClose={handleCloseArtifact}
             />
           )}
+          {activeTab === 'role' && selectedArtifact?.type === 'role' && currentModule && (
+            <RolesViewer
+              roles={currentModule.roles}
+              processes={currentModule.processes}
+              selectedRole={selectedArtifact.data as Role}
+              onClose={handleCloseArtifact}
+            />
+          )}
         </div>
       </div>
     </main>
@@ -168,7 +188,9 @@ function AppContent() {
 export default function Home() {
   return (
     <VaultProvider>
-      <AppContent />
+      <WorkflowProvider>
+        <AppContent />
+      </WorkflowProvider>
     </VaultProvider>
   );
 }
@@ -7,11 +7,12 @@
  * - Dictionary: Tag cloud / list view
  * - Form: Field layout preview
  * - Process: Visual workflow graph
+ * - Role: Name, code and inherited roles
  */
 
 import { useState } from 'react';
-import { List, FileText, GitBranch, ChevronDown, ChevronUp, Copy, Check, Plus, CheckCircle } from 'lucide-react';
-import type { GeneratedArtifact, Dictionary, Form, BusinessProcess } from '@/types/module';
+import { List, FileText, GitBranch, Shield, ChevronDown, ChevronUp, Copy, Check, Plus, CheckCircle } from 'lucide-react';
+import type { GeneratedArtifact, Dictionary, Form, BusinessProcess, Role } from '@/types/module';
 import { getArtifactDisplayName, getArtifactColor } from '@/lib/artifacts';
 import { WorkflowPreview } from './WorkflowPreview';
 import { useVault } from '@/lib/vault-context';
@@ -26,7 +27,7 @@ export function ArtifactPreview({ artifact }: ArtifactPreviewProps) {
   const [showRaw, setShowRaw] = useState(false);
   const [saved, setSaved] = useState(false);
 
-  const { currentModule, addDictionary, addForm, addWorkflow } = useVault();
+  const { currentModule, addDictionary, addForm, addWorkflow, addRole } = useVault();
 
   const colorClass = getArtifactColor(artifact.type);
   const name = getArtifactDisplayName(artifact);
@@ -50,6 +51,9 @@ export function ArtifactPreview({ artifact }: ArtifactPreviewProps) {
       case 'process':
         addWorkflow(artifact.data as BusinessProcess);
         break;
+      case 'role':
+        addRole(artifact.data as Role);
+        break;
     }
 
     setSaved(true);
@@ -59,6 +63,7 @@ export function ArtifactPreview({ artifact }: ArtifactPreviewProps) {
     dictionary: List,
     form: FileText,
     process: GitBranch,
+    role: Shield,
   }[artifact.type];
 
   return (
@@ -167,6 +172,8 @@ function ArtifactContent({ artifact }: ArtifactPreviewProps) {
       return <FormPreview data={artifact.data as Form} />;
     case 'process':
       return <ProcessPreview data={artifact.data as BusinessProcess} />;
+    case 'role':
+      return <RolePreview data={artifact.data as Role} />;
     default:
       return null;
   }
@@ -233,14 +240,37 @@ function FormPreview({ data }: { data: Form }) {
 }
 
 function ProcessPreview({ data }: { data: BusinessProcess }) {
+  const { currentModule } = useVault();
+
   return (
     <div className="space-y-3">
       {data.description && (
         <p className="text-xs opacity-60">{data.description}</p>
       )}
       <div className="h-64 rounded-lg bg-black/30">
-        <WorkflowPreview process={data} />
+        <WorkflowPreview process={data} forms={currentModule?.forms} roles={currentModule?.roles} />
+      </div>
+    </div>
+  );
+}
+
+function RolePreview({ data }: { data: Role }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="rounded bg-white/10 px-2 py-0.5 font-mono text-xs">{data.code}</span>
+        {data.description && <span className="text-xs opacity-60">{data.description}</span>}
       </div>
+      {data.inherits && data.inherits.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="opacity-60">Inherits</span>
+          {data.inherits.map((code) => (
+            <span key={code} className="rounded-full bg-white/5 px-3 py-1 text-zinc-300">
+              {code}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
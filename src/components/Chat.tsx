@@ -5,14 +5,19 @@
  *
  * Conversational interface for module creation.
  * Clean, minimal, focused on the conversation.
+ * When a workflow is open, the AI can propose mutations to it; they are
+ * shown as a diff and applied through WorkflowContext once accepted.
  */
 
-import { useRef, useEffect, useState, useCallback } from 'react';
+import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Send, Loader2, Sparkles } from 'lucide-react';
 import { ArtifactPreview } from './ArtifactPreview';
-import { extractArtifacts } from '@/lib/artifacts';
+import { MutationPreview, MutationDecision } from './MutationPreview';
+import { extractArtifacts, extractMutationBatches, ProposedMutations } from '@/lib/artifacts';
 import { useVault } from '@/lib/vault-context';
-import { generateVaultContext } from '@/lib/prompts';
+import { useWorkflow } from '@/lib/workflow-context';
+import { generateVaultContext, generateWorkflowContext } from '@/lib/prompts';
+import type { BusinessProcess } from '@/types/module';
 
 interface Message {
   id: string;
@@ -28,6 +33,9 @@ export function Chat() {
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
   const { currentModule } = useVault();
+  const { workflow, applyMutations } = useWorkflow();
+  // Accepted or rejected mutation batches, by message id and batch index
+  const [decisions, setDecisions] = useState<Record<string, MutationDecision>>({});
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -56,6 +64,7 @@ export function Chat() {
     try {
       // Generate vault context to send with request
       const vaultContext = generateVaultContext(currentModule);
+      const workflowContext = generateWorkflowContext(workflow);
 
       const response = await fetch('/api/chat', {
         method: 'POST',
@@ -66,6 +75,7 @@ export function Chat() {
             content: m.content,
           })),
           vaultContext,
+          workflowContext,
         }),
       });
 
@@ -111,7 +121,12 @@ export function Chat() {
     } finally {
       setIsLoading(false);
     }
-  }, [inputValue, isLoading, messages, currentModule]);
+  }, [inputValue, isLoading, messages, currentModule, workflow]);
+
+  const handleAcceptMutations = (key: string, batch: ProposedMutations) => {
+    applyMutations(batch.mutations, 'ai', batch.summary);
+    setDecisions((prev) => ({ ...prev, [key]: 'accepted' }));
+  };
 
   // Handle Enter to submit (Shift+Enter for newline)
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -130,7 +145,14 @@ export function Chat() {
         ) : (
           <div className="mx-auto max-w-3xl space-y-6">
             {messages.map((message) => (
-              <MessageBubble key={message.id} message={message} />
+              <MessageBubble
+                key={message.id}
+                message={message}
+                workflow={workflow}
+                decisions={decisions}
+                onAcceptMutations={handleAcceptMutations}
+                onRejectMutations={(key) => setDecisions((prev) => ({ ...prev, [key]: 'rejected' }))}
+              />
             ))}
             {isLoading && <ThinkingIndicator />}
             <div ref={messagesEndRef} />
@@ -141,6 +163,11 @@ export function Chat() {
       {/* Input */}
       <div className="border-t border-zinc-800 bg-zinc-950 px-4 py-4">
         <form onSubmit={handleSubmit} className="mx-auto max-w-3xl">
+          {workflow && (
+            <p className="mb-2 text-xs text-zinc-500">
+              Editing <span className="text-zinc-300">{workflow.name}</span> — ask for changes and review them before they apply
+            </p>
+          )}
           <div className="relative">
             <textarea
               ref={inputRef}
@@ -220,11 +247,21 @@ function EmptyState({ onSuggestionClick }: EmptyStateProps) {
 
 interface MessageBubbleProps {
   message: Message;
+  workflow: BusinessProcess | null;
+  decisions: Record<string, MutationDecision>;
+  onAcceptMutations: (key: string, batch: ProposedMutations) => void;
+  onRejectMutations: (key: string) => void;
 }
 
-function MessageBubble({ message }: MessageBubbleProps) {
+function MessageBubble({ message, workflow, decisions, onAcceptMutations, onRejectMutations }: MessageBubbleProps) {
   const isUser = message.role === 'user';
-  const artifacts = extractArtifacts(message.content);
+  // Parsed once per message text, so batches keep their identity and the
+  // previews' diffs are not recomputed on every keystroke in the input
+  const artifacts = useMemo(() => extractArtifacts(message.content), [message.content]);
+  const batches = useMemo(
+    () => isUser ? [] : extractMutationBatches(message.content),
+    [isUser, message.content]
+  );
 
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -249,6 +286,23 @@ function MessageBubble({ message }: MessageBubbleProps) {
                 ))}
               </div>
             )}
+            {batches.length > 0 && (
+              <div className="mt-4 space-y-3">
+                {batches.map((batch, index) => {
+                  const key = `${message.id}:${index}`;
+                  return (
+                    <MutationPreview
+                      key={key}
+                      batch={batch}
+                      workflow={workflow}
+                      decision={decisions[key]}
+                      onAccept={() => onAcceptMutations(key, batch)}
+                      onReject={() => onRejectMutations(key)}
+                    />
+                  );
+                })}
+              </div>
+            )}
           </>
         )}
       </div>
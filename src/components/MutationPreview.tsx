@@ -0,0 +1,130 @@
+'use client';
+
+/**
+ * Mutation Preview Component
+ *
+ * Diff of a mutation batch the AI proposed for the open workflow:
+ * added, removed and changed nodes and transitions, mutations that
+ * would be skipped and why, and buttons to accept the batch into the
+ * workflow or reject it.
+ */
+
+import { useMemo } from 'react';
+import { GitCompare, Check, X, AlertTriangle } from 'lucide-react';
+import { applyBatch, summarizeChanges, WorkflowChange } from '@/lib/workflow-history';
+import type { ProposedMutations } from '@/lib/artifacts';
+import type { BusinessProcess } from '@/types/module';
+
+export type MutationDecision = 'accepted' | 'rejected';
+
+interface MutationPreviewProps {
+  batch: ProposedMutations;
+  workflow: BusinessProcess | null; // The open workflow the batch would apply to
+  decision?: MutationDecision;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const CHANGE_STYLES: Record<WorkflowChange['kind'], { sign: string; className: string }> = {
+  added: { sign: '+', className: 'text-emerald-400' },
+  removed: { sign: '−', className: 'text-red-400' },
+  changed: { sign: '~', className: 'text-amber-400' },
+};
+
+export function MutationPreview({ batch, workflow, decision, onAccept, onReject }: MutationPreviewProps) {
+  const { changes, rejected } = useMemo(() => {
+    if (!workflow) return { changes: [], rejected: [] };
+    const result = applyBatch(workflow, batch.mutations);
+    return { changes: summarizeChanges(workflow, result.workflow), rejected: result.rejected };
+  }, [workflow, batch]);
+
+  const mismatch = workflow && batch.workflow && batch.workflow !== workflow.code;
+
+  return (
+    <div className="overflow-hidden rounded-xl border border-emerald-500/20 bg-emerald-500/5 text-emerald-300">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3">
+        <div className="flex items-center gap-3">
+          <GitCompare className="h-5 w-5" />
+          <div>
+            <span className="font-medium">{batch.summary}</span>
+            <span className="ml-2 text-xs opacity-60">
+              {batch.mutations.length} {batch.mutations.length === 1 ? 'mutation' : 'mutations'}
+            </span>
+          </div>
+        </div>
+        {decision ? (
+          <span className={`flex items-center gap-1 rounded px-2 py-1 text-xs ${
+            decision === 'accepted' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-zinc-800 text-zinc-400'
+          }`}>
+            {decision === 'accepted' ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {decision === 'accepted' ? 'Applied' : 'Rejected'}
+          </span>
+        ) : (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onReject}
+              className="rounded px-2 py-1 text-xs text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200"
+            >
+              Reject
+            </button>
+            <button
+              onClick={onAccept}
+              disabled={!workflow || changes.length === 0}
+              className="flex items-center gap-1 rounded bg-emerald-500/20 px-2 py-1 text-xs text-emerald-300 transition-colors hover:bg-emerald-500/30 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <Check className="h-3 w-3" />
+              Accept
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Diff */}
+      {!decision && (
+        <div className="space-y-1 border-t border-current/10 px-4 py-3 text-sm">
+          {!workflow ? (
+            <p className="text-xs text-zinc-400">Open a workflow in the Workflow tab to apply these changes.</p>
+          ) : (
+            <>
+              {mismatch && (
+                <p className="mb-2 flex items-center gap-1.5 text-xs text-amber-400">
+                  <AlertTriangle className="h-3.5 w-3.5" />
+                  Written for &quot;{batch.workflow}&quot;, but &quot;{workflow.code}&quot; is open
+                </p>
+              )}
+              {changes.length === 0 && rejected.length === 0 && (
+                <p className="text-xs text-zinc-400">These mutations do not change the open workflow.</p>
+              )}
+              {changes.map((change, index) => {
+                const style = CHANGE_STYLES[change.kind];
+                return (
+                  <div key={index} className="flex items-start gap-2">
+                    <span className={`w-3 font-mono ${style.className}`}>{style.sign}</span>
+                    <div className="min-w-0 flex-1">
+                      <span className="text-zinc-200">{change.label}</span>
+                      <span className="ml-2 text-xs text-zinc-500">{change.target}</span>
+                      {change.details.map((detail) => (
+                        <p key={detail} className="truncate font-mono text-xs text-zinc-500" title={detail}>
+                          {detail}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              {rejected.map(({ index, mutation, reason }) => (
+                <div key={`rejected-${index}`} className="flex items-start gap-2 text-xs">
+                  <X className="mt-0.5 h-3 w-3 shrink-0 text-red-400" />
+                  <span className="text-zinc-400">
+                    Skipped {mutation.type}: <span className="text-red-300">{reason}</span>
+                  </span>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
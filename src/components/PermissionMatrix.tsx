@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * Permission Matrix
+ *
+ * Role × transition grid for one workflow: which roles may fire each
+ * transition, directly, through an inherited role, or because the
+ * transition is open to everyone.
+ */
+
+import { useMemo } from 'react';
+import { Check, Minus } from 'lucide-react';
+import { buildPermissionMatrix, PermissionCell } from '@/lib/workflow-permissions';
+import type { BusinessProcess, Role } from '@/types/module';
+
+interface PermissionMatrixProps {
+  process: BusinessProcess;
+  roles: Role[];
+  highlightRole?: string; // Role code whose column is emphasized
+}
+
+export function PermissionMatrix({ process, roles, highlightRole }: PermissionMatrixProps) {
+  const matrix = useMemo(() => buildPermissionMatrix(process, roles), [process, roles]);
+  const nodeName = (id: string) => process.nodes.find(n => n.id === id)?.name || id;
+
+  if (matrix.transitions.length === 0) {
+    return <p className="text-sm text-zinc-500">This workflow has no transitions.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-zinc-800">
+      <table className="w-full">
+        <thead>
+          <tr className="bg-zinc-900">
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              Transition
+            </th>
+            {matrix.roles.map((role) => (
+              <th
+                key={role.id}
+                title={role.name}
+                className={`px-3 py-3 text-center text-xs font-medium tracking-wider ${
+                  role.code === highlightRole ? 'text-cyan-400' : 'text-zinc-500'
+                }`}
+              >
+                {role.code}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-800">
+          {matrix.transitions.map((transition, row) => (
+            <tr key={transition.id} className="hover:bg-zinc-900/50">
+              <td className="px-4 py-2">
+                <span className="text-sm text-zinc-200">{transition.label || `To ${nodeName(transition.to)}`}</span>
+                <span className="block text-xs text-zinc-500">
+                  {nodeName(transition.from)} → {nodeName(transition.to)}
+                </span>
+              </td>
+              {matrix.cells[row].map((cell, column) => (
+                <td
+                  key={matrix.roles[column].id}
+                  className={`px-3 py-2 text-center ${
+                    matrix.roles[column].code === highlightRole ? 'bg-cyan-500/5' : ''
+                  }`}
+                >
+                  <PermissionMark cell={cell} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex gap-4 border-t border-zinc-800 px-4 py-2 text-xs text-zinc-500">
+        <span className="flex items-center gap-1"><Check className="h-3 w-3 text-emerald-400" /> allowed</span>
+        <span className="flex items-center gap-1"><Check className="h-3 w-3 text-emerald-400/50" /> inherited</span>
+        <span className="flex items-center gap-1"><Check className="h-3 w-3 text-zinc-500" /> open to all roles</span>
+      </div>
+    </div>
+  );
+}
+
+function PermissionMark({ cell }: { cell: PermissionCell }) {
+  switch (cell.grant) {
+    case 'direct':
+      return <Check className="mx-auto h-4 w-4 text-emerald-400" />;
+    case 'inherited':
+      return (
+        <span title={`Inherited from ${cell.via}`}>
+          <Check className="mx-auto h-4 w-4 text-emerald-400/50" />
+        </span>
+      );
+    case 'open':
+      return <Check className="mx-auto h-4 w-4 text-zinc-500" />;
+    case 'denied':
+      return <Minus className="mx-auto h-4 w-4 text-zinc-700" />;
+  }
+}
@@ -0,0 +1,162 @@
+'use client';
+
+/**
+ * Roles Viewer Component
+ *
+ * Full-screen view for the module's roles: the role list with
+ * inheritance, problems in the definitions, and the permission matrix
+ * of a chosen workflow.
+ */
+
+import { X, Shield, Copy, Check, AlertTriangle } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { PermissionMatrix } from './PermissionMatrix';
+import { findRoleIssues, getInheritedRoles } from '@/lib/workflow-permissions';
+import type { BusinessProcess, Role } from '@/types/module';
+
+interface RolesViewerProps {
+  roles: Role[];
+  processes: BusinessProcess[];
+  selectedRole?: Role;
+  onClose: () => void;
+}
+
+export function RolesViewer({ roles, processes, selectedRole, onClose }: RolesViewerProps) {
+  const [copied, setCopied] = useState(false);
+  const [processId, setProcessId] = useState(processes[0]?.id || '');
+
+  const issues = useMemo(() => findRoleIssues(roles), [roles]);
+  const process = processes.find(p => p.id === processId) || processes[0];
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(JSON.stringify(roles, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between border-b border-zinc-800 px-4 py-3">
+        <div className="flex items-center gap-3">
+          <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-cyan-500/20">
+            <Shield className="h-4 w-4 text-cyan-400" />
+          </div>
+          <div>
+            <h2 className="font-medium text-zinc-100">{selectedRole ? selectedRole.name : 'Roles'}</h2>
+            <p className="text-xs text-zinc-500">
+              {selectedRole ? `Code: ${selectedRole.code} • ` : ''}{roles.length} roles in module
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-2 rounded-lg border border-zinc-700 px-3 py-1.5 text-sm text-zinc-300 transition-colors hover:border-cyan-500 hover:text-cyan-400"
+          >
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            {copied ? 'Copied' : 'Copy JSON'}
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="mx-auto max-w-4xl space-y-6">
+          {/* Issues */}
+          {issues.length > 0 && (
+            <div className="space-y-1 rounded-lg border border-amber-500/20 bg-amber-500/10 p-3">
+              {issues.map((issue, index) => (
+                <p key={index} className="flex items-center gap-2 text-sm text-amber-400">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {issue}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Roles Table */}
+          <div className="rounded-xl border border-zinc-800 overflow-hidden">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-zinc-900">
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+                    Role
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+                    Code
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+                    Inherits
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800">
+                {roles.map((role) => (
+                  <tr
+                    key={role.id}
+                    className={role.id === selectedRole?.id ? 'bg-cyan-500/5' : 'hover:bg-zinc-900/50'}
+                  >
+                    <td className="px-4 py-3">
+                      <span className="text-sm font-medium text-zinc-200">{role.name}</span>
+                      {role.description && (
+                        <span className="block text-xs text-zinc-500">{role.description}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <code className="rounded bg-zinc-800 px-2 py-0.5 text-xs text-zinc-400">
+                        {role.code}
+                      </code>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-zinc-400">
+                      {getInheritedRoles(roles, role.code).join(', ') || '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Permission Matrix */}
+          <div>
+            <div className="mb-3 flex items-center justify-between">
+              <h3 className="text-sm font-medium text-zinc-300">Permissions</h3>
+              {processes.length > 0 && (
+                <select
+                  value={process?.id}
+                  onChange={(e) => setProcessId(e.target.value)}
+                  className="rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-sm text-zinc-100 focus:border-cyan-500 focus:outline-none"
+                >
+                  {processes.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {process ? (
+              <PermissionMatrix process={process} roles={roles} highlightRole={selectedRole?.code} />
+            ) : (
+              <p className="text-sm text-zinc-500">Add a workflow to the module to see who may fire its transitions.</p>
+            )}
+          </div>
+
+          {/* Usage Hint */}
+          <div className="rounded-lg bg-zinc-900/50 border border-zinc-800 p-4">
+            <p className="text-xs text-zinc-500 mb-2">To restrict a transition to roles:</p>
+            <code className="text-sm text-cyan-400">
+              &quot;roles&quot;: [&quot;{selectedRole?.code || roles[0]?.code || 'role_code'}&quot;]
+            </code>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
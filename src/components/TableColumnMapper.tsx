@@ -0,0 +1,115 @@
+'use client';
+
+/**
+ * Table Column Mapper
+ *
+ * Mapping step for state-transition tables whose headers are not
+ * recognized: pick which column holds each field, with a row preview.
+ */
+
+import { useState } from 'react';
+import { Table, X } from 'lucide-react';
+import { TABLE_COLUMNS, TableColumnMapping, ParsedTable } from '@/lib/table-parser';
+
+interface TableColumnMapperProps {
+  fileName: string;
+  table: ParsedTable;
+  initialMapping: TableColumnMapping;
+  onConfirm: (mapping: TableColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 4;
+
+export function TableColumnMapper({ fileName, table, initialMapping, onConfirm, onCancel }: TableColumnMapperProps) {
+  const [mapping, setMapping] = useState<TableColumnMapping>(initialMapping);
+
+  const isComplete = TABLE_COLUMNS.every(({ column, required }) => !required || mapping[column] !== undefined);
+  const fieldFor = (index: number) => TABLE_COLUMNS.find(({ column }) => mapping[column] === index)?.label;
+
+  return (
+    <div className="flex h-full items-center justify-center p-8">
+      <div className="w-full max-w-2xl rounded-2xl border border-zinc-800 bg-zinc-900/50 p-6">
+        <div className="mb-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Table className="h-5 w-5 text-emerald-500" />
+            <div>
+              <h3 className="font-medium text-zinc-100">Map table columns</h3>
+              <p className="text-xs text-zinc-500">{fileName} • {table.rows.length} rows</p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Field -> column selects */}
+        <div className="mb-4 grid grid-cols-2 gap-3 sm:grid-cols-3">
+          {TABLE_COLUMNS.map(({ column, label, required }) => (
+            <label key={column} className="flex flex-col gap-1 text-xs text-zinc-400">
+              <span>
+                {label}
+                {required && <span className="text-red-400"> *</span>}
+              </span>
+              <select
+                value={mapping[column] ?? ''}
+                onChange={(e) => setMapping({
+                  ...mapping,
+                  [column]: e.target.value === '' ? undefined : Number(e.target.value),
+                })}
+                className="rounded-lg border border-zinc-700 bg-zinc-900 px-2 py-1.5 text-sm text-zinc-200 focus:border-emerald-500 focus:outline-none"
+              >
+                <option value="">—</option>
+                {table.headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {/* Preview */}
+        <div className="mb-4 overflow-x-auto rounded-lg border border-zinc-800">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-zinc-900 text-zinc-400">
+              <tr>
+                {table.headers.map((header, index) => (
+                  <th key={index} className="px-2 py-1.5 font-medium">
+                    {header || `Column ${index + 1}`}
+                    {fieldFor(index) && (
+                      <span className="ml-1 text-emerald-400">→ {fieldFor(index)}</span>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-zinc-300">
+              {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-zinc-800">
+                  {table.headers.map((_, index) => (
+                    <td key={index} className="px-2 py-1.5">{row[index]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={() => onConfirm(mapping)}
+            disabled={!isComplete}
+            className="rounded-lg border border-emerald-500/50 px-3 py-1.5 text-sm text-emerald-400 transition-colors hover:bg-emerald-500/20 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Import workflow
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
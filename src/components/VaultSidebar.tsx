@@ -4,7 +4,7 @@
  * Vault Sidebar
  *
  * Shows accumulated artifacts in the current module.
- * Organized by type: Dictionaries, Forms, Workflows.
+ * Organized by type: Dictionaries, Forms, Workflows, Roles.
  */
 
 import { useState } from 'react';
@@ -12,6 +12,7 @@ import {
   List,
   FileText,
   GitBranch,
+  Shield,
   ChevronRight,
   ChevronDown,
   Plus,
@@ -20,16 +21,17 @@ import {
   Package,
 } from 'lucide-react';
 import { useVault } from '@/lib/vault-context';
-import type { Dictionary, Form, BusinessProcess } from '@/types/module';
+import { WorkflowExportMenu } from './WorkflowExportMenu';
+import type { Dictionary, Form, BusinessProcess, Role } from '@/types/module';
 
 interface VaultSidebarProps {
-  onSelectArtifact?: (type: string, artifact: Dictionary | Form | BusinessProcess) => void;
+  onSelectArtifact?: (type: string, artifact: Dictionary | Form | BusinessProcess | Role) => void;
 }
 
 export function VaultSidebar({ onSelectArtifact }: VaultSidebarProps) {
   const { state, currentModule, createModule, selectModule, exportModule } = useVault();
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
-    new Set(['dictionaries', 'forms', 'workflows'])
+    new Set(['dictionaries', 'forms', 'workflows', 'roles'])
   );
   const [showNewModule, setShowNewModule] = useState(false);
   const [newModuleName, setNewModuleName] = useState('');
@@ -185,6 +187,25 @@ export function VaultSidebar({ onSelectArtifact }: VaultSidebarProps) {
                 name={process.name}
                 subtitle={`${process.nodes.length} states`}
                 onClick={() => onSelectArtifact?.('workflow', process)}
+                actions={<WorkflowExportMenu workflow={process} compact />}
+              />
+            ))}
+          </ArtifactSection>
+
+          {/* Roles */}
+          <ArtifactSection
+            title="Roles"
+            icon={<Shield className="h-4 w-4" />}
+            count={currentModule.roles.length}
+            expanded={expandedSections.has('roles')}
+            onToggle={() => toggleSection('roles')}
+          >
+            {currentModule.roles.map((role) => (
+              <ArtifactItem
+                key={role.id}
+                name={role.name}
+                subtitle={role.inherits?.length ? `${role.code} · inherits ${role.inherits.join(', ')}` : role.code}
+                onClick={() => onSelectArtifact?.('role', role)}
               />
             ))}
           </ArtifactSection>
@@ -267,18 +288,24 @@ interface ArtifactItemProps {
   name: string;
   subtitle: string;
   onClick?: () => void;
+  actions?: React.ReactNode;
 }
 
-function ArtifactItem({ name, subtitle, onClick }: ArtifactItemProps) {
+function ArtifactItem({ name, subtitle, onClick, actions }: ArtifactItemProps) {
   return (
-    <button
-      onClick={onClick}
-      className="flex w-full items-center justify-between rounded px-2 py-1.5 text-left hover:bg-zinc-800"
-    >
-      <div>
+    <div className="group flex w-full items-center justify-between rounded hover:bg-zinc-800">
+      <button
+        onClick={onClick}
+        className="flex-1 px-2 py-1.5 text-left"
+      >
         <p className="text-sm text-zinc-200">{name}</p>
         <p className="text-xs text-zinc-500">{subtitle}</p>
-      </div>
-    </button>
+      </button>
+      {actions && (
+        <div className="pr-1 opacity-0 transition-opacity group-hover:opacity-100">
+          {actions}
+        </div>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,56 @@
+'use client';
+
+/**
+ * Workflow Edge Component
+ *
+ * Draws a transition along the orthogonal route workflow-routing
+ * computed for it, with rounded corners and the label where the router
+ * placed it. Edges without a route fall back to a smooth step path
+ * between their handles.
+ */
+
+import { BaseEdge, Edge, EdgeProps, getSmoothStepPath } from '@xyflow/react';
+import { toRoundedPath, EdgeRoute } from '@/lib/workflow-routing';
+
+export type RoutedEdgeType = Edge<{ route?: EdgeRoute }, 'routed'>;
+
+export function RoutedEdge({
+  data,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  label,
+  labelStyle,
+  labelBgStyle,
+  labelBgPadding,
+  labelBgBorderRadius,
+  style,
+  markerEnd,
+  interactionWidth,
+}: EdgeProps<RoutedEdgeType>) {
+  const route = data?.route;
+  const [fallbackPath, fallbackX, fallbackY] = getSmoothStepPath({
+    sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition,
+  });
+
+  return (
+    <BaseEdge
+      path={route ? toRoundedPath(route.points) : fallbackPath}
+      label={label}
+      labelX={route?.label?.x ?? fallbackX}
+      labelY={route?.label?.y ?? fallbackY}
+      labelStyle={labelStyle}
+      labelBgStyle={labelBgStyle}
+      labelBgPadding={labelBgPadding}
+      labelBgBorderRadius={labelBgBorderRadius}
+      style={style}
+      markerEnd={markerEnd}
+      interactionWidth={interactionWidth}
+    />
+  );
+}
+
+export const EDGE_TYPES = { routed: RoutedEdge };
@@ -0,0 +1,204 @@
+'use client';
+
+/**
+ * Workflow Editor Panels
+ *
+ * Editing tools for WorkflowPreview: a palette that adds nodes of each
+ * ProcessNodeType, an inline input for renaming nodes, and an inspector
+ * for a transition's label and condition. Changes are handed back as
+ * WorkflowMutations, the same operations the chat applies.
+ */
+
+import { useRef, useState } from 'react';
+import { useReactFlow, useStore } from '@xyflow/react';
+import { Circle, CircleDot, CircleStop, Diamond, Layers, Square, Trash2, X } from 'lucide-react';
+import { parseGuard } from '@/lib/guard-expression';
+import { createElementId, WorkflowMutation } from '@/lib/workflow-normalizer';
+import type { BusinessProcess, ProcessNodeType, ProcessTransition } from '@/types/module';
+
+const PALETTE = [
+  { type: 'start', label: 'Start', name: 'Start', icon: Circle },
+  { type: 'task', label: 'Task', name: 'New Task', icon: Square },
+  { type: 'gateway', label: 'Gateway', name: 'Decision', icon: Diamond },
+  { type: 'event', label: 'Event', name: 'Event', icon: CircleDot },
+  { type: 'subprocess', label: 'Subprocess', name: 'Subprocess', icon: Layers },
+  { type: 'end', label: 'End', name: 'End', icon: CircleStop },
+] satisfies { type: ProcessNodeType; label: string; name: string; icon: typeof Circle }[];
+
+// ─────────────────────────────────────────────────────────────
+// Node palette
+// ─────────────────────────────────────────────────────────────
+
+interface NodePaletteProps {
+  process: BusinessProcess;
+  onMutate: (mutations: WorkflowMutation[]) => void;
+  onAdded?: (nodeId: string) => void;
+}
+
+/**
+ * Adds nodes in the middle of the visible canvas. Must be rendered
+ * inside ReactFlow.
+ */
+export function NodePalette({ process, onMutate, onAdded }: NodePaletteProps) {
+  const { getViewport } = useReactFlow();
+  const width = useStore(s => s.width);
+  const height = useStore(s => s.height);
+
+  const add = (type: ProcessNodeType, name: string) => {
+    const { x, y, zoom } = getViewport();
+    // Nudge successive nodes so they do not land on top of each other
+    const offset = (process.nodes.length % 5) * 24;
+    const id = createElementId(process.nodes, 'node');
+    onMutate([{
+      type: 'addNode',
+      payload: {
+        id,
+        name,
+        type,
+        position: { x: (width / 2 - x) / zoom - 60 + offset, y: (height / 2 - y) / zoom - 20 + offset },
+      },
+    }]);
+    onAdded?.(id);
+  };
+
+  return (
+    <div className="rounded-xl border border-zinc-800 bg-zinc-900/95 p-1.5 text-xs shadow-lg">
+      <div className="flex items-center gap-1">
+        {PALETTE.map(({ type, label, name, icon: Icon }) => (
+          <button
+            key={type}
+            onClick={() => add(type, name)}
+            title={`Add ${label.toLowerCase()}`}
+            className="flex items-center gap-1 rounded-md px-2 py-1 text-zinc-300 transition-colors hover:bg-zinc-800 hover:text-emerald-400"
+          >
+            <Icon className="h-3.5 w-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="px-2 pt-1 text-[10px] text-zinc-500">
+        Drag between handles to connect · double-click to rename · Delete removes the selection
+      </p>
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Inline node rename
+// ─────────────────────────────────────────────────────────────
+
+interface NodeNameInputProps {
+  name: string;
+  onCommit: (name: string) => void;
+  onCancel: () => void;
+}
+
+export function NodeNameInput({ name, onCommit, onCancel }: NodeNameInputProps) {
+  const [value, setValue] = useState(name);
+  // Enter blurs the input; commit once whichever comes first
+  const done = useRef(false);
+
+  const commit = () => {
+    if (done.current) return;
+    done.current = true;
+    onCommit(value.trim());
+  };
+
+  return (
+    <input
+      autoFocus
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onFocus={(e) => e.target.select()}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') {
+          done.current = true;
+          onCancel();
+        }
+      }}
+      className="nodrag nopan w-full rounded bg-zinc-950 px-1 text-center text-xs text-zinc-100 outline-none ring-1 ring-emerald-500"
+    />
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Transition inspector
+// ─────────────────────────────────────────────────────────────
+
+interface TransitionInspectorProps {
+  process: BusinessProcess;
+  transition: ProcessTransition;
+  onMutate: (mutations: WorkflowMutation[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Label and condition of the selected transition. Key by transition id
+ * so the fields reset when the selection changes.
+ */
+export function TransitionInspector({ process, transition, onMutate, onClose }: TransitionInspectorProps) {
+  const [label, setLabel] = useState(transition.label || '');
+  const [condition, setCondition] = useState(transition.condition || '');
+  const nodeName = (id: string) => process.nodes.find(n => n.id === id)?.name || id;
+
+  let guardError: string | null = null;
+  if (condition.trim()) {
+    try {
+      parseGuard(condition);
+    } catch (err) {
+      guardError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const update = (field: 'label' | 'condition', value: string) => {
+    if (value.trim() === (transition[field] || '')) return;
+    onMutate([{ type: 'updateTransition', payload: { id: transition.id, [field]: value.trim() || undefined } }]);
+  };
+
+  const inputClass = 'nodrag w-full rounded-lg border border-zinc-700 bg-zinc-950 px-2 py-1.5 text-zinc-200 focus:border-emerald-500 focus:outline-none';
+
+  return (
+    <div className="w-80 rounded-xl border border-zinc-800 bg-zinc-900/95 p-3 text-xs text-zinc-300 shadow-lg">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="font-medium text-zinc-100">
+          {nodeName(transition.from)} → {nodeName(transition.to)}
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onMutate([{ type: 'removeTransition', payload: { id: transition.id } }])}
+            title="Delete transition"
+            className="rounded-md p-1 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-red-400"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+          <button onClick={onClose} className="rounded-md p-1 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200">
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <label className="mb-1 block text-zinc-500">Label</label>
+      <input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={() => update('label', label)}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        placeholder="Approve"
+        className={`mb-2 ${inputClass}`}
+      />
+
+      <label className="mb-1 block text-zinc-500">Condition</label>
+      <input
+        value={condition}
+        onChange={(e) => setCondition(e.target.value)}
+        onBlur={() => update('condition', condition)}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        placeholder="severity == 'critical'"
+        className={`font-mono ${inputClass}`}
+      />
+      {guardError && <p className="mt-1 text-amber-400">{guardError}</p>}
+    </div>
+  );
+}
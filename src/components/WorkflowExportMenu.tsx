@@ -0,0 +1,169 @@
+'use client';
+
+/**
+ * Workflow Export Menu
+ *
+ * Download button with a dropdown of export formats and diagram images.
+ * Used by the workflow viewer and the vault sidebar.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { Download, ChevronDown, Copy, Check, Image as ImageIcon } from 'lucide-react';
+import { EXPORT_FORMATS, serializeWorkflow, ExportFormat } from '@/lib/workflow-serializer';
+import { renderWorkflowSvg } from '@/lib/workflow-renderer';
+import type { BusinessProcess } from '@/types/module';
+
+interface WorkflowExportMenuProps {
+  workflow: BusinessProcess;
+  compact?: boolean;
+}
+
+export function WorkflowExportMenu({ workflow, compact = false }: WorkflowExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [rendering, setRendering] = useState(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+        setRenderError(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = (format: ExportFormat) => {
+    const { content, mimeType, extension } = serializeWorkflow(workflow, format);
+    download(new Blob([content], { type: mimeType }), `${workflow.code || 'workflow'}.${extension}`);
+    setOpen(false);
+  };
+
+  // SVG renders right here; PNG is rasterized by the render route
+  const handleExportImage = async (format: 'svg' | 'png') => {
+    const filename = `${workflow.code || 'workflow'}.${format}`;
+    if (format === 'svg') {
+      download(new Blob([renderWorkflowSvg(workflow)], { type: 'image/svg+xml' }), filename);
+      setOpen(false);
+      return;
+    }
+
+    setRendering(true);
+    setRenderError(null);
+    try {
+      const response = await fetch('/api/workflow/render', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workflow, format }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({}));
+        throw new Error(error || `Render failed: ${response.status}`);
+      }
+      download(await response.blob(), filename);
+      setOpen(false);
+    } catch (err) {
+      // Keep the menu open so the reason stays next to the button
+      setRenderError(err instanceof Error ? err.message : 'Failed to render image');
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  // Fenced Mermaid block for Markdown docs and PR descriptions
+  const handleCopyMarkdown = async () => {
+    const { content } = serializeWorkflow(workflow, 'mermaid');
+    await navigator.clipboard.writeText('```mermaid\n' + content + '\n```\n');
+    setCopied(true);
+    setTimeout(() => {
+      setCopied(false);
+      setOpen(false);
+    }, 1200);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      {compact ? (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setOpen(!open);
+          }}
+          className="rounded p-1 text-zinc-500 hover:bg-zinc-700 hover:text-zinc-300"
+          title="Export workflow"
+        >
+          <Download className="h-3.5 w-3.5" />
+        </button>
+      ) : (
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 rounded-lg border border-zinc-700 px-3 py-1.5 text-sm text-zinc-300 transition-colors hover:border-emerald-500 hover:text-emerald-400"
+        >
+          <Download className="h-4 w-4" />
+          Export
+          <ChevronDown className="h-3 w-3" />
+        </button>
+      )}
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 min-w-36 rounded-lg border border-zinc-700 bg-zinc-900 py-1 shadow-lg">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleExport(format);
+              }}
+              className="block w-full px-3 py-1.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-emerald-400"
+            >
+              {label}
+            </button>
+          ))}
+          <div className="my-1 border-t border-zinc-800" />
+          {(['svg', 'png'] as const).map(format => (
+            <button
+              key={format}
+              disabled={rendering}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleExportImage(format);
+              }}
+              className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-emerald-400 disabled:opacity-40"
+            >
+              <ImageIcon className="h-3.5 w-3.5" />
+              {format === 'png' && rendering ? 'Rendering…' : `${format.toUpperCase()} image`}
+            </button>
+          ))}
+          {renderError && (
+            <p className="max-w-56 px-3 py-1 text-xs text-red-400">{renderError}</p>
+          )}
+          <div className="my-1 border-t border-zinc-800" />
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleCopyMarkdown();
+            }}
+            className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-emerald-400"
+          >
+            {copied ? <Check className="h-3.5 w-3.5 text-emerald-400" /> : <Copy className="h-3.5 w-3.5" />}
+            {copied ? 'Copied' : 'Copy as Markdown'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function download(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
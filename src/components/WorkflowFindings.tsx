@@ -0,0 +1,85 @@
+'use client';
+
+/**
+ * Workflow Findings Panel
+ *
+ * Lists structural analysis findings (unreachable states, dead ends,
+ * livelocks, ...) over the workflow preview. The affected nodes and
+ * transitions are outlined in the diagram itself.
+ */
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronUp, CircleAlert, Info } from 'lucide-react';
+import type { FindingSeverity, WorkflowFinding } from '@/lib/workflow-analyzer';
+
+interface WorkflowFindingsPanelProps {
+  findings: WorkflowFinding[];
+}
+
+export const SEVERITY_COLORS: Record<FindingSeverity, string> = {
+  error: '#ef4444',
+  warning: '#f59e0b',
+  info: '#71717a',
+};
+
+const SEVERITY_ICONS = {
+  error: CircleAlert,
+  warning: AlertTriangle,
+  info: Info,
+};
+
+export function WorkflowFindingsPanel({ findings }: WorkflowFindingsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (findings.length === 0) {
+    return (
+      <div className="flex items-center gap-1.5 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-400">
+        <CheckCircle className="h-3.5 w-3.5 text-emerald-500" />
+        No issues found
+      </div>
+    );
+  }
+
+  const errors = findings.filter(f => f.severity === 'error').length;
+  const warnings = findings.filter(f => f.severity === 'warning').length;
+
+  return (
+    <div className="w-72 rounded-xl border border-zinc-800 bg-zinc-900/95 text-xs shadow-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center gap-3 px-3 py-2 text-zinc-300"
+      >
+        {errors > 0 && (
+          <span className="flex items-center gap-1 text-red-400">
+            <CircleAlert className="h-3.5 w-3.5" />
+            {errors}
+          </span>
+        )}
+        {warnings > 0 && (
+          <span className="flex items-center gap-1 text-amber-400">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {warnings}
+          </span>
+        )}
+        <span className="flex-1 text-left text-zinc-400">
+          {findings.length} {findings.length === 1 ? 'issue' : 'issues'}
+        </span>
+        {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {expanded && (
+        <ul className="max-h-64 space-y-1 overflow-y-auto border-t border-zinc-800 p-2">
+          {findings.map((finding, index) => {
+            const Icon = SEVERITY_ICONS[finding.severity];
+            return (
+              <li key={index} className="flex items-start gap-2 rounded-md px-1.5 py-1 text-zinc-300">
+                <Icon className="mt-0.5 h-3.5 w-3.5 shrink-0" style={{ color: SEVERITY_COLORS[finding.severity] }} />
+                <span>{finding.message}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
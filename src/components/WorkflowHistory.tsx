@@ -0,0 +1,150 @@
+'use client';
+
+/**
+ * Workflow History Panel
+ *
+ * Undo/redo stack of the active workflow: each batch of mutations with
+ * who caused it (user edit, AI or import), plus named checkpoints that
+ * can be restored.
+ */
+
+import { useState } from 'react';
+import { X, Undo2, Redo2, User, Bot, Upload, Bookmark, RotateCcw } from 'lucide-react';
+import { useWorkflow } from '@/lib/workflow-context';
+import type { HistoryEntry, MutationSource } from '@/lib/workflow-history';
+
+interface WorkflowHistoryPanelProps {
+  onClose: () => void;
+}
+
+const SOURCE_ICONS: Record<MutationSource, typeof User> = {
+  user: User,
+  ai: Bot,
+  import: Upload,
+};
+
+const SOURCE_LABELS: Record<MutationSource, string> = {
+  user: 'Edit',
+  ai: 'AI',
+  import: 'Import',
+};
+
+export function WorkflowHistoryPanel({ onClose }: WorkflowHistoryPanelProps) {
+  const {
+    past,
+    future,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    checkpoints,
+    createCheckpoint,
+    restoreCheckpoint,
+  } = useWorkflow();
+  const [checkpointName, setCheckpointName] = useState('');
+
+  const handleCreateCheckpoint = () => {
+    createCheckpoint(checkpointName.trim() || `Checkpoint ${checkpoints.length + 1}`);
+    setCheckpointName('');
+  };
+
+  const controlClass = 'rounded-md p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200 disabled:cursor-not-allowed disabled:opacity-40';
+
+  return (
+    <div className="flex h-full w-72 flex-col border-l border-zinc-800 bg-zinc-900/50 text-xs text-zinc-300">
+      <div className="flex items-center justify-between border-b border-zinc-800 px-3 py-2">
+        <span className="font-medium text-zinc-100">History</span>
+        <div className="flex items-center gap-1">
+          <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" className={controlClass}>
+            <Undo2 className="h-4 w-4" />
+          </button>
+          <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className={controlClass}>
+            <Redo2 className="h-4 w-4" />
+          </button>
+          <button onClick={onClose} className={controlClass}>
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Batches, newest first; undone ones above, dimmed */}
+      <div className="flex-1 overflow-y-auto p-2">
+        {[...future].reverse().map((entry) => (
+          <HistoryItem key={entry.id} entry={entry} undone />
+        ))}
+        {[...past].reverse().map((entry, index) => (
+          <HistoryItem key={entry.id} entry={entry} current={index === 0} />
+        ))}
+      </div>
+
+      {/* Checkpoints */}
+      <div className="border-t border-zinc-800 p-3">
+        <p className="mb-2 text-zinc-500">Checkpoints</p>
+        <div className="mb-2 flex gap-1">
+          <input
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateCheckpoint()}
+            placeholder="Before review changes"
+            className="min-w-0 flex-1 rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-zinc-100 placeholder-zinc-500 focus:border-emerald-500 focus:outline-none"
+          />
+          <button
+            onClick={handleCreateCheckpoint}
+            className="flex items-center gap-1 rounded bg-emerald-600 px-2 py-1 text-white hover:bg-emerald-500"
+          >
+            <Bookmark className="h-3 w-3" />
+            Save
+          </button>
+        </div>
+        {checkpoints.length === 0 ? (
+          <p className="text-zinc-600">No checkpoints yet</p>
+        ) : (
+          <div className="flex max-h-40 flex-col gap-1 overflow-y-auto">
+            {[...checkpoints].reverse().map((checkpoint) => (
+              <div key={checkpoint.id} className="flex items-center justify-between rounded-md px-2 py-1 hover:bg-zinc-800">
+                <span>
+                  <span className="text-zinc-200">{checkpoint.name}</span>
+                  <span className="ml-2 text-zinc-500">{formatTime(checkpoint.timestamp)}</span>
+                </span>
+                <button
+                  onClick={() => restoreCheckpoint(checkpoint.id)}
+                  title="Restore"
+                  className="rounded p-1 text-zinc-400 hover:text-emerald-400"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function HistoryItem({ entry, undone, current }: { entry: HistoryEntry; undone?: boolean; current?: boolean }) {
+  const Icon = SOURCE_ICONS[entry.source];
+
+  return (
+    <div
+      className={`flex items-start gap-2 rounded-md px-2 py-1.5 ${
+        current ? 'bg-emerald-500/10' : ''
+      } ${undone ? 'opacity-40' : ''}`}
+    >
+      <Icon className={`mt-0.5 h-3.5 w-3.5 shrink-0 ${entry.source === 'ai' ? 'text-emerald-400' : 'text-zinc-500'}`} />
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-zinc-200" title={entry.label}>{entry.label}</p>
+        <p className="text-zinc-500">
+          {SOURCE_LABELS[entry.source]}
+          {entry.mutations.length > 1 && ` · ${entry.mutations.length} changes`}
+          {' · '}
+          {formatTime(entry.timestamp)}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
@@ -5,42 +5,278 @@
  *
  * Visualizes business processes as interactive flow diagrams
  * using React Flow. Shows nodes, transitions, and connections.
+ * Timers and SLAs are shown on their nodes and transitions, with
+ * escalation paths for overdue states. Structural findings are outlined
+ * by severity; simulation mode highlights the token's position and the
+ * path taken. Edit mode turns the canvas into an editor whose changes go
+ * out as WorkflowMutations. Lane view lays the process out in swimlanes
+ * by assignee. Transitions follow orthogonal routes from workflow-routing,
+ * recomputed from the measured node boxes as nodes move. Tidy up lays the
+ * whole process out again, animating nodes to their new places.
  */
 
-import { useMemo, useCallback } from 'react';
+import { useMemo, useCallback, useState } from 'react';
 import {
   ReactFlow,
   Background,
   BackgroundVariant,
   Node,
   Edge,
+  NodeChange,
+  NodeProps,
+  EdgeChange,
+  Connection,
+  XYPosition,
   Position,
   MarkerType,
   Controls,
   MiniMap,
+  Panel,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import type { BusinessProcess, ProcessNode } from '@/types/module';
+import { Play, Pencil, Check, Rows3, Sparkles } from 'lucide-react';
+import { useWorkflowSimulation, WorkflowSimulatorPanel } from './WorkflowSimulator';
+import { NodePalette, NodeNameInput, TransitionInspector } from './WorkflowEditor';
+import { WorkflowFindingsPanel, SEVERITY_COLORS } from './WorkflowFindings';
+import { EDGE_TYPES } from './WorkflowEdge';
+import { analyzeWorkflow, getFindingSeverities, FindingSeverity } from '@/lib/workflow-analyzer';
+import { formatDuration } from '@/lib/workflow-timers';
+import { applySwimlaneLayout, SwimLane } from '@/lib/workflow-layout';
+import { applyLayoutAsync } from '@/lib/workflow-layout-async';
+import { measureNode } from '@/lib/workflow-renderer';
+import { routeEdges, EdgeRoute, RoutingNode } from '@/lib/workflow-routing';
+import {
+  getNodeStyle,
+  getNodeBadges,
+  getTransitionColor,
+  getTransitionLabel,
+  getEscalations,
+  getRoutingEdges,
+  EDGE_COLORS,
+  BADGE_COLOR,
+} from '@/lib/workflow-styles';
+import type { WorkflowMutation } from '@/lib/workflow-normalizer';
+import type { BusinessProcess, ProcessNode, Form, Role } from '@/types/module';
 
 interface WorkflowPreviewProps {
   process: BusinessProcess;
+  forms?: Form[]; // Module forms, to check formRefs
+  roles?: Role[]; // Module roles, to check assignees and transition roles
+  onProcessChange?: (process: BusinessProcess) => void; // Enables saving simulation scenarios
+  onMutate?: (mutations: WorkflowMutation[]) => void; // Enables edit mode
+}
+
+interface SimulationHighlight {
+  activeNodes: Set<string>;
+  visitedEdges: Set<string>;
+  enabledEdges: Set<string>;
 }
 
-export function WorkflowPreview({ process }: WorkflowPreviewProps) {
-  const { nodes, edges } = useMemo(
-    () => transformToReactFlow(process),
-    [process]
+type LaneNode = Node<{ label: string; shaded: boolean }, 'lane'>;
+
+type NodeSize = { width: number; height: number };
+
+const NODE_TYPES = { lane: LaneBand };
+
+export function WorkflowPreview({ process, forms, roles, onProcessChange, onMutate }: WorkflowPreviewProps) {
+  const [simulating, setSimulating] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [selectedNodes, setSelectedNodes] = useState<Set<string>>(new Set());
+  const [selectedEdges, setSelectedEdges] = useState<Set<string>>(new Set());
+  const [dragPositions, setDragPositions] = useState<Record<string, XYPosition>>({});
+  const [nodeSizes, setNodeSizes] = useState<Record<string, NodeSize>>({});
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [showLanes, setShowLanes] = useState(false);
+  const [tidying, setTidying] = useState(false);
+  const [tidyError, setTidyError] = useState<string | null>(null);
+  const simulation = useWorkflowSimulation(process);
+
+  const findings = useMemo(() => analyzeWorkflow(process, { forms, roles }), [process, forms, roles]);
+  const severities = useMemo(() => getFindingSeverities(findings), [findings]);
+
+  const highlight = useMemo<SimulationHighlight | undefined>(
+    () => simulating
+      ? {
+          activeNodes: new Set(Object.keys(simulation.state.tokens)),
+          visitedEdges: new Set(simulation.state.firedTransitions),
+          enabledEdges: new Set(simulation.enabled.map(e => e.transition.id)),
+        }
+      : undefined,
+    [simulating, simulation.state, simulation.enabled]
+  );
+
+  // Lane view shows a laid out copy; mutations still address the process itself
+  const hasAssignees = process.nodes.some(n => n.assignee);
+  const laneLayout = useMemo(() => {
+    if (!showLanes || !hasAssignees) return null;
+    const laidOut = structuredClone(process);
+    const lanes = applySwimlaneLayout(laidOut.nodes, laidOut.transitions);
+    return { process: laidOut, lanes };
+  }, [showLanes, hasAssignees, process]);
+
+  // Routes follow the nodes as drawn: laid out, dragged and measured
+  const shown = laneLayout?.process || process;
+  const routingEdges = useMemo(() => getRoutingEdges(shown), [shown]);
+  const settledRoutes = useMemo(
+    () => routeEdges(getRoutingNodes(shown, {}, nodeSizes), routingEdges),
+    [shown, routingEdges, nodeSizes]
+  );
+
+  // While dragging, only edges touching the dragged nodes are rerouted;
+  // the rest keep their routes until the drop routes everything again
+  const routes = useMemo(() => {
+    const dragged = new Set(Object.keys(dragPositions));
+    if (dragged.size === 0) return settledRoutes;
+    const touching = routingEdges.filter(e => dragged.has(e.from) || dragged.has(e.to));
+    const rerouted = routeEdges(getRoutingNodes(shown, dragPositions, nodeSizes), touching);
+    return new Map([...settledRoutes, ...rerouted]);
+  }, [shown, routingEdges, settledRoutes, dragPositions, nodeSizes]);
+
+  const { nodes: baseNodes, edges: baseEdges } = useMemo(
+    () => transformToReactFlow(shown, routes, highlight, severities),
+    [shown, routes, highlight, severities]
+  );
+
+  const laneNodes = useMemo(
+    () => laneLayout ? getLaneNodes(laneLayout.process, laneLayout.lanes, roles) : [],
+    [laneLayout, roles]
+  );
+
+  // Selection, in-progress drags and the rename input sit on top of the process
+  const nodes = useMemo(() => [...laneNodes, ...baseNodes.map(node => ({
+    ...node,
+    position: dragPositions[node.id] || node.position,
+    selected: selectedNodes.has(node.id),
+    ...(node.id === renaming && {
+      data: {
+        ...node.data,
+        label: (
+          <NodeNameInput
+            name={process.nodes.find(n => n.id === node.id)?.name || ''}
+            onCommit={(name) => {
+              setRenaming(null);
+              if (name) onMutate?.([{ type: 'updateNode', payload: { id: node.id, name } }]);
+            }}
+            onCancel={() => setRenaming(null)}
+          />
+        ),
+      },
+    }),
+  }))], [laneNodes, baseNodes, dragPositions, selectedNodes, renaming, process.nodes, onMutate]);
+
+  const edges = useMemo(
+    () => baseEdges.map(edge => ({ ...edge, selected: selectedEdges.has(edge.id) })),
+    [baseEdges, selectedEdges]
+  );
+
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    setSelectedNodes(prev => applySelection(prev, changes));
+
+    const measured: Record<string, NodeSize> = {};
+    changes.forEach(change => {
+      if (change.type === 'dimensions' && change.dimensions) measured[change.id] = change.dimensions;
+    });
+    if (Object.keys(measured).length > 0) setNodeSizes(prev => ({ ...prev, ...measured }));
+
+    const moving: Record<string, XYPosition> = {};
+    const moved: WorkflowMutation[] = [];
+    changes.forEach(change => {
+      if (change.type !== 'position' || !change.position) return;
+      if (change.dragging) moving[change.id] = change.position;
+      else moved.push({ type: 'moveNode', payload: { id: change.id, position: change.position } });
+    });
+    if (Object.keys(moving).length > 0) setDragPositions(prev => ({ ...prev, ...moving }));
+    if (moved.length > 0) {
+      onMutate?.(moved);
+      setDragPositions({});
+    }
+  }, [onMutate]);
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    setSelectedEdges(prev => applySelection(prev, changes));
+  }, []);
+
+  const handleConnect = useCallback((connection: Connection) => {
+    onMutate?.([{ type: 'addTransition', payload: { from: connection.source, to: connection.target } }]);
+  }, [onMutate]);
+
+  // Transitions of deleted nodes go with them
+  const handleDelete = useCallback(({ nodes: deletedNodes, edges: deletedEdges }: { nodes: Node[]; edges: Edge[] }) => {
+    const removed = new Set(deletedNodes.map(n => n.id));
+    onMutate?.([
+      ...deletedNodes.map((n): WorkflowMutation => ({ type: 'removeNode', payload: { id: n.id } })),
+      ...deletedEdges
+        .filter(e => !removed.has(e.source) && !removed.has(e.target))
+        .map((e): WorkflowMutation => ({ type: 'removeTransition', payload: { id: e.id } })),
+    ]);
+    setSelectedNodes(new Set());
+    setSelectedEdges(new Set());
+  }, [onMutate]);
+
+  // Lay out a copy, animate the nodes there, then commit the moves as one batch
+  const handleTidy = useCallback(async () => {
+    if (!onMutate) return;
+    setTidying(true);
+    setTidyError(null);
+    try {
+      const laidOut = structuredClone(process);
+      await applyLayoutAsync(laidOut.nodes, laidOut.transitions);
+
+      const from = new Map(process.nodes.map(n => [n.id, n.position]));
+      const moved = laidOut.nodes.filter(n => {
+        const previous = from.get(n.id);
+        return previous && (previous.x !== n.position.x || previous.y !== n.position.y);
+      });
+      if (moved.length === 0) return;
+
+      await new Promise<void>(resolve => animate(TIDY_DURATION, (t) => {
+        setDragPositions(Object.fromEntries(moved.map(n => {
+          const start = from.get(n.id)!;
+          return [n.id, { x: start.x + (n.position.x - start.x) * t, y: start.y + (n.position.y - start.y) * t }];
+        })));
+      }, resolve));
+      onMutate(moved.map((n): WorkflowMutation => ({ type: 'moveNode', payload: { id: n.id, position: n.position } })));
+    } catch (err) {
+      setTidyError(err instanceof Error ? err.message : 'Layout failed');
+    } finally {
+      setDragPositions({});
+      setTidying(false);
+    }
+  }, [process, onMutate]);
+
+  const selectedTransition = editing && selectedEdges.size === 1 && selectedNodes.size === 0
+    ? process.transitions.find(t => selectedEdges.has(t.id))
+    : undefined;
+
+  // While simulating, clicking an enabled transition fires it
+  const { fire } = simulation;
+  const handleEdgeClick = useCallback(
+    (_: React.MouseEvent, edge: Edge) => {
+      if (simulating) fire(edge.id);
+    },
+    [simulating, fire]
   );
 
   return (
     <ReactFlow
       nodes={nodes}
       edges={edges}
+      nodeTypes={NODE_TYPES}
+      edgeTypes={EDGE_TYPES}
+      onNodesChange={handleNodesChange}
+      onEdgesChange={handleEdgesChange}
+      onEdgeClick={handleEdgeClick}
+      onConnect={handleConnect}
+      onDelete={handleDelete}
+      onNodeDoubleClick={(_, node) => editing && setRenaming(node.id)}
+      isValidConnection={(connection) => isValidTransition(process, connection.source, connection.target)}
       fitView
       fitViewOptions={{ padding: 0.3, minZoom: 0.4, maxZoom: 1.2 }}
-      nodesDraggable={true}
-      nodesConnectable={false}
+      nodesDraggable={editing && !laneLayout}
+      nodesConnectable={editing}
       elementsSelectable={true}
+      deleteKeyCode={editing ? ['Backspace', 'Delete'] : null}
+      zoomOnDoubleClick={!editing}
       zoomOnScroll={true}
       panOnScroll={true}
       panOnDrag={true}
@@ -53,15 +289,109 @@ export function WorkflowPreview({ process }: WorkflowPreviewProps) {
       }}
     >
       <Background variant={BackgroundVariant.Dots} gap={24} size={1} color="#1f1f23" />
+      <Panel position="top-left">
+        <WorkflowFindingsPanel findings={findings} />
+      </Panel>
+      {editing && onMutate && (
+        <Panel position="top-center">
+          <NodePalette process={process} onMutate={onMutate} onAdded={setRenaming} />
+        </Panel>
+      )}
+      {selectedTransition && onMutate && (
+        <Panel position="bottom-center">
+          <TransitionInspector
+            key={selectedTransition.id}
+            process={process}
+            transition={selectedTransition}
+            onMutate={onMutate}
+            onClose={() => setSelectedEdges(new Set())}
+          />
+        </Panel>
+      )}
+      <Panel position="top-right">
+        {editing ? (
+          <button
+            onClick={() => {
+              setEditing(false);
+              setRenaming(null);
+            }}
+            className="flex items-center gap-1.5 rounded-lg border border-emerald-500/50 bg-zinc-900 px-3 py-1.5 text-xs text-emerald-400 transition-colors hover:bg-emerald-500/20"
+          >
+            <Check className="h-3.5 w-3.5" />
+            Done
+          </button>
+        ) : simulating ? (
+          <WorkflowSimulatorPanel
+            process={process}
+            simulation={simulation}
+            onSaveScenario={onProcessChange && ((scenario) => onProcessChange({
+              ...process,
+              scenarios: [...(process.scenarios || []), scenario],
+            }))}
+            onClose={() => setSimulating(false)}
+          />
+        ) : (
+          <div className="flex items-center gap-2">
+            {hasAssignees && (
+              <button
+                onClick={() => setShowLanes(!showLanes)}
+                title="Lay out in swimlanes by assignee"
+                className={`flex items-center gap-1.5 rounded-lg border bg-zinc-900 px-3 py-1.5 text-xs transition-colors ${
+                  showLanes
+                    ? 'border-emerald-500/50 text-emerald-400 hover:bg-emerald-500/20'
+                    : 'border-zinc-700 text-zinc-300 hover:border-emerald-500/50 hover:text-emerald-400'
+                }`}
+              >
+                <Rows3 className="h-3.5 w-3.5" />
+                Lanes
+              </button>
+            )}
+            {onMutate && !laneLayout && (
+              <button
+                onClick={handleTidy}
+                disabled={tidying}
+                title="Lay out the whole workflow again"
+                className="flex items-center gap-1.5 rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-300 transition-colors hover:border-emerald-500/50 hover:text-emerald-400 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                <Sparkles className="h-3.5 w-3.5" />
+                Tidy up
+              </button>
+            )}
+            {onMutate && (
+              <button
+                onClick={() => setEditing(true)}
+                className="flex items-center gap-1.5 rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-300 transition-colors hover:border-emerald-500/50 hover:text-emerald-400"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+                Edit
+              </button>
+            )}
+            <button
+              onClick={() => setSimulating(true)}
+              className="flex items-center gap-1.5 rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-300 transition-colors hover:border-emerald-500/50 hover:text-emerald-400"
+            >
+              <Play className="h-3.5 w-3.5" />
+              Simulate
+            </button>
+          </div>
+        )}
+        {tidyError && !editing && !simulating && (
+          <p className="mt-2 max-w-64 rounded-lg border border-red-500/30 bg-zinc-900 px-3 py-1.5 text-xs text-red-400">
+            Tidy up failed: {tidyError}
+          </p>
+        )}
+      </Panel>
       <Controls
         showInteractive={false}
         className="!bg-zinc-800 !border-zinc-700 !shadow-lg"
       />
       <MiniMap
         nodeColor={(node) => {
+          if (node.type === 'lane') return '#18181b';
           if (node.data?.nodeType === 'start') return '#10b981';
           if (node.data?.nodeType === 'end') return '#ef4444';
           if (node.data?.nodeType === 'gateway') return '#f59e0b';
+          if (node.data?.nodeType === 'event') return '#a855f7';
           return '#3b82f6';
         }}
         maskColor="rgba(0, 0, 0, 0.8)"
@@ -71,43 +401,162 @@ export function WorkflowPreview({ process }: WorkflowPreviewProps) {
   );
 }
 
+const TIDY_DURATION = 400; // ms
+
+/**
+ * Call onFrame with eased progress from 0 to 1 on each animation frame
+ * for duration ms, then onDone
+ */
+function animate(duration: number, onFrame: (t: number) => void, onDone: () => void): void {
+  const started = performance.now();
+  const frame = (now: number) => {
+    const progress = Math.min((now - started) / duration, 1);
+    onFrame(1 - Math.pow(1 - progress, 3)); // Ease out
+    if (progress < 1) requestAnimationFrame(frame);
+    else onDone();
+  };
+  requestAnimationFrame(frame);
+}
+
+/**
+ * Selection after React Flow's select changes; the same set when none apply
+ */
+function applySelection(selected: Set<string>, changes: (NodeChange | EdgeChange)[]): Set<string> {
+  const selections = changes.filter(change => change.type === 'select');
+  if (selections.length === 0) return selected;
+
+  const next = new Set(selected);
+  selections.forEach(change => {
+    if (change.selected) next.add(change.id);
+    else next.delete(change.id);
+  });
+  return next;
+}
+
+/**
+ * Nothing leads into a start event or out of an end event
+ */
+function isValidTransition(process: BusinessProcess, from: string, to: string): boolean {
+  const type = (id: string) => process.nodes.find(n => n.id === id)?.type;
+  return type(to) !== 'start' && type(from) !== 'end';
+}
+
+// ─────────────────────────────────────────────────────────────
+// Swimlanes
+// ─────────────────────────────────────────────────────────────
+
+const LANE_PADDING = 60;
+const LANE_NODE_WIDTH = 180; // Node width the layout spaces columns for
+
+/**
+ * Bands behind the laid out nodes, one per lane, labelled with the role name
+ */
+function getLaneNodes(process: BusinessProcess, lanes: SwimLane[], roles?: Role[]): LaneNode[] {
+  const xs = process.nodes.map(n => n.position.x);
+  const left = Math.min(...xs) - LANE_PADDING;
+  const width = Math.max(...xs) + LANE_NODE_WIDTH + LANE_PADDING - left;
+
+  return lanes.map((lane, index) => ({
+    id: `lane-${index}`,
+    type: 'lane',
+    position: { x: left, y: lane.start },
+    data: {
+      label: roles?.find(r => r.code === lane.key || r.name === lane.key)?.name || lane.key || 'Unassigned',
+      shaded: index % 2 === 0,
+    },
+    style: { width, height: lane.size, pointerEvents: 'none' },
+    zIndex: -1,
+    draggable: false,
+    selectable: false,
+    focusable: false,
+  }));
+}
+
+function LaneBand({ data }: NodeProps<LaneNode>) {
+  return (
+    <div
+      className={`h-full w-full border-y border-zinc-800 ${data.shaded ? 'bg-zinc-900/60' : 'bg-zinc-900/20'}`}
+    >
+      <span className="absolute left-3 top-2 text-[10px] font-medium uppercase tracking-wide text-zinc-500">
+        {data.label}
+      </span>
+    </div>
+  );
+}
+
 // ─────────────────────────────────────────────────────────────
 // Transform business process to React Flow format
 // ─────────────────────────────────────────────────────────────
 
-function transformToReactFlow(process: BusinessProcess): {
-  nodes: Node[];
-  edges: Edge[];
-} {
-  const nodes: Node[] = process.nodes.map((node) => ({
+/**
+ * Node boxes for the router, at their drag positions and measured sizes
+ */
+function getRoutingNodes(
+  process: BusinessProcess,
+  positions: Record<string, XYPosition>,
+  sizes: Record<string, NodeSize>
+): RoutingNode[] {
+  return process.nodes.map(node => ({
     id: node.id,
-    position: node.position,
-    data: { label: node.name, nodeType: node.type },
-    type: 'default',
-    // Horizontal flow: connect left to right
-    sourcePosition: Position.Right,
-    targetPosition: Position.Left,
-    style: getNodeStyle(node),
+    ...(positions[node.id] || node.position),
+    ...(sizes[node.id] || measureNode(node)),
   }));
+}
 
-  // Detect back-edges (edges going backward in horizontal layout)
-  const nodeXPositions = new Map(process.nodes.map(n => [n.id, n.position.x]));
+function transformToReactFlow(
+  process: BusinessProcess,
+  routes: Map<string, EdgeRoute>,
+  highlight?: SimulationHighlight,
+  severities?: Map<string, FindingSeverity>
+): {
+  nodes: Node[];
+  edges: Edge[];
+} {
+  const nodes: Node[] = process.nodes.map((node) => {
+    const severity = severities?.get(node.id);
+    return {
+      id: node.id,
+      position: node.position,
+      data: { label: getNodeLabel(node), nodeType: node.type },
+      type: 'default',
+      // Horizontal flow: connect left to right
+      sourcePosition: Position.Right,
+      targetPosition: Position.Left,
+      style: {
+        ...getNodeStyle(node),
+        ...(severity && { outline: `2px dashed ${SEVERITY_COLORS[severity]}`, outlineOffset: '4px' }),
+        ...(highlight?.activeNodes.has(node.id) && {
+          boxShadow: '0 0 0 3px rgba(16, 185, 129, 0.6), 0 0 16px rgba(16, 185, 129, 0.4)',
+        }),
+      },
+    };
+  });
 
   const edges: Edge[] = process.transitions.map((transition) => {
-    const sourceX = nodeXPositions.get(transition.from) || 0;
-    const targetX = nodeXPositions.get(transition.to) || 0;
-    const isBackEdge = targetX < sourceX - 50; // Going backward (left)
+    const route = routes.get(transition.id);
+    const isBackEdge = route?.kind === 'back' || route?.kind === 'self';
+    const isVisited = highlight?.visitedEdges.has(transition.id);
+    const isEnabled = highlight?.enabledEdges.has(transition.id);
+    const severity = severities?.get(transition.id);
+    const color = isVisited || isEnabled ? '#10b981'
+      : severity ? SEVERITY_COLORS[severity]
+      : getTransitionColor(transition, isBackEdge);
 
     return {
       id: transition.id,
       source: transition.from,
       target: transition.to,
-      label: transition.label || undefined,
-      type: 'smoothstep',
-      animated: isBackEdge,
+      label: getTransitionLabel(transition),
+      type: 'routed',
+      data: { route },
+      animated: isEnabled || (isBackEdge && !highlight),
       style: {
-        stroke: isBackEdge ? '#f59e0b' : '#52525b',
-        strokeWidth: 1.5,
+        stroke: color,
+        strokeWidth: isVisited ? 2.5 : 1.5,
+        strokeDasharray: isEnabled && !isVisited ? '6 4'
+          : severity && !isVisited ? '4 3'
+          : transition.timer ? '6 3' : undefined,
+        cursor: isEnabled ? 'pointer' : undefined,
       },
       labelStyle: {
         fill: '#71717a',
@@ -122,73 +571,84 @@ function transformToReactFlow(process: BusinessProcess): {
       labelBgBorderRadius: 4,
       markerEnd: {
         type: MarkerType.ArrowClosed,
-        color: isBackEdge ? '#f59e0b' : '#52525b',
+        color,
         width: 16,
         height: 16,
       },
     };
   });
 
+  // Boundary events: dotted connector from the host activity
+  process.nodes
+    .filter(node => node.attachedTo)
+    .forEach(node => {
+      edges.push({
+        id: `attached-${node.id}`,
+        source: node.attachedTo!,
+        target: node.id,
+        type: 'straight',
+        selectable: false,
+        deletable: false,
+        style: {
+          stroke: EDGE_COLORS.attached,
+          strokeWidth: 1,
+          strokeDasharray: node.interrupting === false ? '2 4' : '4 2',
+        },
+      });
+    });
+
+  // SLA escalation: where overdue cases go
+  getEscalations(process).forEach(node => {
+    edges.push({
+      id: `escalation-${node.id}`,
+      source: node.id,
+      target: node.sla!.escalateTo!,
+      label: `Overdue ${formatDuration(node.sla!.due)}`,
+      type: 'routed',
+      data: { route: routes.get(`escalation-${node.id}`) },
+      selectable: false,
+      deletable: false,
+      style: {
+        stroke: EDGE_COLORS.escalation,
+        strokeWidth: 1.5,
+        strokeDasharray: '6 3',
+      },
+      labelStyle: {
+        fill: EDGE_COLORS.escalation,
+        fontSize: 9,
+        fontWeight: 500,
+      },
+      labelBgStyle: {
+        fill: '#09090b',
+        fillOpacity: 0.95,
+      },
+      labelBgPadding: [6, 4] as [number, number],
+      labelBgBorderRadius: 4,
+      markerEnd: {
+        type: MarkerType.ArrowClosed,
+        color: EDGE_COLORS.escalation,
+        width: 16,
+        height: 16,
+      },
+    });
+  });
+
   return { nodes, edges };
 }
 
-function getNodeStyle(node: ProcessNode): React.CSSProperties {
-  const base: React.CSSProperties = {
-    padding: '10px 16px',
-    fontSize: '12px',
-    fontWeight: 500,
-    minWidth: '120px',
-    maxWidth: '160px',
-    textAlign: 'center',
-    boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
-    transition: 'all 0.2s ease',
-  };
+/**
+ * Node name, with a line for its timer and SLA
+ */
+function getNodeLabel(node: ProcessNode): React.ReactNode {
+  const badges = getNodeBadges(node);
+  if (badges.length === 0) return node.name;
 
-  switch (node.type) {
-    case 'start':
-      // BPMN: Start events are circles
-      return {
-        ...base,
-        background: '#18181b',
-        color: '#10b981',
-        borderRadius: '50px',
-        border: '2px solid #10b981',
-        minWidth: '80px',
-        maxWidth: '120px',
-        padding: '8px 12px',
-      };
-    case 'end':
-      // BPMN: End events are bold circles
-      return {
-        ...base,
-        background: '#18181b',
-        color: '#ef4444',
-        borderRadius: '50px',
-        border: '3px solid #ef4444',
-        minWidth: '80px',
-        maxWidth: '120px',
-        padding: '8px 12px',
-      };
-    case 'gateway':
-      // BPMN: Gateways are diamonds (we use rounded square)
-      return {
-        ...base,
-        background: '#18181b',
-        color: '#f59e0b',
-        borderRadius: '4px',
-        border: '2px solid #f59e0b',
-        transform: 'rotate(0deg)', // Could be 45deg for diamond
-        minWidth: '100px',
-      };
-    case 'task':
-    default:
-      // BPMN: Tasks are rounded rectangles
-      return {
-        ...base,
-        background: '#18181b',
-        color: '#e4e4e7',
-        borderRadius: '8px',
-        border: '1px solid #3f3f46',
-      };
-  }
+  return (
+    <>
+      {node.name}
+      <div style={{ marginTop: 4, fontSize: '10px', fontWeight: 400, color: BADGE_COLOR }}>
+        {badges.join(' · ')}
+      </div>
+    </>
+  );
 }
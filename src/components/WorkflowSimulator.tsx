@@ -0,0 +1,251 @@
+'use client';
+
+/**
+ * Workflow Simulator Panel
+ *
+ * Step-through playback of a workflow in WorkflowPreview: pick enabled
+ * transitions or let sample data decide, step back and forward through
+ * the history, and save or replay the path as a scenario.
+ */
+
+import { useMemo, useState } from 'react';
+import { X, RotateCcw, ChevronLeft, ChevronRight, Play, Save, Check, CircleHelp } from 'lucide-react';
+import {
+  startSimulation,
+  getEnabledTransitions,
+  fireTransition,
+  pickTransition,
+  replaySimulation,
+  getSimulationStatus,
+  SimulationState,
+} from '@/lib/workflow-simulator';
+import type { BusinessProcess, ProcessScenario } from '@/types/module';
+
+/**
+ * Simulation history for a process. Restarts when the graph changes.
+ */
+export function useWorkflowSimulation(process: BusinessProcess) {
+  const [graph, setGraph] = useState({ nodes: process.nodes, transitions: process.transitions });
+  const [history, setHistory] = useState<SimulationState[]>(() => [startSimulation(process)]);
+  const [cursor, setCursor] = useState(0);
+  const [sampleData, setSampleData] = useState('');
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  if (graph.nodes !== process.nodes || graph.transitions !== process.transitions) {
+    setGraph({ nodes: process.nodes, transitions: process.transitions });
+    setHistory([startSimulation(process)]);
+    setCursor(0);
+    setReplayError(null);
+  }
+
+  const { data, dataError } = useMemo(() => {
+    if (!sampleData.trim()) return { data: undefined, dataError: null };
+    try {
+      const parsed = JSON.parse(sampleData);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? { data: parsed as Record<string, unknown>, dataError: null }
+        : { data: undefined, dataError: 'Sample data must be a JSON object' };
+    } catch {
+      return { data: undefined, dataError: 'Invalid JSON' };
+    }
+  }, [sampleData]);
+
+  const state = history[Math.min(cursor, history.length - 1)];
+  const enabled = useMemo(() => getEnabledTransitions(process, state, data), [process, state, data]);
+  const status = useMemo(() => getSimulationStatus(process, state), [process, state]);
+
+  const fire = (transitionId: string) => {
+    const next = fireTransition(process, state, transitionId);
+    if (!next) return;
+    setHistory([...history.slice(0, cursor + 1), next]);
+    setCursor(cursor + 1);
+    setReplayError(null);
+  };
+
+  return {
+    state,
+    enabled,
+    status,
+    step: cursor,
+    steps: history.length - 1,
+    sampleData,
+    setSampleData,
+    dataError,
+    replayError,
+    fire,
+    autoStep: () => {
+      const pick = pickTransition(enabled);
+      if (pick) fire(pick.transition.id);
+    },
+    back: () => setCursor(Math.max(0, cursor - 1)),
+    forward: () => setCursor(Math.min(history.length - 1, cursor + 1)),
+    reset: () => {
+      setHistory([startSimulation(process)]);
+      setCursor(0);
+      setReplayError(null);
+    },
+    // Load a scenario's steps; play them with forward
+    replay: (scenario: ProcessScenario) => {
+      const result = replaySimulation(process, scenario.path);
+      setHistory(result.states);
+      setCursor(0);
+      setReplayError(result.error || null);
+      setSampleData(scenario.data ? JSON.stringify(scenario.data, null, 2) : '');
+    },
+    data,
+  };
+}
+
+export type WorkflowSimulation = ReturnType<typeof useWorkflowSimulation>;
+
+interface WorkflowSimulatorPanelProps {
+  process: BusinessProcess;
+  simulation: WorkflowSimulation;
+  onSaveScenario?: (scenario: ProcessScenario) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES = {
+  running: 'bg-emerald-500/20 text-emerald-400',
+  completed: 'bg-blue-500/20 text-blue-400',
+  stuck: 'bg-red-500/20 text-red-400',
+};
+
+export function WorkflowSimulatorPanel({ process, simulation, onSaveScenario, onClose }: WorkflowSimulatorPanelProps) {
+  const { state, enabled, status, step, steps } = simulation;
+  const nodeName = (id: string) => process.nodes.find(n => n.id === id)?.name || id;
+  const scenarios = process.scenarios || [];
+
+  const controlClass = 'rounded-md p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200 disabled:cursor-not-allowed disabled:opacity-40';
+
+  return (
+    <div className="w-72 rounded-xl border border-zinc-800 bg-zinc-900/95 p-3 text-xs text-zinc-300 shadow-lg">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-zinc-100">Simulation</span>
+          <span className={`rounded px-1.5 py-0.5 text-[10px] capitalize ${STATUS_STYLES[status]}`}>{status}</span>
+        </div>
+        <button onClick={onClose} className={controlClass}>
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Playback */}
+      <div className="mb-3 flex items-center gap-1">
+        <button onClick={simulation.reset} title="Reset" className={controlClass}>
+          <RotateCcw className="h-4 w-4" />
+        </button>
+        <button onClick={simulation.back} disabled={step === 0} title="Back" className={controlClass}>
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="min-w-16 text-center text-zinc-500">Step {step} / {steps}</span>
+        <button onClick={simulation.forward} disabled={step >= steps} title="Forward" className={controlClass}>
+          <ChevronRight className="h-4 w-4" />
+        </button>
+        <button
+          onClick={simulation.autoStep}
+          disabled={enabled.length === 0}
+          title="Take the transition the sample data leads to"
+          className="ml-auto flex items-center gap-1 rounded-md border border-emerald-500/50 px-2 py-1 text-emerald-400 transition-colors hover:bg-emerald-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          <Play className="h-3 w-3" />
+          Auto step
+        </button>
+      </div>
+
+      {/* Token positions */}
+      <div className="mb-3">
+        <p className="mb-1 text-zinc-500">Active</p>
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(state.tokens).map(([id, count]) => (
+            <span key={id} className="rounded bg-emerald-500/20 px-1.5 py-0.5 text-emerald-400">
+              {nodeName(id)}{count > 1 ? ` ×${count}` : ''}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Enabled transitions */}
+      <div className="mb-3">
+        <p className="mb-1 text-zinc-500">Enabled transitions</p>
+        {enabled.length === 0 ? (
+          <p className="text-zinc-600">None</p>
+        ) : (
+          <div className="flex flex-col gap-1">
+            {enabled.map(({ transition, parallel, conditionResult }) => (
+              <button
+                key={transition.id}
+                onClick={() => simulation.fire(transition.id)}
+                className="flex items-start gap-2 rounded-md border border-zinc-800 px-2 py-1.5 text-left transition-colors hover:border-emerald-500/50 hover:bg-emerald-500/10"
+              >
+                <span className="flex-1">
+                  <span className="text-zinc-200">{nodeName(transition.from)} → {nodeName(transition.to)}</span>
+                  {(transition.label || transition.condition) && (
+                    <span className="block text-zinc-500">{transition.label || transition.condition}</span>
+                  )}
+                  {parallel && <span className="block text-amber-400">Forks all branches</span>}
+                </span>
+                {transition.condition && (
+                  conditionResult === true ? <Check className="h-3.5 w-3.5 text-emerald-400" />
+                    : conditionResult === false ? <X className="h-3.5 w-3.5 text-red-400" />
+                    : <CircleHelp className="h-3.5 w-3.5 text-zinc-600" />
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Sample data for conditions */}
+      <div className="mb-3">
+        <p className="mb-1 text-zinc-500">Sample data (JSON)</p>
+        <textarea
+          value={simulation.sampleData}
+          onChange={(e) => simulation.setSampleData(e.target.value)}
+          rows={3}
+          placeholder='{ "amount": 1200 }'
+          className="w-full resize-y rounded-lg border border-zinc-700 bg-zinc-950 px-2 py-1.5 font-mono text-[11px] text-zinc-200 focus:border-emerald-500 focus:outline-none"
+        />
+        {simulation.dataError && <p className="text-red-400">{simulation.dataError}</p>}
+      </div>
+
+      {/* Scenarios */}
+      <div>
+        <div className="mb-1 flex items-center justify-between">
+          <p className="text-zinc-500">Scenarios</p>
+          {onSaveScenario && (
+            <button
+              onClick={() => onSaveScenario({
+                name: `Scenario ${scenarios.length + 1}`,
+                path: state.path,
+                data: simulation.data,
+              })}
+              disabled={state.path.length === 0}
+              className="flex items-center gap-1 rounded-md px-1.5 py-0.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <Save className="h-3 w-3" />
+              Save path
+            </button>
+          )}
+        </div>
+        {scenarios.length === 0 ? (
+          <p className="text-zinc-600">No saved scenarios</p>
+        ) : (
+          <div className="flex flex-col gap-1">
+            {scenarios.map((scenario, index) => (
+              <button
+                key={index}
+                onClick={() => simulation.replay(scenario)}
+                className="flex items-center justify-between rounded-md px-2 py-1 text-left transition-colors hover:bg-zinc-800"
+              >
+                <span className="text-zinc-200">{scenario.name}</span>
+                <span className="text-zinc-500">{scenario.path.length} steps</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {simulation.replayError && <p className="mt-1 text-red-400">{simulation.replayError}</p>}
+      </div>
+    </div>
+  );
+}
@@ -3,64 +3,171 @@
 /**
  * Workflow Uploader Component
  *
- * Allows users to upload XAML workflow files and visualize them.
- * Supports Windows Workflow Foundation state machine format.
+ * Allows users to upload workflow files and visualize them.
+ * Accepts any format the workflow normalizer understands (XAML, BPMN,
+ * draw.io, Mermaid, SCXML, DOT, PlantUML, Step Functions, JSON/YAML)
+ * plus CSV/TSV transition tables, also pasted straight from Excel.
+ * The workflow lives in WorkflowContext; hand edits on the canvas are
+ * applied there as mutations and can be undone from the history panel.
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import { Upload, FileCode, X, Loader2, Download, Plus, CheckCircle } from 'lucide-react';
-import { parseXamlWorkflow } from '@/lib/xaml-parser';
+import { Upload, FileCode, X, Loader2, Plus, CheckCircle, Undo2, Redo2, History, AlertTriangle } from 'lucide-react';
+import { normalizeWorkflow, detectFormat, WorkflowFormat } from '@/lib/workflow-normalizer';
+import { readTable, detectTableColumns, ParsedTable, TableColumnMapping } from '@/lib/table-parser';
+import { toCode } from '@/lib/workflow-codes';
 import { WorkflowPreview } from './WorkflowPreview';
+import { WorkflowExportMenu } from './WorkflowExportMenu';
+import { TableColumnMapper } from './TableColumnMapper';
+import { WorkflowHistoryPanel } from './WorkflowHistory';
 import { useVault } from '@/lib/vault-context';
+import { useWorkflow } from '@/lib/workflow-context';
 import type { BusinessProcess } from '@/types/module';
 
+const WORKFLOW_FILE_EXTENSIONS = ['.xml', '.xaml', '.bpmn', '.mmd', '.mermaid', '.md', '.scxml', '.dot', '.gv', '.puml', '.plantuml', '.csv', '.tsv', '.json', '.yaml', '.yml', '.drawio'];
+const TABLE_FILE_EXTENSIONS = ['.csv', '.tsv'];
+
+interface TableDraft {
+  content: string;
+  fileName: string;
+  table: ParsedTable;
+  mapping: TableColumnMapping;
+}
+
 interface WorkflowUploaderProps {
   initialWorkflow?: BusinessProcess;
 }
 
 export function WorkflowUploader({ initialWorkflow }: WorkflowUploaderProps) {
-  const [workflow, setWorkflow] = useState<BusinessProcess | null>(initialWorkflow || null);
+  const {
+    workflow,
+    loaded,
+    setWorkflow,
+    updateWorkflow,
+    applyMutations,
+    clearWorkflow,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+  } = useWorkflow();
+  const [showHistory, setShowHistory] = useState(false);
+  const [pools, setPools] = useState<BusinessProcess[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
   const [fileName, setFileName] = useState<string | null>(null);
   const [saved, setSaved] = useState(false);
+  const [tableDraft, setTableDraft] = useState<TableDraft | null>(null);
 
   const { currentModule, addWorkflow } = useVault();
 
-  // Update workflow when initialWorkflow changes
+  // Update workflow when initialWorkflow changes; coming back to the tab
+  // keeps the edits made since it was loaded
   useEffect(() => {
-    if (initialWorkflow) {
-      setWorkflow(initialWorkflow);
+    if (initialWorkflow && initialWorkflow !== loaded) {
+      setWorkflow(initialWorkflow, 'Opened from vault');
+      setPools([]);
       setFileName('From Vault');
       setSaved(true);
     }
-  }, [initialWorkflow]);
+  }, [initialWorkflow, loaded, setWorkflow]);
 
-  const handleFileUpload = useCallback(async (file: File) => {
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) outside of text fields
+  useEffect(() => {
+    if (!workflow) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (!(e.ctrlKey || e.metaKey) || target?.closest('input, textarea, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo();
+      else return;
+      e.preventDefault();
+      setSaved(false);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [workflow, undo, redo]);
+
+  const importContent = useCallback(async (
+    content: string,
+    name: string,
+    format?: WorkflowFormat,
+    tableMapping?: TableColumnMapping
+  ) => {
     setIsLoading(true);
     setError(null);
+    setWarnings([]);
     setSaved(false);
 
     try {
-      const content = await file.text();
-      const parsed = parseXamlWorkflow(content);
-      setWorkflow(parsed);
-      setFileName(file.name);
+      const resolvedFormat = format || detectFormat(content);
+
+      // Tables with unrecognized headers go through the mapping step first
+      if (resolvedFormat === 'table' && !tableMapping) {
+        const table = readTable(content);
+        const mapping = detectTableColumns(table.headers);
+        if (mapping.from === undefined || mapping.to === undefined) {
+          setTableDraft({ content, fileName: name, table, mapping });
+          return;
+        }
+      }
+
+      const result = await normalizeWorkflow(content, resolvedFormat, {
+        tableMapping,
+        forms: currentModule?.forms,
+        roles: currentModule?.roles,
+      });
+      if (!result.success || !result.workflow) {
+        throw new Error(result.error || 'Unrecognized workflow format');
+      }
+      if (result.format === 'table') {
+        result.workflow.name = name.replace(/\.[^.]+$/, '');
+        result.workflow.code = toCode(result.workflow.name) || result.workflow.code;
+      }
+      setTableDraft(null);
+      setWorkflow(result.workflow, `Imported ${name}`);
+      setPools(result.workflows || []);
+      setFileName(name);
+      // Skipped rows, unmatched columns and the like - otherwise they vanish silently
+      setWarnings(result.warnings || []);
     } catch (err) {
       console.error('Parse error:', err);
-      setError('Failed to parse workflow file. Ensure it\'s a valid XAML state machine.');
+      setError(`Failed to parse workflow file. ${err instanceof Error ? err.message : ''}`.trim());
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [currentModule, setWorkflow]);
+
+  const handleFileUpload = useCallback(async (file: File) => {
+    const content = await file.text();
+    const isTable = TABLE_FILE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+    await importContent(content, file.name, isTable ? 'table' : undefined);
+  }, [importContent]);
+
+  // Cells copied from Excel arrive as tab-separated text
+  useEffect(() => {
+    if (workflow || tableDraft) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      const text = e.clipboardData?.getData('text/plain');
+      if (!text?.trim()) return;
+      e.preventDefault();
+      importContent(text, 'Pasted table');
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [workflow, tableDraft, importContent]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     const file = e.dataTransfer.files[0];
-    if (file && (file.name.endsWith('.xml') || file.name.endsWith('.xaml'))) {
+    if (file && WORKFLOW_FILE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))) {
       handleFileUpload(file);
     } else {
-      setError('Please upload an XML or XAML file');
+      setError(`Please upload a ${WORKFLOW_FILE_EXTENSIONS.join(', ')} file`);
     }
   }, [handleFileUpload]);
 
@@ -72,23 +179,14 @@ export function WorkflowUploader({ initialWorkflow }: WorkflowUploaderProps) {
   }, [handleFileUpload]);
 
   const handleClear = useCallback(() => {
-    setWorkflow(null);
+    clearWorkflow();
+    setPools([]);
     setFileName(null);
     setError(null);
+    setWarnings([]);
     setSaved(false);
-  }, []);
-
-  const handleExportJson = useCallback(() => {
-    if (!workflow) return;
-    const json = JSON.stringify(workflow, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${workflow.code}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-  }, [workflow]);
+    setTableDraft(null);
+  }, [clearWorkflow]);
 
   const handleSaveToVault = useCallback(() => {
     if (!workflow || !currentModule) return;
@@ -106,11 +204,42 @@ export function WorkflowUploader({ initialWorkflow }: WorkflowUploaderProps) {
             <div>
               <h2 className="font-medium text-zinc-100">{workflow.name}</h2>
               <p className="text-xs text-zinc-500">
-                {fileName} • {workflow.nodes.length} states • {workflow.transitions.length} transitions
+                {fileName || 'Edited'} • {workflow.nodes.length} states • {workflow.transitions.length} transitions
               </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                undo();
+                setSaved(false);
+              }}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+              className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <Undo2 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => {
+                redo();
+                setSaved(false);
+              }}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <Redo2 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              title="History"
+              className={`rounded-lg p-1.5 transition-colors ${
+                showHistory ? 'bg-emerald-500/20 text-emerald-400' : 'text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200'
+              }`}
+            >
+              <History className="h-4 w-4" />
+            </button>
             {/* Save to Vault button */}
             {currentModule && (
               <button
@@ -135,13 +264,7 @@ export function WorkflowUploader({ initialWorkflow }: WorkflowUploaderProps) {
                 )}
               </button>
             )}
-            <button
-              onClick={handleExportJson}
-              className="flex items-center gap-2 rounded-lg border border-zinc-700 px-3 py-1.5 text-sm text-zinc-300 transition-colors hover:border-emerald-500 hover:text-emerald-400"
-            >
-              <Download className="h-4 w-4" />
-              Export JSON
-            </button>
+            <WorkflowExportMenu workflow={workflow} />
             <button
               onClick={handleClear}
               className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200"
@@ -151,9 +274,71 @@ export function WorkflowUploader({ initialWorkflow }: WorkflowUploaderProps) {
           </div>
         </div>
 
+        {/* Pool selector (BPMN pools, draw.io pages) */}
+        {pools.length > 1 && (
+          <div className="flex items-center gap-1 border-b border-zinc-800 px-4 py-2">
+            <span className="mr-2 text-xs text-zinc-500">Pools:</span>
+            {pools.map((pool) => (
+              <button
+                key={pool.id}
+                onClick={() => {
+                  setWorkflow(pool, `Imported pool ${pool.name}`);
+                  setSaved(false);
+                }}
+                className={`rounded-md px-2.5 py-1 text-xs transition-colors ${
+                  pool.id === workflow.id
+                    ? 'bg-emerald-500/20 text-emerald-400'
+                    : 'text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200'
+                }`}
+              >
+                {pool.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Import warnings */}
+        {warnings.length > 0 && (
+          <div className="flex items-start gap-2 border-b border-zinc-800 bg-amber-500/5 px-4 py-2 text-xs text-amber-400">
+            <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+            <div className="flex-1">
+              <p className="font-medium">
+                Imported with {warnings.length} warning{warnings.length === 1 ? '' : 's'}
+              </p>
+              <ul className="mt-1 max-h-24 list-disc overflow-y-auto pl-4 text-amber-300/80">
+                {warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+            <button
+              onClick={() => setWarnings([])}
+              title="Dismiss"
+              className="rounded p-0.5 text-amber-400/70 hover:bg-zinc-800 hover:text-amber-300"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+
         {/* Workflow Visualization */}
-        <div className="flex-1">
-          <WorkflowPreview process={workflow} />
+        <div className="flex flex-1 overflow-hidden">
+          <div className="flex-1">
+            <WorkflowPreview
+              process={workflow}
+              forms={currentModule?.forms}
+              roles={currentModule?.roles}
+              onProcessChange={(updated) => {
+                updateWorkflow(updated);
+                setSaved(false);
+              }}
+              onMutate={(mutations) => {
+                applyMutations(mutations);
+                setSaved(false);
+              }}
+            />
+          </div>
+          {showHistory && <WorkflowHistoryPanel onClose={() => setShowHistory(false)} />}
         </div>
 
         {/* Stats Footer */}
@@ -173,6 +358,18 @@ export function WorkflowUploader({ initialWorkflow }: WorkflowUploaderProps) {
     );
   }
 
+  if (tableDraft) {
+    return (
+      <TableColumnMapper
+        fileName={tableDraft.fileName}
+        table={tableDraft.table}
+        initialMapping={tableDraft.mapping}
+        onConfirm={(mapping) => importContent(tableDraft.content, tableDraft.fileName, 'table', mapping)}
+        onCancel={handleClear}
+      />
+    );
+  }
+
   return (
     <div className="flex h-full items-center justify-center p-8">
       <div
@@ -182,7 +379,7 @@ export function WorkflowUploader({ initialWorkflow }: WorkflowUploaderProps) {
       >
         <input
           type="file"
-          accept=".xml,.xaml"
+          accept={WORKFLOW_FILE_EXTENSIONS.join(',')}
           onChange={handleInputChange}
           className="absolute inset-0 cursor-pointer opacity-0"
           id="workflow-upload"
@@ -212,10 +409,10 @@ export function WorkflowUploader({ initialWorkflow }: WorkflowUploaderProps) {
                 Upload Workflow
               </h3>
               <p className="mb-4 text-center text-sm text-zinc-400">
-                Drop a XAML state machine file here, or click to browse
+                Drop a workflow file here, click to browse, or paste cells from Excel
               </p>
               <p className="text-xs text-zinc-500">
-                Supports Windows Workflow Foundation (.xml, .xaml)
+                Supports XAML, BPMN, draw.io, Mermaid, SCXML, DOT, PlantUML, Step Functions, JSON/YAML and CSV/TSV tables
               </p>
             </>
           )}
@@ -1,15 +1,23 @@
 /**
  * Artifact Extraction & Utilities
  *
- * Parses AI responses to extract generated artifacts.
+ * Parses AI responses to extract generated artifacts and proposed
+ * mutations to the active workflow.
  */
 
 import type { GeneratedArtifact, ArtifactType, BusinessProcess, ProcessNode } from '@/types/module';
-import { applyLayout } from './workflow-layout';
+import { applyIncrementalLayout, isPositioned } from './workflow-layout';
+import { MUTATION_TYPES, WorkflowMutation } from './workflow-normalizer';
+
+export interface ProposedMutations {
+  workflow?: string; // Code of the workflow the batch was written for
+  summary: string;
+  mutations: WorkflowMutation[];
+}
 
 /**
  * Extract artifacts from message content
- * Looks for JSON code blocks with type: "dictionary" | "form" | "process"
+ * Looks for JSON code blocks with type: "dictionary" | "form" | "process" | "role"
  */
 export function extractArtifacts(content: string): GeneratedArtifact[] {
   const artifacts: GeneratedArtifact[] = [];
@@ -25,7 +33,7 @@ export function extractArtifacts(content: string): GeneratedArtifact[] {
       // Check if it's an artifact
       if (parsed.type && parsed.data) {
         const artifactType = parsed.type as ArtifactType;
-        if (['dictionary', 'form', 'process'].includes(artifactType)) {
+        if (['dictionary', 'form', 'process', 'role'].includes(artifactType)) {
           let artifactData = parsed.data;
 
           // For process artifacts, ensure nodes have positions
@@ -49,6 +57,41 @@ export function extractArtifacts(content: string): GeneratedArtifact[] {
   return artifacts;
 }
 
+/**
+ * Extract mutation batches from message content
+ * Looks for JSON code blocks with type: "mutations"
+ */
+export function extractMutationBatches(content: string): ProposedMutations[] {
+  const batches: ProposedMutations[] = [];
+
+  const jsonBlockRegex = /```(?:json)?\s*([\s\S]*?)```/g;
+  let match;
+
+  while ((match = jsonBlockRegex.exec(content)) !== null) {
+    try {
+      const parsed = JSON.parse(match[1].trim());
+      if (parsed.type !== 'mutations' || !Array.isArray(parsed.data?.mutations)) continue;
+
+      // Drop entries that are not mutations at all
+      const mutations = (parsed.data.mutations as WorkflowMutation[]).filter(m =>
+        m && MUTATION_TYPES.includes(m.type) && m.payload && typeof m.payload === 'object'
+      );
+      if (mutations.length === 0) continue;
+
+      batches.push({
+        workflow: parsed.data.workflow,
+        summary: parsed.data.summary || 'Proposed changes',
+        mutations,
+      });
+    } catch {
+      // Not valid JSON (or still streaming), skip
+      continue;
+    }
+  }
+
+  return batches;
+}
+
 /**
  * Generate a display name for an artifact
  */
@@ -60,6 +103,8 @@ export function getArtifactDisplayName(artifact: GeneratedArtifact): string {
       return (artifact.data as { name: string }).name;
     case 'process':
       return (artifact.data as { name: string }).name;
+    case 'role':
+      return (artifact.data as { name: string }).name;
     default:
       return 'Unknown Artifact';
   }
@@ -76,6 +121,8 @@ export function getArtifactIcon(type: ArtifactType): string {
       return 'file-text';
     case 'process':
       return 'git-branch';
+    case 'role':
+      return 'shield';
     default:
       return 'box';
   }
@@ -92,6 +139,8 @@ export function getArtifactColor(type: ArtifactType): string {
       return 'text-purple-400 bg-purple-500/10 border-purple-500/20';
     case 'process':
       return 'text-amber-400 bg-amber-500/10 border-amber-500/20';
+    case 'role':
+      return 'text-cyan-400 bg-cyan-500/10 border-cyan-500/20';
     default:
       return 'text-zinc-400 bg-zinc-500/10 border-zinc-500/20';
   }
@@ -99,7 +148,8 @@ export function getArtifactColor(type: ArtifactType): string {
 
 /**
  * Ensure workflow nodes have valid positions
- * If any node is missing position, apply automatic layout
+ * Nodes missing one are placed next to their neighbours; positioned
+ * nodes stay where they are
  */
 function ensureWorkflowPositions(process: BusinessProcess): BusinessProcess {
   if (!process.nodes || process.nodes.length === 0) {
@@ -107,12 +157,7 @@ function ensureWorkflowPositions(process: BusinessProcess): BusinessProcess {
   }
 
   // Check if all nodes have valid positions
-  const needsLayout = process.nodes.some(
-    (node: ProcessNode) =>
-      !node.position ||
-      typeof node.position.x !== 'number' ||
-      typeof node.position.y !== 'number'
-  );
+  const needsLayout = process.nodes.some((node: ProcessNode) => !isPositioned(node));
 
   if (!needsLayout) {
     return process;
@@ -128,7 +173,7 @@ function ensureWorkflowPositions(process: BusinessProcess): BusinessProcess {
   };
 
   // Apply layout algorithm
-  applyLayout(clonedProcess.nodes, clonedProcess.transitions);
+  applyIncrementalLayout(clonedProcess.nodes, clonedProcess.transitions);
 
   return clonedProcess;
 }
@@ -0,0 +1,270 @@
+/**
+ * Amazon States Language Parser
+ *
+ * Parses AWS Step Functions state machine definitions (ASL, from JSON or
+ * YAML) into our BusinessProcess format.
+ *
+ * `StartAt` is entered from a synthetic start node; `End: true` leads to a
+ * synthetic end node. Task/Pass map to tasks, Wait to timer events (with
+ * their Seconds or Timestamp), Choice to an exclusive gateway with one
+ * guarded transition per rule, Succeed and Fail to end nodes. Parallel and Map become subprocess nodes with their
+ * branches/iterator embedded; Catch clauses become boundary error events.
+ */
+
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessGraph,
+} from '@/types/module';
+import { toIsoDuration } from './workflow-timers';
+
+interface AslStateMachine {
+  Comment?: string;
+  StartAt: string;
+  States: Record<string, AslState>;
+}
+
+interface AslState {
+  Type: string;
+  Comment?: string;
+  Next?: string;
+  End?: boolean;
+  Resource?: string;
+  Choices?: AslChoiceRule[];
+  Default?: string;
+  Branches?: AslStateMachine[];
+  Iterator?: AslStateMachine;
+  ItemProcessor?: AslStateMachine;
+  ItemsPath?: string;
+  Catch?: { ErrorEquals: string[]; Next: string }[];
+  Error?: string;
+  Cause?: string;
+  Seconds?: number;
+  Timestamp?: string;
+}
+
+interface AslChoiceRule {
+  Next?: string;
+  Variable?: string;
+  Condition?: string; // JSONata query language
+  And?: AslChoiceRule[];
+  Or?: AslChoiceRule[];
+  Not?: AslChoiceRule;
+  [comparison: string]: unknown;
+}
+
+// Comparison operators by suffix of the ASL operator name
+const COMPARISON_OPERATORS: [string, string][] = [
+  ['GreaterThanEquals', '>='],
+  ['LessThanEquals', '<='],
+  ['GreaterThan', '>'],
+  ['LessThan', '<'],
+  ['Equals', '=='],
+  ['Matches', 'matches'],
+];
+
+/**
+ * Check whether a parsed JSON/YAML document is an ASL state machine
+ */
+export function isAslDefinition(data: unknown): boolean {
+  const machine = data as Partial<AslStateMachine> | null;
+  return !!machine && typeof machine === 'object'
+    && typeof machine.StartAt === 'string'
+    && !!machine.States && typeof machine.States === 'object';
+}
+
+/**
+ * Parse an ASL state machine to BusinessProcess format
+ */
+export function parseAslWorkflow(data: unknown, warnings: string[] = []): BusinessProcess {
+  if (!isAslDefinition(data)) {
+    throw new Error('Invalid state machine: missing StartAt or States');
+  }
+  const machine = data as AslStateMachine;
+  const graph = parseAslStates(machine, '', warnings);
+
+  return {
+    id: generateId(),
+    name: 'Step Functions Workflow',
+    code: 'step-functions-workflow',
+    description: machine.Comment || 'Imported from Amazon States Language',
+    nodes: graph.nodes,
+    transitions: graph.transitions,
+  };
+}
+
+/**
+ * Parse the States of a state machine, a Parallel branch or a Map iterator
+ */
+function parseAslStates(machine: AslStateMachine, scope: string, warnings: string[]): ProcessGraph {
+  const graph: ProcessGraph = { nodes: [], transitions: [] };
+  const stateNames = Object.keys(machine.States);
+  const prefix = scope ? `${scope}_` : '';
+  const startId = `${prefix}_start`;
+  const endId = `${prefix}_end`;
+
+  const connect = (from: string, to: string, label?: string, condition?: string) => {
+    if (to !== endId && !machine.States[to]) {
+      warnings.push(`State "${from}" points to unknown state "${to}"`);
+      return;
+    }
+    graph.transitions.push({ id: generateId(), from, to, label, condition });
+  };
+
+  graph.nodes.push({ id: startId, type: 'start', name: 'Start', position: { x: 0, y: 0 } });
+  connect(startId, machine.StartAt);
+
+  let needsEnd = false;
+
+  stateNames.forEach(name => {
+    const state = machine.States[name];
+    const node: ProcessNode = {
+      id: name,
+      type: 'task',
+      name,
+      description: state.Comment,
+      position: { x: 0, y: 0 },
+    };
+
+    switch (state.Type) {
+      case 'Task':
+        node.taskKind = 'service';
+        node.description = state.Comment || state.Resource;
+        break;
+
+      case 'Pass':
+        break;
+
+      case 'Wait':
+        node.type = 'event';
+        node.eventKind = 'timer';
+        node.eventRole = 'catch';
+        if (typeof state.Seconds === 'number') {
+          const seconds = state.Seconds;
+          node.timer = {
+            type: 'duration',
+            value: toIsoDuration({
+              days: Math.floor(seconds / 86400),
+              hours: Math.floor((seconds % 86400) / 3600),
+              minutes: Math.floor((seconds % 3600) / 60),
+              seconds: seconds % 60,
+            }),
+          };
+        } else if (state.Timestamp) {
+          node.timer = { type: 'date', value: state.Timestamp };
+        }
+        break;
+
+      case 'Choice':
+        node.type = 'gateway';
+        node.gatewayKind = 'exclusive';
+        (state.Choices || []).forEach(rule => {
+          if (rule.Next) connect(name, rule.Next, undefined, describeChoiceRule(rule));
+        });
+        if (state.Default) connect(name, state.Default, 'Default');
+        break;
+
+      case 'Succeed':
+        node.type = 'end';
+        break;
+
+      case 'Fail':
+        node.type = 'end';
+        node.eventKind = 'error';
+        node.description = [state.Error, state.Cause].filter(Boolean).join(': ') || state.Comment;
+        break;
+
+      case 'Parallel':
+        // Each branch is a region of its own
+        node.type = 'subprocess';
+        node.concurrent = true;
+        node.children = {
+          nodes: (state.Branches || []).map((branch, index) => {
+            const branchId = `${name}_branch${index + 1}`;
+            return {
+              id: branchId,
+              type: 'subprocess',
+              name: `Branch ${index + 1}`,
+              position: { x: 0, y: 0 },
+              children: parseAslStates(branch, branchId, warnings),
+            } as ProcessNode;
+          }),
+          transitions: [],
+        };
+        break;
+
+      case 'Map': {
+        node.type = 'subprocess';
+        const iterator = state.ItemProcessor || state.Iterator;
+        if (iterator && isAslDefinition(iterator)) {
+          node.children = parseAslStates(iterator, name, warnings);
+        }
+        node.description = state.Comment || (state.ItemsPath ? `For each item in ${state.ItemsPath}` : undefined);
+        break;
+      }
+
+      default:
+        warnings.push(`Unknown state type "${state.Type}" on "${name}", imported as a task`);
+    }
+
+    graph.nodes.push(node);
+
+    if (state.Next) {
+      connect(name, state.Next);
+    } else if (state.End) {
+      connect(name, endId);
+      needsEnd = true;
+    }
+
+    // Catch clauses: boundary error events on the state
+    (state.Catch || []).forEach((clause, index) => {
+      const eventId = `${name}_catch${index + 1}`;
+      graph.nodes.push({
+        id: eventId,
+        type: 'event',
+        name: (clause.ErrorEquals || []).join(', ') || 'Error',
+        eventKind: 'error',
+        eventRole: 'catch',
+        attachedTo: name,
+        position: { x: 0, y: 0 },
+      });
+      connect(eventId, clause.Next);
+    });
+  });
+
+  if (needsEnd) {
+    graph.nodes.push({ id: endId, type: 'end', name: 'End', position: { x: 0, y: 0 } });
+  }
+
+  return graph;
+}
+
+/**
+ * Render a Choice rule as a readable condition:
+ * { Variable: "$.amount", NumericGreaterThan: 100 } -> "$.amount > 100"
+ */
+function describeChoiceRule(rule: AslChoiceRule): string {
+  if (rule.Condition) return rule.Condition.replace(/^\{%\s*|\s*%\}$/g, '');
+  if (rule.And) return rule.And.map(r => `(${describeChoiceRule(r)})`).join(' && ');
+  if (rule.Or) return rule.Or.map(r => `(${describeChoiceRule(r)})`).join(' || ');
+  if (rule.Not) return `!(${describeChoiceRule(rule.Not)})`;
+
+  const operator = Object.keys(rule).find(key => !['Variable', 'Next', 'Comment'].includes(key));
+  if (!operator) return rule.Variable || '';
+
+  const value = rule[operator];
+  if (operator.startsWith('Is')) {
+    // IsPresent, IsNull, IsString, ...
+    return `${rule.Variable} ${operator} ${JSON.stringify(value)}`;
+  }
+
+  const isPath = operator.endsWith('Path');
+  const baseOperator = isPath ? operator.slice(0, -4) : operator;
+  const symbol = COMPARISON_OPERATORS.find(([suffix]) => baseOperator.endsWith(suffix))?.[1] || baseOperator;
+  const operand = isPath ? String(value) : JSON.stringify(value);
+  return `${rule.Variable} ${symbol} ${operand}`;
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
@@ -0,0 +1,453 @@
+/**
+ * DOT Workflow Parser
+ *
+ * Parses Graphviz DOT source (`digraph { a -> b [label=...] }`) into our
+ * BusinessProcess format.
+ *
+ * Node shapes map to node types (diamond -> gateway, doublecircle -> end,
+ * circle/point -> start or end by position), `subgraph cluster_*` maps to
+ * lanes (assignee) and edge labels to transition labels. Anything DOT can
+ * express but a workflow cannot (undirected edges, HTML labels, invisible
+ * layout helpers) is reported as a warning.
+ */
+
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessTransition,
+  ProcessNodeType,
+  GatewayKind,
+} from '@/types/module';
+import { toCode } from './workflow-codes';
+
+type DotAttrs = Record<string, string>;
+
+interface DotToken {
+  value: string;
+  kind: 'id' | 'html' | 'punct' | 'edgeop';
+}
+
+interface DotScope {
+  nodeDefaults: DotAttrs;
+  edgeDefaults: DotAttrs;
+  graphAttrs: DotAttrs;
+  members: string[];
+}
+
+interface DotNode {
+  id: string;
+  attrs: DotAttrs;
+  assignee?: string;
+}
+
+interface DotEdge {
+  from: string;
+  to: string;
+  attrs: DotAttrs;
+}
+
+interface DotGraph {
+  name?: string;
+  directed: boolean;
+  nodes: DotNode[];
+  edges: DotEdge[];
+  rest: number; // tokens left after the first graph
+}
+
+const DOT_SHAPES: Record<string, ProcessNodeType | 'circle'> = {
+  circle: 'circle',
+  point: 'circle',
+  Mcircle: 'circle',
+  doublecircle: 'end',
+  Msquare: 'end',
+  diamond: 'gateway',
+  Mdiamond: 'gateway',
+  box3d: 'subprocess',
+  component: 'subprocess',
+  folder: 'subprocess',
+  tab: 'subprocess',
+  hexagon: 'event',
+  octagon: 'event',
+  doubleoctagon: 'event',
+};
+
+const DOT_GATEWAY_KINDS: Record<string, GatewayKind> = {
+  diamond: 'exclusive',
+  Mdiamond: 'parallel',
+};
+
+/**
+ * Parse DOT source to BusinessProcess format
+ */
+export function parseDotWorkflow(content: string, warnings: string[] = []): BusinessProcess {
+  const { name, directed, nodes, edges, rest } = parseDotGraph(tokenizeDot(content), warnings);
+
+  if (!directed) {
+    warnings.push('Undirected graph: edges are read as pointing from left to right');
+  }
+  if (rest > 0) {
+    warnings.push('Only the first graph in the file was imported');
+  }
+
+  // Invisible nodes and edges only steer the Graphviz layout
+  const invisible = new Set(nodes.filter(n => isInvisible(n.attrs)).map(n => n.id));
+  if (invisible.size > 0) {
+    warnings.push(`Skipped ${invisible.size} invisible node(s)`);
+  }
+  const visibleEdges = edges.filter(e => !isInvisible(e.attrs) && !invisible.has(e.from) && !invisible.has(e.to));
+  if (visibleEdges.length < edges.filter(e => !invisible.has(e.from) && !invisible.has(e.to)).length) {
+    warnings.push('Skipped invisible edges');
+  }
+
+  let htmlLabels = false;
+  const readLabel = (raw: string | undefined, nodeId?: string): string | undefined => {
+    if (raw === undefined) return undefined;
+    if (raw.startsWith('<')) {
+      htmlLabels = true;
+      return raw.slice(1, -1).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+    }
+    return decodeDotString(raw, nodeId, name);
+  };
+
+  const transitions: ProcessTransition[] = visibleEdges.map(edge => {
+    const reversed = edge.attrs.dir === 'back';
+    return {
+      id: generateId(),
+      from: reversed ? edge.to : edge.from,
+      to: reversed ? edge.from : edge.to,
+      label: readLabel(edge.attrs.label ?? edge.attrs.xlabel) || undefined,
+    };
+  });
+
+  const processNodes: ProcessNode[] = nodes
+    .filter(n => !invisible.has(n.id))
+    .map(n => {
+      const shape = n.attrs.shape || 'ellipse';
+      const mapped = DOT_SHAPES[shape] || 'task';
+      let type: ProcessNodeType;
+      if (mapped === 'circle') {
+        // UML-style initial/final dots: classified by their connections
+        const hasIncoming = transitions.some(t => t.to === n.id);
+        const hasOutgoing = transitions.some(t => t.from === n.id);
+        type = !hasIncoming ? 'start' : !hasOutgoing ? 'end' : 'event';
+      } else {
+        type = mapped;
+      }
+
+      const label = readLabel(n.attrs.label, n.id);
+      const fallbackName = type === 'start' ? 'Start' : type === 'end' ? 'End' : n.id;
+
+      return {
+        id: n.id,
+        type,
+        name: label || (shape === 'point' ? fallbackName : n.id),
+        description: n.attrs.tooltip || n.attrs.comment || undefined,
+        assignee: n.assignee,
+        gatewayKind: DOT_GATEWAY_KINDS[shape],
+        position: { x: 0, y: 0 },
+      };
+    });
+
+  if (htmlLabels) {
+    warnings.push('HTML-like labels were reduced to plain text');
+  }
+  if (nodes.some(n => n.attrs.shape === 'record' || n.attrs.shape === 'Mrecord')) {
+    warnings.push('Record shapes were imported as plain tasks; their fields are kept in the name');
+  }
+
+  return {
+    id: generateId(),
+    name: name || 'DOT Workflow',
+    code: name ? toCode(name) : 'dot-workflow',
+    description: 'Imported from Graphviz DOT',
+    nodes: processNodes,
+    transitions,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Tokenizer
+// ─────────────────────────────────────────────────────────────
+
+function tokenizeDot(content: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (content.startsWith('//', i) || (char === '#' && (i === 0 || content[i - 1] === '\n'))) {
+      // Line comments and C preprocessor output lines
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (content.startsWith('/*', i)) {
+      const end = content.indexOf('*/', i + 2);
+      i = end < 0 ? content.length : end + 2;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < content.length && content[i] !== '"') {
+        if (content[i] === '\\' && content[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (content[i] === '\\' && content[i + 1] === '\n') {
+          i += 2; // Line continuation
+        } else {
+          value += content[i++];
+        }
+      }
+      i++;
+      // "a" + "b" concatenation
+      const last = tokens[tokens.length - 1];
+      if (last?.value === '+' && tokens[tokens.length - 2]?.kind === 'id') {
+        tokens.pop();
+        tokens[tokens.length - 1].value += value;
+      } else {
+        tokens.push({ value, kind: 'id' });
+      }
+    } else if (char === '<') {
+      // HTML string: balanced angle brackets
+      let depth = 0;
+      const start = i;
+      do {
+        if (content[i] === '<') depth++;
+        else if (content[i] === '>') depth--;
+        i++;
+      } while (i < content.length && depth > 0);
+      tokens.push({ value: content.slice(start, i), kind: 'html' });
+    } else if (content.startsWith('->', i) || content.startsWith('--', i)) {
+      tokens.push({ value: content.slice(i, i + 2), kind: 'edgeop' });
+      i += 2;
+    } else if ('{}[]=;,:+'.includes(char)) {
+      tokens.push({ value: char, kind: 'punct' });
+      i++;
+    } else {
+      const match = content.slice(i).match(/^(-?(\.\d+|\d+(\.\d*)?)|[\p{L}_][\p{L}\p{N}_]*)/u);
+      if (!match) {
+        throw new Error(`Unexpected character "${char}" in DOT source`);
+      }
+      tokens.push({ value: match[0], kind: 'id' });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Parser
+// ─────────────────────────────────────────────────────────────
+
+function parseDotGraph(tokens: DotToken[], warnings: string[]): DotGraph {
+  let pos = 0;
+  const nodes = new Map<string, DotNode>();
+  const edges: DotEdge[] = [];
+
+  const peek = (offset = 0): DotToken | undefined => tokens[pos + offset];
+  const next = (): DotToken | undefined => tokens[pos++];
+  const peekKeyword = (keyword: string) => {
+    const token = peek();
+    return token?.kind === 'id' && token.value.toLowerCase() === keyword;
+  };
+  const expect = (value: string) => {
+    const token = next();
+    if (token?.value !== value) {
+      throw new Error(`Expected "${value}" in DOT source but found ${token ? `"${token.value}"` : 'end of input'}`);
+    }
+  };
+
+  // a:port:compass - ports only steer edge endpoints
+  const skipPort = () => {
+    while (peek()?.value === ':' && peek(1)) pos += 2;
+  };
+
+  const parseAttrLists = (): DotAttrs => {
+    const attrs: DotAttrs = {};
+    while (peek()?.value === '[') {
+      pos++;
+      while (peek() && peek()!.value !== ']') {
+        const key = next()!.value;
+        if (peek()?.value === '=') {
+          pos++;
+          attrs[key] = next()?.value || '';
+        } else {
+          attrs[key] = 'true';
+        }
+        if (peek()?.value === ',' || peek()?.value === ';') pos++;
+      }
+      expect(']');
+    }
+    return attrs;
+  };
+
+  const declareNode = (scope: DotScope, id: string, attrs: DotAttrs) => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id, attrs: { ...scope.nodeDefaults } };
+      nodes.set(id, node);
+    }
+    Object.assign(node.attrs, attrs);
+    if (!scope.members.includes(id)) scope.members.push(id);
+  };
+
+  const parseStatements = (scope: DotScope) => {
+    while (peek() && peek()!.value !== '}') {
+      parseStatement(scope);
+      if (peek()?.value === ';' || peek()?.value === ',') pos++;
+    }
+  };
+
+  // [subgraph [ID]] { ... } - returns the ids of the nodes inside.
+  // Clusters name a lane for the nodes they contain (innermost wins).
+  const parseSubgraph = (parent: DotScope): string[] => {
+    let id = '';
+    if (peekKeyword('subgraph')) {
+      pos++;
+      if (peek()?.kind === 'id') id = next()!.value;
+    }
+
+    const scope: DotScope = {
+      nodeDefaults: { ...parent.nodeDefaults },
+      edgeDefaults: { ...parent.edgeDefaults },
+      graphAttrs: {},
+      members: [],
+    };
+
+    if (peek()?.value === '{') {
+      pos++;
+      parseStatements(scope);
+      expect('}');
+    }
+
+    if (id.startsWith('cluster') || scope.graphAttrs.cluster === 'true') {
+      const lane = scope.graphAttrs.label
+        ? decodeDotString(scope.graphAttrs.label)
+        : id.replace(/^cluster_?/, '') || id;
+      scope.members.forEach(memberId => {
+        const node = nodes.get(memberId);
+        if (node && !node.assignee) node.assignee = lane;
+      });
+    }
+
+    scope.members.forEach(memberId => {
+      if (!parent.members.includes(memberId)) parent.members.push(memberId);
+    });
+    return scope.members;
+  };
+
+  const parseEdgeChain = (scope: DotScope, first: string[]) => {
+    const operands: string[][] = [first];
+    while (peek()?.kind === 'edgeop') {
+      pos++;
+      const token = peek();
+      if (!token) break;
+      if (token.value === '{' || token.value.toLowerCase() === 'subgraph') {
+        operands.push(parseSubgraph(scope));
+      } else {
+        pos++;
+        skipPort();
+        operands.push([token.value]);
+      }
+    }
+
+    const attrs = { ...scope.edgeDefaults, ...(peek()?.value === '[' ? parseAttrLists() : {}) };
+    operands.forEach(ids => ids.forEach(id => declareNode(scope, id, {})));
+
+    for (let i = 0; i < operands.length - 1; i++) {
+      operands[i].forEach(from => operands[i + 1].forEach(to => {
+        edges.push({ from, to, attrs });
+      }));
+    }
+  };
+
+  function parseStatement(scope: DotScope): void {
+    const token = peek()!;
+    const keyword = token.kind === 'id' ? token.value.toLowerCase() : '';
+    const isSubgraph = keyword === 'subgraph' || token.value === '{';
+
+    // node [..] / edge [..] / graph [..]
+    if (['node', 'edge', 'graph'].includes(keyword) && peek(1)?.value === '[') {
+      pos++;
+      const attrs = parseAttrLists();
+      const target = keyword === 'node' ? scope.nodeDefaults : keyword === 'edge' ? scope.edgeDefaults : scope.graphAttrs;
+      Object.assign(target, attrs);
+      return;
+    }
+
+    // ID = ID
+    if (token.kind !== 'punct' && peek(1)?.value === '=') {
+      pos += 2;
+      scope.graphAttrs[token.value] = next()?.value || '';
+      return;
+    }
+
+    let operand: string[];
+    if (isSubgraph) {
+      operand = parseSubgraph(scope);
+    } else if (token.kind === 'id' || token.kind === 'html') {
+      pos++;
+      skipPort();
+      operand = [token.value];
+    } else {
+      warnings.push(`Unexpected "${token.value}" in DOT source`);
+      pos++;
+      return;
+    }
+
+    if (peek()?.kind === 'edgeop') {
+      parseEdgeChain(scope, operand);
+    } else if (!isSubgraph) {
+      declareNode(scope, operand[0], peek()?.value === '[' ? parseAttrLists() : {});
+    }
+  }
+
+  if (peekKeyword('strict')) pos++;
+
+  const graphType = next();
+  if (!graphType || !['graph', 'digraph'].includes(graphType.value.toLowerCase())) {
+    throw new Error('DOT source must start with "graph" or "digraph"');
+  }
+
+  let name: string | undefined;
+  if (peek()?.kind === 'id' || peek()?.kind === 'html') {
+    name = next()!.value;
+  }
+
+  const root: DotScope = { nodeDefaults: {}, edgeDefaults: {}, graphAttrs: {}, members: [] };
+  expect('{');
+  parseStatements(root);
+  expect('}');
+
+  return {
+    name: root.graphAttrs.label ? decodeDotString(root.graphAttrs.label) : name,
+    directed: graphType.value.toLowerCase() === 'digraph',
+    nodes: Array.from(nodes.values()),
+    edges,
+    rest: tokens.length - pos,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function isInvisible(attrs: DotAttrs): boolean {
+  return (attrs.style || '').split(',').map(s => s.trim()).includes('invis');
+}
+
+/**
+ * DOT escString: \n \l \r line breaks, \N node id, \G graph name
+ */
+function decodeDotString(value: string, nodeId?: string, graphName?: string): string {
+  return value
+    .replace(/\\[nlr]/g, '\n')
+    .replace(/\\N/g, nodeId || '')
+    .replace(/\\G/g, graphName || '')
+    .replace(/\\(.)/g, '$1')
+    .trim();
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
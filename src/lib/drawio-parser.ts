@@ -0,0 +1,286 @@
+/**
+ * draw.io Workflow Parser
+ *
+ * Parses diagrams.net (`.drawio`) files into our BusinessProcess format.
+ * Reads plain and deflate-compressed `mxGraphModel` XML; each page
+ * becomes a process.
+ *
+ * Vertex styles map to node types (ellipse -> start/end/event by its
+ * connections, double ellipse -> end, rhombus -> gateway, rectangles ->
+ * task), edges map to transitions, swimlanes to lanes (assignee) and
+ * mxGeometry coordinates are kept as node positions.
+ */
+
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessNodeType,
+  ProcessTransition,
+} from '@/types/module';
+import { toCode } from './workflow-codes';
+
+interface DrawioStyle {
+  names: string[]; // Bare style names ("ellipse", "rhombus", "swimlane", ...)
+  props: Record<string, string>;
+}
+
+interface DrawioCell {
+  id: string;
+  label: string;
+  style: DrawioStyle;
+  vertex: boolean;
+  edge: boolean;
+  parent?: string;
+  source?: string;
+  target?: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Parse a draw.io file to BusinessProcess format, one process per page
+ */
+export async function parseDrawioWorkflow(content: string, warnings: string[] = []): Promise<BusinessProcess[]> {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(content, 'text/xml');
+
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    throw new Error('Invalid draw.io XML: ' + parseError.textContent);
+  }
+
+  const pages: { name: string; model: Element }[] = [];
+  const root = doc.documentElement;
+
+  if (root.localName === 'mxGraphModel') {
+    pages.push({ name: 'draw.io Workflow', model: root });
+  } else {
+    const diagrams = Array.from(doc.getElementsByTagName('diagram'));
+    for (const [index, diagram] of diagrams.entries()) {
+      const name = diagram.getAttribute('name') || `Page ${index + 1}`;
+      let model = Array.from(diagram.children).find(el => el.localName === 'mxGraphModel');
+
+      // Compressed pages: base64 of raw deflate of the URI-encoded XML
+      if (!model && diagram.textContent?.trim()) {
+        try {
+          const xml = await inflateDiagram(diagram.textContent);
+          model = parser.parseFromString(xml, 'text/xml').documentElement;
+        } catch {
+          warnings.push(`Page "${name}" could not be decompressed`);
+          continue;
+        }
+      }
+
+      if (model?.localName === 'mxGraphModel') {
+        pages.push({ name, model });
+      }
+    }
+  }
+
+  if (pages.length === 0) {
+    throw new Error('No mxGraphModel found in draw.io file');
+  }
+
+  return pages
+    .map(page => parseDrawioModel(page.model, page.name, pages.length > 1 ? `${page.name}: ` : '', warnings))
+    .filter(workflow => workflow.nodes.length > 0);
+}
+
+/**
+ * Decode a compressed diagram page
+ */
+async function inflateDiagram(data: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(data.trim()), char => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  const inflated = await new Response(stream).text();
+  return decodeURIComponent(inflated);
+}
+
+function parseDrawioModel(model: Element, name: string, warningPrefix: string, warnings: string[]): BusinessProcess {
+  const cells = extractCells(model);
+  const cellMap = new Map(cells.map(cell => [cell.id, cell]));
+
+  const isContainer = (cell: DrawioCell) =>
+    cell.style.names.includes('swimlane') || cell.style.props.swimlane !== undefined
+    || cell.style.names.includes('group') || cell.style.props.container === '1';
+  const isAnnotation = (cell: DrawioCell) =>
+    cell.style.names.some(n => ['text', 'edgeLabel', 'note'].includes(n))
+    || cell.style.props.shape === 'note';
+
+  // Absolute position: mxGeometry is relative to the containing vertex
+  const absolutePosition = (cell: DrawioCell) => {
+    let { x, y } = cell;
+    let parent = cell.parent ? cellMap.get(cell.parent) : undefined;
+    while (parent?.vertex) {
+      x += parent.x;
+      y += parent.y;
+      parent = parent.parent ? cellMap.get(parent.parent) : undefined;
+    }
+    return { x, y };
+  };
+
+  // Innermost swimlane names the lane
+  const laneOf = (cell: DrawioCell) => {
+    let parent = cell.parent ? cellMap.get(cell.parent) : undefined;
+    while (parent?.vertex) {
+      if (isContainer(parent) && parent.label && !parent.style.names.includes('group')) return parent.label;
+      parent = parent.parent ? cellMap.get(parent.parent) : undefined;
+    }
+    return undefined;
+  };
+
+  const vertices = cells.filter(cell => cell.vertex && !isContainer(cell) && !cellMap.get(cell.parent || '')?.edge);
+  const annotations = vertices.filter(isAnnotation);
+  const shapeCells = vertices.filter(cell => !isAnnotation(cell));
+  const shapeIds = new Set(shapeCells.map(cell => cell.id));
+
+  if (annotations.length > 0) {
+    warnings.push(`${warningPrefix}Skipped ${annotations.length} text/note shape(s)`);
+  }
+
+  // Labels placed on an edge are child cells of the edge
+  const edgeLabels = new Map<string, string>();
+  cells.forEach(cell => {
+    const parent = cell.parent ? cellMap.get(cell.parent) : undefined;
+    if (cell.vertex && parent?.edge && cell.label) {
+      edgeLabels.set(parent.id, [edgeLabels.get(parent.id), cell.label].filter(Boolean).join(' '));
+    }
+  });
+
+  const transitions: ProcessTransition[] = [];
+  cells.filter(cell => cell.edge).forEach(cell => {
+    if (!cell.source || !cell.target) {
+      warnings.push(`${warningPrefix}Skipped edge "${cell.label || cell.id}" that is not connected at both ends`);
+      return;
+    }
+    if (!shapeIds.has(cell.source) || !shapeIds.has(cell.target)) {
+      warnings.push(`${warningPrefix}Skipped edge "${cell.label || cell.id}" connected to a container or text`);
+      return;
+    }
+    transitions.push({
+      id: cell.id,
+      from: cell.source,
+      to: cell.target,
+      label: cell.label || edgeLabels.get(cell.id) || undefined,
+    });
+  });
+
+  const nodes: ProcessNode[] = shapeCells.map(cell => {
+    let type = getDrawioNodeType(cell.style);
+    if (type === 'circle') {
+      // Plain ellipses: classified by their connections
+      const hasIncoming = transitions.some(t => t.to === cell.id);
+      const hasOutgoing = transitions.some(t => t.from === cell.id);
+      type = !hasIncoming ? 'start' : !hasOutgoing ? 'end' : 'event';
+    }
+
+    return {
+      id: cell.id,
+      type,
+      name: cell.label || (type === 'start' ? 'Start' : type === 'end' ? 'End' : cell.id),
+      assignee: laneOf(cell),
+      position: absolutePosition(cell),
+    };
+  });
+
+  return {
+    id: generateId(),
+    name,
+    code: toCode(name) || 'drawio-workflow',
+    description: 'Imported from draw.io',
+    nodes,
+    transitions,
+  };
+}
+
+/**
+ * Map a vertex style to a node type; 'circle' is decided by connections
+ */
+function getDrawioNodeType({ names, props }: DrawioStyle): ProcessNodeType | 'circle' {
+  const shape = props.shape || '';
+  const perimeter = props.perimeter || '';
+
+  if (shape === 'doubleEllipse' || names.includes('doubleEllipse')) return 'end';
+
+  // BPMN shape library: outline marks start/end/intermediate events
+  if (props.outline) {
+    if (props.outline === 'standard') return 'start';
+    if (props.outline === 'end') return 'end';
+    return 'event';
+  }
+  if (shape.includes('gateway') || names.includes('rhombus') || shape === 'rhombus'
+    || perimeter === 'rhombusPerimeter' || shape.endsWith('flowchart.decision')) {
+    return 'gateway';
+  }
+  if (names.includes('ellipse') || shape === 'ellipse' || perimeter === 'ellipsePerimeter'
+    || /flowchart\.(start_[12]|terminator)$/.test(shape)) {
+    return 'circle';
+  }
+  if (shape === 'process' || shape.endsWith('predefined_process') || shape.endsWith('bpmn.subprocess')) {
+    return 'subprocess';
+  }
+  if (names.includes('hexagon') || shape === 'hexagon') return 'event';
+
+  return 'task';
+}
+
+/**
+ * Collect mxCells. Cells wrapped in <object>/<UserObject> take their id
+ * and label from the wrapper.
+ */
+function extractCells(model: Element): DrawioCell[] {
+  return Array.from(model.getElementsByTagName('mxCell')).map(el => {
+    const wrapper = el.parentElement && ['object', 'UserObject'].includes(el.parentElement.localName)
+      ? el.parentElement
+      : null;
+    const geometry = Array.from(el.children).find(child => child.localName === 'mxGeometry');
+
+    return {
+      id: wrapper?.getAttribute('id') || el.getAttribute('id') || generateId(),
+      label: htmlToText((wrapper ? wrapper.getAttribute('label') : el.getAttribute('value')) || ''),
+      style: parseStyle(el.getAttribute('style') || ''),
+      vertex: el.getAttribute('vertex') === '1',
+      edge: el.getAttribute('edge') === '1',
+      parent: el.getAttribute('parent') || undefined,
+      source: el.getAttribute('source') || undefined,
+      target: el.getAttribute('target') || undefined,
+      x: parseFloat(geometry?.getAttribute('x') || '0'),
+      y: parseFloat(geometry?.getAttribute('y') || '0'),
+    };
+  });
+}
+
+/**
+ * "ellipse;whiteSpace=wrap;html=1;" -> names + key/value props
+ */
+function parseStyle(style: string): DrawioStyle {
+  const names: string[] = [];
+  const props: Record<string, string> = {};
+  style.split(';').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const separator = part.indexOf('=');
+    if (separator < 0) names.push(part);
+    else props[part.slice(0, separator)] = part.slice(separator + 1);
+  });
+  return { names, props };
+}
+
+/**
+ * Labels with html=1 hold markup: strip tags, decode entities
+ */
+function htmlToText(value: string): string {
+  return value
+    .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
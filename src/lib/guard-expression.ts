@@ -0,0 +1,409 @@
+/**
+ * Guard Expressions
+ *
+ * Small expression language for ProcessTransition.condition, evaluated
+ * without eval. Guards reference fields of the form behind the transition:
+ *
+ *   severity in ['serious', 'critical'] && injuries > 0
+ *   !reported || reportedAt >= '2024-01-01'
+ *
+ * - Literals: numbers, 'strings' or "strings", true, false, null, [lists]
+ * - Fields: form field names; dotted paths read nested values
+ * - Comparison: == != < <= > >=, membership: in
+ * - Logic: && || ! and parentheses
+ *
+ * Evaluation is three-valued: a guard over fields missing from the data
+ * is undefined rather than false.
+ */
+
+import type { FieldType, FormField } from '@/types/module';
+
+export type GuardLiteral = string | number | boolean | null;
+
+export type GuardExpression =
+  | { kind: 'literal'; value: GuardLiteral }
+  | { kind: 'field'; path: string }
+  | { kind: 'list'; items: GuardExpression[] }
+  | { kind: 'not'; operand: GuardExpression }
+  | { kind: 'logical'; operator: '&&' | '||'; left: GuardExpression; right: GuardExpression }
+  | { kind: 'compare'; operator: CompareOperator; left: GuardExpression; right: GuardExpression };
+
+export type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+export type GuardType = 'string' | 'number' | 'boolean' | 'date' | 'list' | 'file' | 'null' | 'unknown';
+
+export interface GuardIssue {
+  kind: 'unknown-field' | 'type-mismatch';
+  message: string;
+}
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+// Form field types as seen by guards
+const FIELD_TYPES: Record<FieldType, GuardType> = {
+  text: 'string',
+  textarea: 'string',
+  number: 'number',
+  date: 'date',
+  select: 'string',
+  multiselect: 'list',
+  checkbox: 'boolean',
+  radio: 'string',
+  file: 'file',
+  user: 'string',
+  location: 'string',
+};
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '(', ')', '[', ']', ','];
+
+// ─────────────────────────────────────────────────────────────
+// Parser
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Parse a guard. Throws on syntax errors.
+ */
+export function parseGuard(source: string): GuardExpression {
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const next = () => tokens[current++];
+  const fail = (token: Token, expected: string): never => {
+    throw new Error(token.type === 'end'
+      ? `Expected ${expected} at end of condition`
+      : `Expected ${expected} but found "${token.value}" at position ${token.position + 1}`);
+  };
+  const accept = (value: string) => {
+    const token = peek();
+    if ((token.type === 'operator' || token.type === 'identifier') && token.value === value) {
+      current++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) fail(peek(), `"${value}"`);
+  };
+
+  const parseOr = (): GuardExpression => {
+    let left = parseAnd();
+    while (accept('||')) left = { kind: 'logical', operator: '||', left, right: parseAnd() };
+    return left;
+  };
+
+  const parseAnd = (): GuardExpression => {
+    let left = parseNot();
+    while (accept('&&')) left = { kind: 'logical', operator: '&&', left, right: parseNot() };
+    return left;
+  };
+
+  const parseNot = (): GuardExpression =>
+    accept('!') ? { kind: 'not', operand: parseNot() } : parseComparison();
+
+  const parseComparison = (): GuardExpression => {
+    const left = parsePrimary();
+    const token = peek();
+    const isComparison = (token.type === 'operator' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value))
+      || (token.type === 'identifier' && token.value === 'in');
+    if (!isComparison) return left;
+    next();
+    return { kind: 'compare', operator: token.value as CompareOperator, left, right: parsePrimary() };
+  };
+
+  const parsePrimary = (): GuardExpression => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        if (token.value === 'in') return fail(token, 'a value');
+        let path = token.value;
+        while (accept('.')) {
+          const part = next();
+          if (part.type !== 'identifier') fail(part, 'a field name');
+          path += `.${part.value}`;
+        }
+        return { kind: 'field', path };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseOr();
+          expect(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const items: GuardExpression[] = [];
+          if (!accept(']')) {
+            do items.push(parsePrimary()); while (accept(','));
+            expect(']');
+          }
+          return { kind: 'list', items };
+        }
+        if (token.value === '-' && peek().type === 'number') {
+          return { kind: 'literal', value: -Number(next().value) };
+        }
+    }
+    return fail(token, 'a value');
+  };
+
+  const expression = parseOr();
+  if (peek().type !== 'end') fail(peek(), 'end of condition');
+  return expression;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = source.slice(i).match(/^\d*\.?\d+(?:[eE][+-]?\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j++];
+      }
+      if (j >= source.length) throw new Error(`Unterminated string at position ${i + 1}`);
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+    } else if (/[\p{L}_$]/u.test(char)) {
+      const match = source.slice(i).match(/^[\p{L}\p{N}_$]+/u)!;
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, i)) || (char === '.' || char === '-' ? char : null);
+      if (!operator) throw new Error(`Unexpected "${char}" at position ${i + 1}`);
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Type checker
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Check field references and operand types against form fields
+ */
+export function checkGuard(expression: GuardExpression, fields: FormField[]): GuardIssue[] {
+  const issues: GuardIssue[] = [];
+  const fieldMap = new Map(fields.map(f => [f.name, f]));
+  const mismatch = (message: string) => issues.push({ kind: 'type-mismatch', message });
+
+  const lookup = (path: string) => fieldMap.get(path.replace(/^\$\./, ''));
+
+  const typeOf = (node: GuardExpression): GuardType => {
+    switch (node.kind) {
+      case 'literal':
+        return node.value === null ? 'null' : typeof node.value as GuardType;
+
+      case 'field': {
+        const field = lookup(node.path);
+        if (!field) {
+          issues.push({ kind: 'unknown-field', message: `Unknown field "${node.path}"` });
+          return 'unknown';
+        }
+        return FIELD_TYPES[field.type] || 'unknown';
+      }
+
+      case 'list':
+        node.items.forEach(typeOf);
+        return 'list';
+
+      case 'not':
+        expectBoolean(node.operand, '!');
+        return 'boolean';
+
+      case 'logical':
+        expectBoolean(node.left, node.operator);
+        expectBoolean(node.right, node.operator);
+        return 'boolean';
+
+      case 'compare':
+        checkComparison(node.operator, node.left, node.right);
+        return 'boolean';
+    }
+  };
+
+  const expectBoolean = (node: GuardExpression, operator: string) => {
+    const type = typeOf(node);
+    if (type !== 'boolean' && type !== 'unknown') {
+      mismatch(`"${operator}" expects a boolean, got ${describe(node)} (${type})`);
+    }
+  };
+
+  const checkComparison = (operator: CompareOperator, left: GuardExpression, right: GuardExpression) => {
+    const leftType = typeOf(left);
+    const rightType = typeOf(right);
+
+    if (operator === 'in') {
+      if (right.kind === 'list') {
+        right.items.forEach(item => checkOperands('in', left, leftType, item, typeOf(item)));
+      } else if (rightType !== 'list' && rightType !== 'unknown') {
+        mismatch(`"in" expects a list, got ${describe(right)} (${rightType})`);
+      } else if (leftType !== 'string' && leftType !== 'unknown') {
+        mismatch(`${describe(left)} (${leftType}) cannot be an item of ${describe(right)}`);
+      }
+      return;
+    }
+
+    if (['<', '<=', '>', '>='].includes(operator)) {
+      const ordered = (type: GuardType) => type === 'number' || type === 'date' || type === 'unknown';
+      const orderedDates = (a: GuardType, b: GuardType) => a === 'date' && (b === 'string' || b === 'date');
+      if (!(ordered(leftType) && ordered(rightType) && compatible(leftType, rightType))
+        && !orderedDates(leftType, rightType) && !orderedDates(rightType, leftType)) {
+        mismatch(`Cannot order ${describe(left)} (${leftType}) and ${describe(right)} (${rightType}) with "${operator}"`);
+      }
+      return;
+    }
+
+    checkOperands(operator, left, leftType, right, rightType);
+  };
+
+  // Equality and membership: same types, and literals among a select's options
+  const checkOperands = (
+    operator: string,
+    left: GuardExpression,
+    leftType: GuardType,
+    right: GuardExpression,
+    rightType: GuardType
+  ) => {
+    if (!compatible(leftType, rightType)) {
+      mismatch(`Cannot compare ${describe(left)} (${leftType}) with ${describe(right)} (${rightType}) using "${operator}"`);
+      return;
+    }
+    const field = left.kind === 'field' ? left : right.kind === 'field' ? right : null;
+    const literal = field === left ? right : left;
+    const options = field ? lookup(field.path)?.options : undefined;
+    if (field && options?.length && literal.kind === 'literal' && typeof literal.value === 'string'
+      && !options.some(o => o.value === literal.value)) {
+      mismatch(`'${literal.value}' is not an option of "${field.path}"`);
+    }
+  };
+
+  const resultType = typeOf(expression);
+  if (resultType !== 'boolean' && resultType !== 'unknown') {
+    mismatch(`Condition ${describe(expression)} is a ${resultType}, not a boolean`);
+  }
+  return issues;
+}
+
+function compatible(a: GuardType, b: GuardType): boolean {
+  if (a === b || a === 'unknown' || b === 'unknown' || a === 'null' || b === 'null') return true;
+  return (a === 'date' && b === 'string') || (a === 'string' && b === 'date');
+}
+
+function describe(node: GuardExpression): string {
+  switch (node.kind) {
+    case 'literal':
+      return typeof node.value === 'string' ? `'${node.value}'` : String(node.value);
+    case 'field':
+      return `"${node.path}"`;
+    case 'list':
+      return `[${node.items.map(describe).join(', ')}]`;
+    default:
+      return 'expression';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Evaluator
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Evaluate a guard against form data. Undefined when a referenced field
+ * is missing or the guard does not parse.
+ */
+export function evaluateGuard(guard: GuardExpression | string, data: Record<string, unknown>): boolean | undefined {
+  let expression: GuardExpression;
+  try {
+    expression = typeof guard === 'string' ? parseGuard(guard) : guard;
+  } catch {
+    return undefined;
+  }
+  const result = evaluate(expression, data);
+  return typeof result === 'boolean' ? result : result === undefined ? undefined : !!result;
+}
+
+function evaluate(node: GuardExpression, data: Record<string, unknown>): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'field':
+      return node.path.replace(/^\$\./, '').split('.').reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        data
+      );
+
+    case 'list':
+      return node.items.map(item => evaluate(item, data));
+
+    case 'not': {
+      const operand = evaluate(node.operand, data);
+      return operand === undefined ? undefined : !operand;
+    }
+
+    case 'logical': {
+      const left = evaluate(node.left, data);
+      const right = evaluate(node.right, data);
+      const decisive = node.operator === '&&' ? false : true;
+      if ((left !== undefined && !!left === decisive) || (right !== undefined && !!right === decisive)) return decisive;
+      if (left === undefined || right === undefined) return undefined;
+      return !decisive;
+    }
+
+    case 'compare': {
+      const left = evaluate(node.left, data);
+      const right = evaluate(node.right, data);
+      if (left === undefined || right === undefined) return undefined;
+
+      switch (node.operator) {
+        case '==':
+          return equals(left, right);
+        case '!=':
+          return !equals(left, right);
+        case 'in':
+          return Array.isArray(right) ? right.some(item => equals(left, item)) : undefined;
+        default: {
+          const ordered = (typeof left === 'number' && typeof right === 'number')
+            || (typeof left === 'string' && typeof right === 'string');
+          if (!ordered) return undefined;
+          const [a, b] = [left as number | string, right as number | string];
+          return node.operator === '<' ? a < b
+            : node.operator === '<=' ? a <= b
+            : node.operator === '>' ? a > b
+            : a >= b;
+        }
+      }
+    }
+  }
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => equals(item, b[index]));
+  }
+  return a === b;
+}
@@ -0,0 +1,622 @@
+/**
+ * Mermaid Workflow Parser
+ *
+ * Parses Mermaid flowchart and stateDiagram(-v2) source into our
+ * BusinessProcess format.
+ *
+ * Flowcharts: node shapes map to node types, subgraphs map to lanes
+ * (assignee), chained (`A --> B --> C`) and grouped (`A & B --> C`) edges.
+ * State diagrams: `[*]` pseudo states map to start/end, composite states
+ * become subprocess nodes with an embedded graph, `<<choice>>`/`<<fork>>`
+ * become gateways.
+ *
+ * In both, `class`/`:::` names matching a ProcessNodeType (optionally with a
+ * "Node" suffix) set the node type, and edge labels in UML form `label [guard]` fill the condition.
+ */
+
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessTransition,
+  ProcessNodeType,
+  ProcessGraph,
+  GatewayKind,
+} from '@/types/module';
+import { toCode } from './workflow-codes';
+
+const NODE_TYPES: ProcessNodeType[] = ['start', 'end', 'task', 'gateway', 'subprocess', 'event'];
+
+/**
+ * Parse Mermaid source to BusinessProcess format
+ */
+export function parseMermaidWorkflow(content: string, warnings: string[] = []): BusinessProcess {
+  const { title, lines } = preprocessMermaid(content);
+  if (lines.length === 0) {
+    throw new Error('Empty Mermaid diagram');
+  }
+
+  const header = lines[0];
+  const graph = /^stateDiagram/.test(header)
+    ? parseStateDiagram(lines.slice(1), warnings)
+    : parseFlowchart(lines.slice(1), warnings);
+
+  return {
+    id: generateId(),
+    name: title || 'Mermaid Workflow',
+    code: title ? toCode(title) : 'mermaid-workflow',
+    description: 'Imported from Mermaid diagram',
+    nodes: graph.nodes,
+    transitions: graph.transitions,
+  };
+}
+
+/**
+ * Strip Markdown fences, YAML front matter and comments; split statements.
+ */
+export function preprocessMermaid(content: string): { title?: string; lines: string[] } {
+  let text = content.trim();
+
+  // ```mermaid ... ``` pasted from Markdown
+  const fence = text.match(/^```\s*mermaid\s*\n([\s\S]*?)\n?```\s*$/);
+  if (fence) text = fence[1].trim();
+
+  // ---\ntitle: X\n---
+  let title: string | undefined;
+  const frontMatter = text.match(/^---\s*\n([\s\S]*?)\n---\s*\n/);
+  if (frontMatter) {
+    title = parseTitle(frontMatter[1].match(/^title:\s*(.+)$/m)?.[1].trim());
+    text = text.slice(frontMatter[0].length);
+  }
+
+  const lines = text
+    .split('\n')
+    .map(l => l.trim())
+    .filter(l => l && !l.startsWith('%%'))
+    // Semicolons separate statements, except inside quotes
+    .flatMap(l => splitOutsideQuotes(l, ';'))
+    .map(l => l.trim())
+    .filter(Boolean);
+
+  return { title, lines };
+}
+
+/**
+ * Front matter title: double-quoted YAML strings may hold escapes
+ */
+function parseTitle(value: string | undefined): string | undefined {
+  if (value?.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Not a JSON-compatible string; strip the quotes below
+    }
+  }
+  return value?.replace(/^["']|["']$/g, '');
+}
+
+// ─────────────────────────────────────────────────────────────
+// Flowchart
+// ─────────────────────────────────────────────────────────────
+
+interface ShapeSpec {
+  open: string;
+  close: string[];
+  type: ProcessNodeType | 'circle';
+}
+
+// Longest openers first
+const FLOWCHART_SHAPES: ShapeSpec[] = [
+  { open: '(((', close: [')))'], type: 'end' },
+  { open: '((', close: ['))'], type: 'circle' },
+  { open: '([', close: ['])'], type: 'task' },
+  { open: '[[', close: [']]'], type: 'subprocess' },
+  { open: '[(', close: [')]'], type: 'task' },
+  { open: '[/', close: ['/]', '\\]'], type: 'task' },
+  { open: '[\\', close: ['\\]', '/]'], type: 'task' },
+  { open: '[', close: [']'], type: 'task' },
+  { open: '(', close: [')'], type: 'task' },
+  { open: '{{', close: ['}}'], type: 'event' },
+  { open: '{', close: ['}'], type: 'gateway' },
+  { open: '>', close: [']'], type: 'task' },
+];
+
+const FLOWCHART_KEYWORDS = ['style', 'linkStyle', 'click', 'direction', 'accTitle', 'accDescr'];
+
+interface FlowchartNodeRef {
+  id: string;
+  label?: string;
+  shape?: ProcessNodeType | 'circle';
+  className?: string;
+}
+
+function parseFlowchart(lines: string[], warnings: string[]): ProcessGraph {
+  const nodes: ProcessNode[] = [];
+  const transitions: ProcessTransition[] = [];
+  const nodeMap = new Map<string, ProcessNode>();
+  const circles = new Set<string>();
+  const declared = new Set<string>();
+  const classAssignments = new Map<string, string>();
+  const subgraphStack: { id: string; title: string }[] = [];
+  const subgraphMembers = new Map<string, string[]>();
+
+  const ensureNode = (ref: FlowchartNodeRef) => {
+    let node = nodeMap.get(ref.id);
+    if (!node) {
+      node = { id: ref.id, type: 'task', name: ref.id, position: { x: 0, y: 0 } };
+      nodes.push(node);
+      nodeMap.set(ref.id, node);
+    }
+    // Nodes referenced inside a subgraph belong to it (last one wins)
+    const lane = subgraphStack[subgraphStack.length - 1];
+    if (lane && node.assignee !== lane.title) {
+      node.assignee = lane.title;
+      subgraphMembers.get(lane.id)!.push(ref.id);
+    }
+    if (ref.label !== undefined || ref.shape) declared.add(ref.id);
+    if (ref.label !== undefined) node.name = ref.label;
+    if (ref.shape === 'circle') {
+      circles.add(ref.id);
+    } else if (ref.shape) {
+      node.type = ref.shape;
+      circles.delete(ref.id);
+    }
+    if (ref.className) classAssignments.set(ref.id, ref.className);
+    return node;
+  };
+
+  for (const line of lines) {
+    const subgraphMatch = line.match(/^subgraph\s+(.+)$/);
+    if (subgraphMatch) {
+      const { id, title } = parseSubgraphHeader(subgraphMatch[1]);
+      subgraphStack.push({ id, title });
+      subgraphMembers.set(id, []);
+      continue;
+    }
+    if (line === 'end') {
+      if (!subgraphStack.pop()) warnings.push('Unmatched "end" in Mermaid flowchart');
+      continue;
+    }
+    if (parseClassStatement(line, classAssignments)) continue;
+    if (FLOWCHART_KEYWORDS.some(k => line.startsWith(`${k} `) || line === k)) continue;
+
+    const statement = parseFlowchartStatement(line);
+    if (!statement) {
+      warnings.push(`Unrecognized Mermaid line: ${line}`);
+      continue;
+    }
+
+    // Chains: each edge connects every node of the left group to every node of the right group
+    const groups = statement.groups.map(group => group.map(ref => ensureNode(ref)));
+    statement.edges.forEach((edge, index) => {
+      for (const from of groups[index]) {
+        for (const to of groups[index + 1]) {
+          transitions.push({
+            id: generateId(),
+            from: from.id,
+            to: to.id,
+            ...splitGuard(edge.label),
+          });
+        }
+      }
+    });
+  }
+
+  if (subgraphStack.length > 0) {
+    warnings.push(`Unclosed subgraph "${subgraphStack[subgraphStack.length - 1].title}"`);
+  }
+
+  // Edges pointing at a subgraph are attached to its first node
+  subgraphMembers.forEach((members, subgraphId) => {
+    if (!nodeMap.has(subgraphId) || declared.has(subgraphId) || members.length === 0) return;
+
+    warnings.push(`Edges to subgraph "${subgraphId}" attached to its first node`);
+    transitions.forEach(t => {
+      if (t.from === subgraphId) t.from = members[0];
+      if (t.to === subgraphId) t.to = members[0];
+    });
+    nodes.splice(nodes.indexOf(nodeMap.get(subgraphId)!), 1);
+    nodeMap.delete(subgraphId);
+  });
+
+  // Circles: no incoming edges -> start, no outgoing -> end, otherwise event
+  circles.forEach(id => {
+    const node = nodeMap.get(id)!;
+    const hasIncoming = transitions.some(t => t.to === id);
+    const hasOutgoing = transitions.some(t => t.from === id);
+    node.type = !hasIncoming ? 'start' : !hasOutgoing ? 'end' : 'event';
+  });
+
+  applyClassTypes(nodeMap, classAssignments);
+
+  return { nodes, transitions };
+}
+
+function parseSubgraphHeader(header: string): { id: string; title: string } {
+  // subgraph id [Title] | subgraph id["Title"] | subgraph "Title" | subgraph Title words
+  const withTitle = header.match(/^(\w+)\s*\[\s*"?([^\]"]*)"?\s*\]$/);
+  if (withTitle) return { id: withTitle[1], title: withTitle[2].trim() };
+
+  const title = header.replace(/^"|"$/g, '').trim();
+  return { id: title.replace(/\W+/g, '_'), title };
+}
+
+interface FlowchartStatement {
+  groups: FlowchartNodeRef[][];
+  edges: { label?: string }[];
+}
+
+/**
+ * Parse `A[x] & B --> |label| C -.-> D` style statements
+ */
+function parseFlowchartStatement(line: string): FlowchartStatement | null {
+  const groups: FlowchartNodeRef[][] = [];
+  const edges: { label?: string }[] = [];
+  let pos = 0;
+
+  while (pos < line.length) {
+    // Node group: ref (& ref)*
+    const group: FlowchartNodeRef[] = [];
+    for (;;) {
+      pos = skipSpaces(line, pos);
+      const parsed = parseNodeRef(line, pos);
+      if (!parsed) return null;
+      group.push(parsed.ref);
+      pos = skipSpaces(line, parsed.end);
+      if (line[pos] !== '&') break;
+      pos++;
+    }
+    groups.push(group);
+
+    if (pos >= line.length) break;
+
+    const edge = parseEdge(line, pos);
+    if (!edge) return null;
+    edges.push({ label: edge.label });
+    pos = edge.end;
+  }
+
+  if (groups.length === 0 || groups.length !== edges.length + 1) return null;
+  return { groups, edges };
+}
+
+function parseNodeRef(line: string, start: number): { ref: FlowchartNodeRef; end: number } | null {
+  const idMatch = line.slice(start).match(/^[\p{L}\p{N}_]+/u);
+  if (!idMatch) return null;
+
+  const ref: FlowchartNodeRef = { id: idMatch[0] };
+  let pos = start + idMatch[0].length;
+
+  const shape = FLOWCHART_SHAPES.find(s => line.startsWith(s.open, pos));
+  // "A-->B": a '-' never opens a shape, and '>' only opens one right after the id
+  if (shape) {
+    const contentStart = pos + shape.open.length;
+    const text = readShapeText(line, contentStart, shape.close);
+    if (!text) return null;
+    ref.label = text.label;
+    ref.shape = shape.type;
+    pos = text.end;
+  }
+
+  const classMatch = line.slice(pos).match(/^:::([\w-]+)/);
+  if (classMatch) {
+    ref.className = classMatch[1];
+    pos += classMatch[0].length;
+  }
+
+  return { ref, end: pos };
+}
+
+function readShapeText(line: string, start: number, closers: string[]): { label: string; end: number } | null {
+  let pos = skipSpaces(line, start);
+  let label: string;
+
+  if (line[pos] === '"') {
+    const closeQuote = line.indexOf('"', pos + 1);
+    if (closeQuote < 0) return null;
+    label = line.slice(pos + 1, closeQuote);
+    pos = skipSpaces(line, closeQuote + 1);
+    const closer = closers.find(c => line.startsWith(c, pos));
+    if (!closer) return null;
+    return { label: decodeMermaidText(label), end: pos + closer.length };
+  }
+
+  const candidates = closers
+    .map(c => ({ c, index: line.indexOf(c, pos) }))
+    .filter(x => x.index >= 0)
+    .sort((a, b) => a.index - b.index);
+  if (candidates.length === 0) return null;
+
+  label = line.slice(pos, candidates[0].index).trim();
+  return { label: decodeMermaidText(label), end: candidates[0].index + candidates[0].c.length };
+}
+
+// --> --- -.-> -.- ==> === --o --x <--> with optional |label|
+const EDGE_PATTERN = /^<?(?:-{2,}|={2,}|-\.+-)[>ox]?/;
+// -- label --> / == label ==> / -. label .->
+const INLINE_LABEL_EDGE_PATTERN = /^<?(--|==|-\.)\s*(.+?)\s*(-{2,}[>ox]?|={2,}[>ox]?|\.+-[>ox]?)(?=\s|$|[\p{L}\p{N}_])/u;
+
+function parseEdge(line: string, start: number): { label?: string; end: number } | null {
+  const rest = line.slice(start);
+  const edge = rest.match(EDGE_PATTERN);
+
+  // A bare "--", "==" or "-." opens an inline label: "-- label -->"
+  const isBareOpener = edge && edge[0].replace('<', '').length === 2;
+  if (edge && !isBareOpener) {
+    const pos = skipSpaces(line, start + edge[0].length);
+    if (line[pos] === '|') {
+      // A quoted label may itself contain "|", as in |"a || b"|
+      const labelStart = skipSpaces(line, pos + 1);
+      const quoteEnd = line[labelStart] === '"' ? line.indexOf('"', labelStart + 1) : -1;
+      const close = line.indexOf('|', quoteEnd < 0 ? pos + 1 : quoteEnd + 1);
+      if (close < 0) return null;
+      const label = unquote(line.slice(pos + 1, close).trim());
+      return { label: label || undefined, end: close + 1 };
+    }
+    return { end: pos };
+  }
+
+  const inline = rest.match(INLINE_LABEL_EDGE_PATTERN);
+  if (inline) {
+    return { label: unquote(inline[2]), end: start + inline[0].length };
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────
+// State diagram
+// ─────────────────────────────────────────────────────────────
+
+interface StateScope {
+  id: string;
+  graph: ProcessGraph;
+  nodeMap: Map<string, ProcessNode>;
+}
+
+function parseStateDiagram(lines: string[], warnings: string[]): ProcessGraph {
+  const root: StateScope = { id: '', graph: { nodes: [], transitions: [] }, nodeMap: new Map() };
+  const stack: StateScope[] = [root];
+  const classAssignments = new Map<string, string>();
+  const allNodes = new Map<string, ProcessNode>();
+  let inNote = false;
+
+  const current = () => stack[stack.length - 1];
+
+  const ensureState = (scope: StateScope, id: string): ProcessNode => {
+    let node = scope.nodeMap.get(id);
+    if (!node) {
+      node = { id, type: 'task', name: id, position: { x: 0, y: 0 } };
+      scope.graph.nodes.push(node);
+      scope.nodeMap.set(id, node);
+      allNodes.set(id, node);
+    }
+    return node;
+  };
+
+  // [*] resolves to a start node on the left of an arrow, an end node on the right
+  const resolveRef = (scope: StateScope, raw: string, side: 'from' | 'to'): ProcessNode => {
+    const { id, className } = splitClass(raw);
+    if (id === '[*]') {
+      const pseudoId = `${scope.id ? `${scope.id}_` : ''}_${side === 'from' ? 'start' : 'end'}`;
+      const existing = scope.nodeMap.get(pseudoId);
+      if (existing) return existing;
+      const node = ensureState(scope, pseudoId);
+      node.type = side === 'from' ? 'start' : 'end';
+      node.name = side === 'from' ? 'Start' : 'End';
+      return node;
+    }
+    const node = ensureState(scope, id);
+    if (className) classAssignments.set(id, className);
+    return node;
+  };
+
+  for (const line of lines) {
+    if (inNote) {
+      if (/^end\s+note$/.test(line)) inNote = false;
+      continue;
+    }
+    if (/^note\s/.test(line)) {
+      // Single-line notes contain ':'; block notes run until "end note"
+      if (!line.includes(':')) inNote = true;
+      continue;
+    }
+    if (line === '--') continue; // Concurrent region separator
+    if (line === '}') {
+      if (stack.length > 1) stack.pop();
+      else warnings.push('Unmatched "}" in Mermaid state diagram');
+      continue;
+    }
+    if (/^direction\s/.test(line) || /^(accTitle|accDescr)/.test(line)) continue;
+    if (parseClassStatement(line, classAssignments)) continue;
+
+    // state "Long name" as A [{]
+    const aliasMatch = line.match(/^state\s+"([^"]*)"\s+as\s+([\w]+)\s*(\{)?$/);
+    // state A <<choice>> | state A [{]
+    const stateMatch = line.match(/^state\s+([\w]+)\s*(<<(\w+)>>)?\s*(\{)?$/);
+    if (aliasMatch || stateMatch) {
+      const id = aliasMatch ? aliasMatch[2] : stateMatch![1];
+      const node = ensureState(current(), id);
+      if (aliasMatch) node.name = decodeMermaidText(aliasMatch[1]);
+
+      const stereotype = stateMatch?.[3];
+      if (stereotype) applyStereotype(node, stereotype);
+
+      if (aliasMatch?.[3] || stateMatch?.[4]) {
+        node.type = 'subprocess';
+        node.children = node.children || { nodes: [], transitions: [] };
+        stack.push({ id, graph: node.children, nodeMap: new Map(node.children.nodes.map(n => [n.id, n])) });
+      }
+      continue;
+    }
+
+    // A --> B : label
+    const transMatch = line.match(/^(\S+)\s*-->\s*(\S+?)\s*(?::\s*(.*))?$/);
+    if (transMatch) {
+      const from = resolveRef(current(), transMatch[1], 'from');
+      const to = resolveRef(current(), transMatch[2], 'to');
+      current().graph.transitions.push({
+        id: generateId(),
+        from: from.id,
+        to: to.id,
+        ...splitGuard(transMatch[3]),
+      });
+      continue;
+    }
+
+    // A : description (first one names a bare state)
+    const descMatch = line.match(/^([\w]+)\s*:\s*(.+)$/);
+    if (descMatch) {
+      const node = ensureState(current(), descMatch[1]);
+      const text = decodeMermaidText(descMatch[2].trim());
+      if (node.name === node.id) {
+        node.name = text;
+      } else {
+        node.description = node.description ? `${node.description}\n${text}` : text;
+      }
+      continue;
+    }
+
+    // Bare state id
+    const bareMatch = line.match(/^([\w]+)(:::[\w-]+)?$/);
+    if (bareMatch) {
+      resolveRef(current(), line, 'from');
+      continue;
+    }
+
+    warnings.push(`Unrecognized Mermaid line: ${line}`);
+  }
+
+  if (stack.length > 1) {
+    warnings.push(`Unclosed composite state "${current().id}"`);
+  }
+
+  applyClassTypes(allNodes, classAssignments);
+
+  return root.graph;
+}
+
+function applyStereotype(node: ProcessNode, stereotype: string): void {
+  const gatewayKinds: Record<string, GatewayKind> = {
+    choice: 'exclusive',
+    fork: 'parallel',
+    join: 'parallel',
+  };
+  if (stereotype in gatewayKinds) {
+    node.type = 'gateway';
+    node.gatewayKind = gatewayKinds[stereotype];
+  } else if (stereotype === 'end') {
+    node.type = 'end';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Shared helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Handle `classDef name ...` and `class A,B name`. Returns true if consumed.
+ */
+function parseClassStatement(line: string, classAssignments: Map<string, string>): boolean {
+  if (/^classDef\s/.test(line)) return true;
+
+  const classMatch = line.match(/^class\s+([\p{L}\p{N}_,\s]+?)\s+([\w-]+)$/u);
+  if (classMatch) {
+    classMatch[1].split(',').map(id => id.trim()).filter(Boolean)
+      .forEach(id => classAssignments.set(id, classMatch[2]));
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Class names that match a node type (`class A gateway` or `class A gatewayNode`) set the type
+ */
+function applyClassTypes(nodeMap: Map<string, ProcessNode>, classAssignments: Map<string, string>): void {
+  classAssignments.forEach((className, id) => {
+    const node = nodeMap.get(id);
+    const type = className.replace(/Node$/, '');
+    if (node && (NODE_TYPES as string[]).includes(type)) {
+      node.type = type as ProcessNodeType;
+    }
+  });
+}
+
+function splitClass(raw: string): { id: string; className?: string } {
+  const [id, className] = raw.split(':::');
+  return { id, className };
+}
+
+/**
+ * UML transition label: "Approve [severity > 2]" -> label + condition
+ */
+function splitGuard(text: string | undefined): { label?: string; condition?: string } {
+  if (!text) return {};
+  const decoded = decodeMermaidText(unquote(text.trim())).trim();
+  const open = findGuardStart(decoded);
+  if (open >= 0) {
+    const condition = decoded.slice(open + 1, -1).trim();
+    if (condition) return { label: decoded.slice(0, open).trim() || undefined, condition };
+  }
+  return { label: decoded || undefined };
+}
+
+/**
+ * Index of the "[" matching a trailing "]", so guards may hold brackets
+ * of their own: "Escalate [severity in ['serious','critical']]"
+ */
+function findGuardStart(text: string): number {
+  if (!text.endsWith(']')) return -1;
+  let depth = 0;
+  for (let i = text.length - 1; i >= 0; i--) {
+    if (text[i] === ']') depth++;
+    else if (text[i] === '[' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Mermaid entity codes (#quot; #35;) and <br> line breaks
+ */
+function decodeMermaidText(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/#quot;/g, '"')
+    .replace(/#amp;/g, '&')
+    .replace(/#lt;/g, '<')
+    .replace(/#gt;/g, '>')
+    .replace(/#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)));
+}
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1)
+    : trimmed;
+}
+
+function splitOutsideQuotes(line: string, separator: string): string[] {
+  const parts: string[] = [];
+  let currentPart = '';
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(currentPart);
+      currentPart = '';
+    } else {
+      currentPart += char;
+    }
+  }
+  parts.push(currentPart);
+  return parts;
+}
+
+function skipSpaces(line: string, pos: number): number {
+  while (pos < line.length && /\s/.test(line[pos])) pos++;
+  return pos;
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
@@ -0,0 +1,580 @@
+/**
+ * PlantUML Workflow Parser
+ *
+ * Parses PlantUML (`@startuml ... @enduml`) activity and state diagrams
+ * into our BusinessProcess format.
+ *
+ * Activity diagrams (new syntax): `start`/`stop` map to start/end,
+ * `:action;` to tasks (`>`/`<` endings to send/receive tasks),
+ * `if`/`switch`/`while`/`repeat` to exclusive gateways, `fork` to
+ * parallel gateways and `|Lane|` swimlanes to assignee.
+ * State diagrams: `[*]` pseudo states map to start/end, composite states
+ * become subprocess nodes with an embedded graph, `<<choice>>`/`<<fork>>`
+ * become gateways, `event [guard]` labels fill the condition.
+ */
+
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessTransition,
+  ProcessGraph,
+  GatewayKind,
+  TaskKind,
+} from '@/types/module';
+import { toCode } from './workflow-codes';
+
+/**
+ * Parse PlantUML source to BusinessProcess format
+ */
+export function parsePlantUmlWorkflow(content: string, warnings: string[] = []): BusinessProcess {
+  const { title, lines } = preprocessPlantUml(content, warnings);
+  if (lines.length === 0) {
+    throw new Error('Empty PlantUML diagram');
+  }
+  if (lines.some(l => l.includes('(*)'))) {
+    throw new Error('Legacy PlantUML activity syntax ((*) --> ...) is not supported. Use start, :action; and stop.');
+  }
+
+  const graph = lines.some(isActivityStatement)
+    ? parseActivityDiagram(lines, warnings)
+    : parseStateDiagram(lines, warnings);
+
+  return {
+    id: generateId(),
+    name: title || 'PlantUML Workflow',
+    code: title ? toCode(title) : 'plantuml-workflow',
+    description: 'Imported from PlantUML diagram',
+    nodes: graph.nodes,
+    transitions: graph.transitions,
+  };
+}
+
+/**
+ * Take the first @startuml block; strip comments, notes, styling and
+ * preprocessor directives.
+ */
+function preprocessPlantUml(content: string, warnings: string[]): { title?: string; lines: string[] } {
+  const block = content.match(/@startuml([^\n]*)\n([\s\S]*?)(\n@enduml|$)/);
+  const body = (block ? block[2] : content).replace(/\/'[\s\S]*?'\//g, '');
+  const diagramName = block?.[1].trim().replace(/^["']|["']$/g, '');
+
+  let title = diagramName && !diagramName.startsWith('(') ? diagramName : undefined;
+  const lines: string[] = [];
+  let skipUntil: RegExp | null = null;
+
+  for (const raw of body.split('\n')) {
+    const line = raw.trim();
+    if (skipUntil) {
+      if (skipUntil.test(line)) skipUntil = null;
+      continue;
+    }
+    if (!line || line.startsWith("'")) continue;
+
+    if (/^title\s+/.test(line)) {
+      title = line.replace(/^title\s+/, '').trim();
+      continue;
+    }
+    if (line.startsWith('!')) {
+      if (/^!include/.test(line)) warnings.push(`Included file not loaded: ${line}`);
+      continue;
+    }
+
+    // Multi-line blocks without workflow meaning
+    if (/^skinparam\b.*\{$/.test(line) || /^<style>/.test(line)) {
+      skipUntil = /^(\}|<\/style>)$/;
+      continue;
+    }
+    if (/^(floating\s+)?note\b/.test(line) && !line.includes(':') && !/^note\s+"/.test(line)) {
+      skipUntil = /^end\s*note$/;
+      continue;
+    }
+    if (/^(legend|header|footer|caption)\b/.test(line) && !/^(header|footer|caption)\s+\S/.test(line)) {
+      skipUntil = /^end\s*(legend|header|footer|caption)$/;
+      continue;
+    }
+    if (/^title$/.test(line)) {
+      skipUntil = /^end\s*title$/;
+      continue;
+    }
+
+    if (/^((floating\s+)?note|skinparam|hide|show|scale|header|footer|caption|legend)\b/.test(line)) continue;
+    if (/^(left to right|top to bottom) direction$/.test(line)) continue;
+
+    lines.push(line);
+  }
+
+  return { title, lines };
+}
+
+function isActivityStatement(line: string): boolean {
+  return /^(start|stop)$/.test(line)
+    || line.startsWith(':')
+    || /^(if|while|switch)\s*\(/.test(line)
+    || /^(repeat|fork)$/.test(line)
+    || /^\|.+\|$/.test(line);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Activity diagram
+// ─────────────────────────────────────────────────────────────
+
+// Where the next node connects from
+interface ActivityTail {
+  id: string;
+  label?: string;
+}
+
+interface ActivityBlock {
+  kind: 'if' | 'switch' | 'while' | 'repeat' | 'fork';
+  gatewayId: string;
+  ends: ActivityTail[];
+  hasElse?: boolean;
+  backward?: string;
+}
+
+// Action terminators: `:text;` plus the SDL shapes
+const ACTIVITY_TERMINATORS = [';', '|', '<', '>', '/', '\\', ']', '}'];
+
+const ACTIVITY_TASK_KINDS: Record<string, TaskKind> = {
+  '>': 'send',
+  '<': 'receive',
+};
+
+function parseActivityDiagram(lines: string[], warnings: string[]): ProcessGraph {
+  const nodes: ProcessNode[] = [];
+  const transitions: ProcessTransition[] = [];
+  const blocks: ActivityBlock[] = [];
+  let tails: ActivityTail[] = [];
+  let pendingLabel: string | undefined;
+  let lane: string | undefined;
+  let nodeCount = 0;
+
+  const connect = (from: ActivityTail, to: string) => {
+    transitions.push({
+      id: `transition-${transitions.length}`,
+      from: from.id,
+      to,
+      label: from.label ?? pendingLabel,
+    });
+  };
+
+  const addNode = (node: Omit<ProcessNode, 'id' | 'position'>): ProcessNode => {
+    const created: ProcessNode = {
+      id: `node_${++nodeCount}`,
+      position: { x: 0, y: 0 },
+      assignee: lane,
+      ...node,
+    };
+    nodes.push(created);
+    tails.forEach(tail => connect(tail, created.id));
+    pendingLabel = undefined;
+    tails = [{ id: created.id }];
+    return created;
+  };
+
+  const addAction = (line: string) => {
+    const terminator = line[line.length - 1];
+    addNode({
+      type: 'task',
+      name: decodePlantUmlText(line.slice(1, -1)),
+      taskKind: ACTIVITY_TASK_KINDS[terminator],
+    });
+  };
+
+  const currentBlock = (kinds: ActivityBlock['kind'][], statement: string): ActivityBlock | undefined => {
+    const block = blocks[blocks.length - 1];
+    if (!block || !kinds.includes(block.kind)) {
+      warnings.push(`"${statement}" without a matching ${kinds.join('/')}`);
+      return undefined;
+    }
+    return block;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+
+    // :multi-line
+    //  action;
+    if (line.startsWith(':')) {
+      while (!ACTIVITY_TERMINATORS.includes(line[line.length - 1]) && i + 1 < lines.length) {
+        line += ' ' + lines[++i];
+      }
+      addAction(line);
+      continue;
+    }
+
+    if (line === 'start') {
+      addNode({ type: 'start', name: 'Start' });
+      continue;
+    }
+    if (line === 'stop' || line === 'end') {
+      addNode({ type: 'end', name: 'End' });
+      tails = [];
+      continue;
+    }
+    if (line === 'kill') {
+      addNode({ type: 'end', name: 'Terminate', eventKind: 'terminate' });
+      tails = [];
+      continue;
+    }
+    if (line === 'detach') {
+      tails = [];
+      continue;
+    }
+
+    // -> label;
+    const arrowMatch = line.match(/^-+(?:\[[^\]]*\])?-*>\s*(.*?);?$/);
+    if (arrowMatch) {
+      pendingLabel = decodePlantUmlText(arrowMatch[1]) || undefined;
+      continue;
+    }
+
+    // |Lane| or |#color|Lane|
+    const laneMatch = line.match(/^\|(?:#?[\w]+\|)?([^|]+)\|$/);
+    if (laneMatch) {
+      lane = laneMatch[1].trim();
+      continue;
+    }
+
+    // if (question) then (yes)
+    const ifMatch = line.match(/^if\s*\((.*)\)\s*(?:is\s*\((.*?)\)\s*)?then\s*(?:\((.*?)\))?$/);
+    if (ifMatch) {
+      const gateway = addNode({ type: 'gateway', name: decodePlantUmlText(ifMatch[1]), gatewayKind: 'exclusive' });
+      blocks.push({ kind: 'if', gatewayId: gateway.id, ends: [] });
+      tails = [{ id: gateway.id, label: ifMatch[3] || ifMatch[2] || undefined }];
+      continue;
+    }
+
+    // elseif chains a new decision onto the previous one's "else" path
+    const elseIfMatch = line.match(/^else\s*if\s*\((.*)\)\s*(?:is\s*\((.*?)\)\s*)?then\s*(?:\((.*?)\))?$/);
+    if (elseIfMatch) {
+      const block = currentBlock(['if'], line);
+      if (!block) continue;
+      block.ends.push(...tails);
+      tails = [{ id: block.gatewayId }];
+      const gateway = addNode({ type: 'gateway', name: decodePlantUmlText(elseIfMatch[1]), gatewayKind: 'exclusive' });
+      block.gatewayId = gateway.id;
+      tails = [{ id: gateway.id, label: elseIfMatch[3] || elseIfMatch[2] || undefined }];
+      continue;
+    }
+
+    const elseMatch = line.match(/^else\s*(?:\((.*?)\))?$/);
+    if (elseMatch) {
+      const block = currentBlock(['if'], line);
+      if (!block) continue;
+      block.ends.push(...tails);
+      block.hasElse = true;
+      tails = [{ id: block.gatewayId, label: elseMatch[1] || undefined }];
+      continue;
+    }
+
+    if (/^end\s*if$/.test(line)) {
+      const block = currentBlock(['if'], line);
+      if (!block) continue;
+      blocks.pop();
+      tails = [...block.ends, ...tails, ...(block.hasElse ? [] : [{ id: block.gatewayId }])];
+      continue;
+    }
+
+    // switch (question) / case (answer) / endswitch
+    const switchMatch = line.match(/^switch\s*\((.*)\)$/);
+    if (switchMatch) {
+      const gateway = addNode({ type: 'gateway', name: decodePlantUmlText(switchMatch[1]), gatewayKind: 'exclusive' });
+      blocks.push({ kind: 'switch', gatewayId: gateway.id, ends: [] });
+      tails = [];
+      continue;
+    }
+
+    const caseMatch = line.match(/^case\s*\((.*)\)$/);
+    if (caseMatch) {
+      const block = currentBlock(['switch'], line);
+      if (!block) continue;
+      block.ends.push(...tails);
+      tails = [{ id: block.gatewayId, label: caseMatch[1] || undefined }];
+      continue;
+    }
+
+    if (/^end\s*switch$/.test(line)) {
+      const block = currentBlock(['switch'], line);
+      if (!block) continue;
+      blocks.pop();
+      tails = [...block.ends, ...tails];
+      continue;
+    }
+
+    // while (question) is (yes) ... endwhile (no)
+    const whileMatch = line.match(/^while\s*\((.*?)\)\s*(?:is\s*\((.*?)\))?$/);
+    if (whileMatch) {
+      const gateway = addNode({ type: 'gateway', name: decodePlantUmlText(whileMatch[1]), gatewayKind: 'exclusive' });
+      blocks.push({ kind: 'while', gatewayId: gateway.id, ends: [] });
+      tails = [{ id: gateway.id, label: whileMatch[2] || undefined }];
+      continue;
+    }
+
+    const endWhileMatch = line.match(/^end\s*while\s*(?:\((.*?)\))?$/);
+    if (endWhileMatch) {
+      const block = currentBlock(['while'], line);
+      if (!block) continue;
+      blocks.pop();
+      tails.forEach(tail => connect(tail, block.gatewayId));
+      pendingLabel = undefined;
+      tails = [{ id: block.gatewayId, label: endWhileMatch[1] || undefined }];
+      continue;
+    }
+
+    // repeat [:action;] ... [backward :action;] repeat while (question) is (yes) not (no)
+    const repeatMatch = line.match(/^repeat(?:\s+(:.*))?$/);
+    if (repeatMatch) {
+      const gateway = addNode({ type: 'gateway', name: 'Repeat', gatewayKind: 'exclusive' });
+      blocks.push({ kind: 'repeat', gatewayId: gateway.id, ends: [] });
+      if (repeatMatch[1]) addAction(repeatMatch[1]);
+      continue;
+    }
+
+    const backwardMatch = line.match(/^backward\s*:(.*)[;|<>/\\\]}]$/);
+    if (backwardMatch) {
+      const block = currentBlock(['repeat'], line);
+      if (block) block.backward = decodePlantUmlText(backwardMatch[1]);
+      continue;
+    }
+
+    const repeatWhileMatch = line.match(/^repeat\s*while\s*(?:\((.*?)\))?\s*(?:is\s*\((.*?)\))?\s*(?:not\s*\((.*?)\))?$/);
+    if (repeatWhileMatch) {
+      const block = currentBlock(['repeat'], line);
+      if (!block) continue;
+      blocks.pop();
+      const decision = addNode({
+        type: 'gateway',
+        name: decodePlantUmlText(repeatWhileMatch[1] || '') || 'Repeat?',
+        gatewayKind: 'exclusive',
+      });
+      tails = [{ id: decision.id, label: repeatWhileMatch[2] || undefined }];
+      if (block.backward) addNode({ type: 'task', name: block.backward });
+      tails.forEach(tail => connect(tail, block.gatewayId));
+      pendingLabel = undefined;
+      tails = [{ id: decision.id, label: repeatWhileMatch[3] || undefined }];
+      continue;
+    }
+
+    // fork / split ... fork again ... end fork | end merge | end split
+    const forkMatch = line.match(/^(fork|split)$/);
+    if (forkMatch) {
+      const gateway = addNode({ type: 'gateway', name: forkMatch[1] === 'fork' ? 'Fork' : 'Split', gatewayKind: 'parallel' });
+      blocks.push({ kind: 'fork', gatewayId: gateway.id, ends: [] });
+      continue;
+    }
+
+    if (/^(fork|split)\s+again$/.test(line)) {
+      const block = currentBlock(['fork'], line);
+      if (!block) continue;
+      block.ends.push(...tails);
+      tails = [{ id: block.gatewayId }];
+      continue;
+    }
+
+    const endForkMatch = line.match(/^end\s*(fork|merge|split)\b/);
+    if (endForkMatch) {
+      const block = currentBlock(['fork'], line);
+      if (!block) continue;
+      blocks.pop();
+      tails = [...block.ends, ...tails];
+      if (endForkMatch[1] === 'fork') {
+        addNode({ type: 'gateway', name: 'Join', gatewayKind: 'parallel' });
+      }
+      continue;
+    }
+
+    // Grouping has no workflow meaning
+    if (/^(partition|group|package|rectangle|card)\b/.test(line) || line === '}' || /^end\s*group$/.test(line)) continue;
+
+    if (/^(label|goto)\s/.test(line) || /^\(\w+\)$/.test(line)) {
+      warnings.push(`Connector not supported: ${line}`);
+      continue;
+    }
+
+    warnings.push(`Unrecognized PlantUML line: ${line}`);
+  }
+
+  if (blocks.length > 0) {
+    warnings.push(`Unclosed ${blocks.map(b => b.kind).join(', ')} block(s) in PlantUML activity diagram`);
+  }
+
+  return { nodes, transitions };
+}
+
+// ─────────────────────────────────────────────────────────────
+// State diagram
+// ─────────────────────────────────────────────────────────────
+
+interface StateScope {
+  id: string;
+  graph: ProcessGraph;
+  nodeMap: Map<string, ProcessNode>;
+}
+
+// [*], [H], [H*], "Quoted name" or a plain id
+const STATE_REF = String.raw`(\[\*\]|\[H\*?\]|"[^"]+"|[\w.]+(?:\[H\*?\])?)`;
+const FORWARD_TRANSITION = new RegExp(String.raw`^${STATE_REF}\s*-[^\s>]*>\s*${STATE_REF}\s*(?::\s*(.*))?$`);
+const BACKWARD_TRANSITION = new RegExp(String.raw`^${STATE_REF}\s*<-\S*\s*${STATE_REF}\s*(?::\s*(.*))?$`);
+
+function parseStateDiagram(lines: string[], warnings: string[]): ProcessGraph {
+  const root: StateScope = { id: '', graph: { nodes: [], transitions: [] }, nodeMap: new Map() };
+  const stack: StateScope[] = [root];
+  let regionsWarned = false;
+
+  const current = () => stack[stack.length - 1];
+
+  const ensureState = (scope: StateScope, id: string, name = id): ProcessNode => {
+    let node = scope.nodeMap.get(id);
+    if (!node) {
+      node = { id, type: 'task', name, position: { x: 0, y: 0 } };
+      scope.graph.nodes.push(node);
+      scope.nodeMap.set(id, node);
+    }
+    return node;
+  };
+
+  // [*] resolves to a start node on the left of an arrow, an end node on the right
+  const resolveRef = (scope: StateScope, raw: string, side: 'from' | 'to'): ProcessNode | null => {
+    if (raw === '[*]') {
+      const pseudoId = `${scope.id ? `${scope.id}_` : ''}_${side === 'from' ? 'start' : 'end'}`;
+      const existing = scope.nodeMap.get(pseudoId);
+      if (existing) return existing;
+      const node = ensureState(scope, pseudoId);
+      node.type = side === 'from' ? 'start' : 'end';
+      node.name = side === 'from' ? 'Start' : 'End';
+      return node;
+    }
+    if (/\[H\*?\]$/.test(raw)) {
+      warnings.push(`History pseudo state not supported: ${raw}`);
+      return null;
+    }
+    const name = raw.replace(/^"|"$/g, '');
+    return ensureState(scope, name, name);
+  };
+
+  for (const line of lines) {
+    if (line === '--' || line === '||') {
+      if (!regionsWarned) {
+        warnings.push('Concurrent regions are drawn as one graph inside their composite state');
+        regionsWarned = true;
+      }
+      continue;
+    }
+    if (line === '}') {
+      if (stack.length > 1) stack.pop();
+      else warnings.push('Unmatched "}" in PlantUML state diagram');
+      continue;
+    }
+
+    // state "Long name" as A <<stereo>> #color : description {
+    // state A <<stereo>> #color : description {
+    const stateMatch = line.match(/^state\s+(?:"([^"]*)"\s+as\s+([\w.]+)|([\w.]+)|"([^"]*)")\s*(?:<<(\w+\*?)>>)?\s*(?:#\S+)?\s*(?::\s*(.*?))?\s*(\{)?$/);
+    if (stateMatch) {
+      const id = stateMatch[2] || stateMatch[3] || stateMatch[4];
+      const node = ensureState(current(), id);
+      if (stateMatch[1]) node.name = decodePlantUmlText(stateMatch[1]);
+      if (stateMatch[5]) applyStereotype(node, stateMatch[5], warnings);
+      if (stateMatch[6]) appendDescription(node, stateMatch[6]);
+
+      if (stateMatch[7]) {
+        node.type = 'subprocess';
+        node.children = node.children || { nodes: [], transitions: [] };
+        stack.push({ id, graph: node.children, nodeMap: new Map(node.children.nodes.map(n => [n.id, n])) });
+      }
+      continue;
+    }
+
+    const forward = line.match(FORWARD_TRANSITION);
+    const backward = forward ? null : line.match(BACKWARD_TRANSITION);
+    const arrow = forward || backward;
+    if (arrow) {
+      // B <-- A reads as A --> B
+      const [fromRaw, toRaw] = forward ? [arrow[1], arrow[2]] : [arrow[2], arrow[1]];
+      const from = resolveRef(current(), fromRaw, 'from');
+      const to = resolveRef(current(), toRaw, 'to');
+      if (from && to) {
+        current().graph.transitions.push({
+          id: generateId(),
+          from: from.id,
+          to: to.id,
+          ...splitGuard(arrow[3]),
+        });
+      }
+      continue;
+    }
+
+    // A : description
+    const descMatch = line.match(/^("[^"]+"|[\w.]+)\s*:\s*(.+)$/);
+    if (descMatch) {
+      const node = resolveRef(current(), descMatch[1], 'from');
+      if (node) appendDescription(node, descMatch[2]);
+      continue;
+    }
+
+    if (/^[\w.]+$/.test(line)) {
+      ensureState(current(), line);
+      continue;
+    }
+
+    warnings.push(`Unrecognized PlantUML line: ${line}`);
+  }
+
+  if (stack.length > 1) {
+    warnings.push(`Unclosed composite state "${current().id}"`);
+  }
+
+  return root.graph;
+}
+
+function applyStereotype(node: ProcessNode, stereotype: string, warnings: string[]): void {
+  const gatewayKinds: Record<string, GatewayKind> = {
+    choice: 'exclusive',
+    fork: 'parallel',
+    join: 'parallel',
+  };
+  if (stereotype in gatewayKinds) {
+    node.type = 'gateway';
+    node.gatewayKind = gatewayKinds[stereotype];
+  } else if (stereotype === 'start' || stereotype === 'end') {
+    node.type = stereotype;
+  } else if (['entryPoint', 'exitPoint', 'inputPin', 'outputPin', 'expansionInput', 'expansionOutput'].includes(stereotype)) {
+    node.type = 'event';
+  } else if (stereotype === 'sdlreceive') {
+    node.taskKind = 'receive';
+  } else if (stereotype.startsWith('history')) {
+    warnings.push(`History state "${node.id}" imported as a plain state`);
+  }
+}
+
+function appendDescription(node: ProcessNode, text: string): void {
+  const decoded = decodePlantUmlText(text);
+  node.description = node.description ? `${node.description}\n${decoded}` : decoded;
+}
+
+/**
+ * UML transition label: "submit [amount > 100] / notify" -> label + condition
+ */
+function splitGuard(text: string | undefined): { label?: string; condition?: string } {
+  if (!text) return {};
+  const decoded = decodePlantUmlText(text);
+  const guard = decoded.match(/\[([^\]]+)\]/);
+  const label = (guard ? decoded.replace(guard[0], ' ') : decoded).replace(/\s+/g, ' ').trim();
+  return { label: label || undefined, condition: guard ? guard[1].trim() : undefined };
+}
+
+/**
+ * \n line breaks and the most common Creole markup
+ */
+function decodePlantUmlText(text: string): string {
+  return text
+    .replace(/\\n/g, ' ')
+    .replace(/\*\*(.*?)\*\*|\/\/(.*?)\/\/|__(.*?)__/g, (_, a, b, c) => a ?? b ?? c)
+    .replace(/<\/?\w+[^>]*>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
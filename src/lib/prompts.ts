@@ -5,7 +5,8 @@
  * from natural language descriptions.
  */
 
-import type { Module } from '@/types/module';
+import type { Module, BusinessProcess } from '@/types/module';
+import { workflowToContext } from './workflow-normalizer';
 
 export const SYSTEM_PROMPT = `You are a Module Builder assistant for HSE (Health, Safety, Environment) systems.
 
@@ -13,6 +14,7 @@ Your role is to help users create module artifacts through conversation:
 - **Dictionaries**: Dropdown options, status values, category lists
 - **Forms**: Field definitions with validation
 - **Business Processes**: Workflow state machines
+- **Roles**: Who works each state and who may fire each transition
 
 ## Response Format
 
@@ -80,6 +82,20 @@ Always respond with:
 }
 \`\`\`
 
+### Role
+\`\`\`json
+{
+  "type": "role",
+  "data": {
+    "id": "uuid",
+    "code": "snake_case_code",
+    "name": "Human Readable Name",
+    "description": "Optional description",
+    "inherits": ["codes of roles whose permissions this role also has"]
+  }
+}
+\`\`\`
+
 ### Business Process (IMPORTANT: Include positions!)
 \`\`\`json
 {
@@ -101,6 +117,8 @@ Always respond with:
         "type": "task",
         "name": "Task Name",
         "formRef": "form_code",
+        "assignee": "role_code",
+        "sla": { "due": "PT24H", "escalateTo": "node_003", "notify": "hse_manager" },
         "position": { "x": 400, "y": 150 }
       },
       {
@@ -116,6 +134,14 @@ Always respond with:
         "from": "node_001",
         "to": "node_002",
         "label": "Begin"
+      },
+      {
+        "id": "trans_002",
+        "from": "node_002",
+        "to": "node_003",
+        "label": "Escalate",
+        "condition": "severity in ['serious', 'critical'] && injuries > 0",
+        "roles": ["hse_manager"]
       }
     ]
   }
@@ -126,6 +152,26 @@ Always respond with:
 Layout nodes top-to-bottom, with y increasing by ~100 per level. Center nodes at x=400.
 For branching, offset x by ±150 for parallel paths.
 
+**Transition conditions**: Use "condition" for guarded branches (e.g. out of a gateway). Conditions are
+guard expressions over the fields of the form on the task the transition leaves (or the task before the gateway):
+- Field names as defined in the form: \`injuries\`, \`severity\`
+- Literals: numbers, 'strings', true, false, null, lists ['a', 'b']
+- Operators: == != < <= > >= in && || ! and parentheses
+- Compare select fields with their option values; compare dates with 'YYYY-MM-DD' strings
+Leave the default branch without a condition.
+
+**Deadlines and timers**: Durations are ISO 8601 ("PT24H" = 24 hours, "P2D" = 2 days, "P1W" = 1 week).
+- "must start/complete within 24 hours" → \`"sla": { "due": "PT24H" }\` on the state that must be left in time
+- "escalate to X / notify the manager if overdue" → add \`"escalateTo": "<node id>"\` and/or \`"notify": "<role>"\` to the sla
+- "automatically close after 30 days", "remind after 2 days" → a transition with \`"timer": { "type": "duration", "value": "P30D" }\`
+- Timer events wait on \`"timer"\` too: \`{ "type": "event", "eventKind": "timer", "timer": { "type": "duration", "value": "PT1H" } }\`
+  (timer types: "duration", "date" for a fixed ISO date-time, "cycle" for repeats like "R3/PT1H")
+
+**Roles and permissions**: Refer to roles by code, never by name.
+- "assignee" on a node is the role that works the state; by default that role fires the transitions leaving it
+- "roles" on a transition lists who may fire it instead, e.g. only "hse_manager" may "Approve" from "Under Review"
+- A role with "inherits" may do everything the inherited roles may; generate any missing role artifacts alongside the process
+
 ## Guidelines
 
 1. **Generate readable IDs** - Use format like "dict_001", "field_001", "node_001"
@@ -177,6 +223,13 @@ export function generateVaultContext(module: Module | null): string {
     sections.push('### Forms Available:');
     module.forms.forEach(form => {
       sections.push(`- **${form.name}** (code: \`${form.code}\`): ${form.fields.length} fields`);
+      if (form.fields.length > 0) {
+        const fields = form.fields.map(f => {
+          const options = f.options?.length ? `: ${f.options.map(o => o.value).join('|')}` : '';
+          return `\`${f.name}\` (${f.type}${options})`;
+        });
+        sections.push(`  Fields: ${fields.join(', ')}`);
+      }
     });
     sections.push('');
   }
@@ -190,16 +243,75 @@ export function generateVaultContext(module: Module | null): string {
     sections.push('');
   }
 
-  if (module.dictionaries.length === 0 && module.forms.length === 0 && module.processes.length === 0) {
+  // Roles
+  if (module.roles.length > 0) {
+    sections.push('### Roles Available:');
+    module.roles.forEach(role => {
+      const inherits = role.inherits?.length ? `, inherits ${role.inherits.map(c => `\`${c}\``).join(', ')}` : '';
+      sections.push(`- **${role.name}** (code: \`${role.code}\`${inherits})${role.description ? `: ${role.description}` : ''}`);
+    });
+    sections.push('');
+  }
+
+  if (module.dictionaries.length === 0 && module.forms.length === 0 && module.processes.length === 0 && module.roles.length === 0) {
     sections.push('_Vault is empty. Generated artifacts will be the first ones._');
   }
 
   sections.push('\nWhen creating forms, use `dictionaryRef` to link select fields to existing dictionaries by their code.');
   sections.push('When creating workflows, use `formRef` to link task nodes to existing forms by their code.');
+  sections.push('Write transition conditions against the fields of those forms.');
+  sections.push('Use the codes of existing roles for node `assignee` and transition `roles`.');
 
   return sections.join('\n');
 }
 
+/**
+ * Active workflow context, with the mutation protocol for editing it
+ */
+export function generateWorkflowContext(workflow: BusinessProcess | null): string {
+  if (!workflow) return '';
+
+  return `
+
+## Active Workflow: ${workflow.name} (code: \`${workflow.code}\`)
+
+The user has this workflow open in the editor:
+\`\`\`
+${workflowToContext(workflow)}
+\`\`\`
+
+To change this workflow, do not generate a new process. Return one batch of mutations instead:
+\`\`\`json
+{
+  "type": "mutations",
+  "data": {
+    "workflow": "${workflow.code}",
+    "summary": "Add Manager Review between Report and Investigate",
+    "mutations": [
+      { "type": "removeTransition", "payload": { "id": "trans_002" } },
+      { "type": "addNode", "payload": { "id": "node_010", "name": "Manager Review", "type": "task", "assignee": "manager" } },
+      { "type": "addTransition", "payload": { "id": "trans_010", "from": "node_002", "to": "node_010", "label": "Submit" } },
+      { "type": "addTransition", "payload": { "id": "trans_011", "from": "node_010", "to": "node_003", "label": "Approve" } }
+    ]
+  }
+}
+\`\`\`
+
+Mutation types:
+- addNode: { id, name, type, ...other node fields } (leave out position; new nodes are placed next to their neighbours)
+- removeNode: { id } (its transitions are removed with it)
+- updateNode: { id, ...fields to change }
+- moveNode: { id, position: { x, y } }
+- reorder: { target: "node" | "transition", id, index } (transition order is the order of actions out of a state)
+- addTransition: { id, from, to, label?, condition?, roles? }
+- removeTransition: { id }
+- updateTransition: { id, ...fields to change } (from and to reconnect it)
+
+Refer to existing nodes and transitions by the ids listed above; there can be several transitions between the same two nodes, so always address transitions by id. Give new elements ids that are not taken.
+Mutations that refer to missing ids or reuse a taken id are rejected, and the user sees why.
+The user reviews the batch as a diff before it is applied, so keep the summary short and specific.`;
+}
+
 export const ARTIFACT_EXTRACTION_PROMPT = `Extract any JSON artifacts from the assistant's response.
-Look for code blocks containing artifact definitions with "type": "dictionary", "type": "form", or "type": "process".
+Look for code blocks containing artifact definitions with "type": "dictionary", "type": "form", "type": "process", or "type": "role".
 Return an array of all found artifacts.`;
@@ -0,0 +1,271 @@
+/**
+ * SCXML Workflow Parser
+ *
+ * Parses W3C SCXML state charts into our BusinessProcess format.
+ *
+ * `<state>` maps to task nodes, `<final>` to end nodes, compound states
+ * and `<parallel>` to subprocess nodes with an embedded graph. The initial
+ * state of each level becomes the start node; a compound initial state is
+ * entered from a synthetic start node instead. `<transition>` keeps its
+ * event as label/trigger and `cond` as condition. State ids become node
+ * ids; names come from the wf:name attribute our exporter writes.
+ */
+
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessGraph,
+  ProcessAction,
+  ProcessVariable,
+} from '@/types/module';
+import { WORKFLOW_NS } from './workflow-serializer';
+import { toCode } from './workflow-codes';
+
+const SCXML_NS = 'http://www.w3.org/2005/07/scxml';
+const STATE_ELEMENTS = ['state', 'parallel', 'final'];
+
+interface RawTransition {
+  source: string;
+  targets: string[];
+  event?: string;
+  cond?: string;
+}
+
+interface ParseContext {
+  graphs: Map<string, ProcessGraph>; // container id ('' = root) -> graph
+  parents: Map<string, string>; // state id -> container id
+  transitions: RawTransition[];
+  warnings: string[];
+}
+
+/**
+ * Parse SCXML to BusinessProcess format
+ */
+export function parseScxmlWorkflow(content: string, warnings: string[] = []): BusinessProcess {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(content, 'text/xml');
+
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    throw new Error('Invalid SCXML: ' + parseError.textContent);
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== 'scxml') {
+    throw new Error('No <scxml> root element found');
+  }
+
+  const ctx: ParseContext = {
+    graphs: new Map(),
+    parents: new Map(),
+    transitions: [],
+    warnings,
+  };
+
+  const graph = parseScxmlContainer(root, '', ctx);
+  resolveTransitions(ctx);
+
+  const name = root.getAttribute('name');
+  const variables = extractVariables(doc);
+
+  return {
+    id: generateId(),
+    name: name || 'SCXML Workflow',
+    code: name ? toCode(name) : 'scxml-workflow',
+    description: 'Imported from SCXML state chart',
+    nodes: graph.nodes,
+    transitions: graph.transitions,
+    variables: variables.length > 0 ? variables : undefined,
+  };
+}
+
+/**
+ * Parse the child states of <scxml>, a compound <state> or a <parallel>.
+ * Transitions are only collected here; they are placed once every state
+ * is known, since targets may live anywhere in the document.
+ */
+function parseScxmlContainer(container: Element, containerId: string, ctx: ParseContext): ProcessGraph {
+  const graph: ProcessGraph = { nodes: [], transitions: [] };
+  ctx.graphs.set(containerId, graph);
+
+  childElements(container).forEach(el => {
+    if (el.localName === 'history') {
+      ctx.warnings.push(`History state "${el.getAttribute('id') || ''}" is not supported and was skipped`);
+      return;
+    }
+    if (!STATE_ELEMENTS.includes(el.localName)) return;
+
+    const id = el.getAttribute('id') || generateId();
+    ctx.parents.set(id, containerId);
+
+    const isCompound = el.localName === 'parallel' || childElements(el).some(c => STATE_ELEMENTS.includes(c.localName));
+    const ownTransitions = childElements(el).filter(c => c.localName === 'transition');
+    const invoke = childElements(el).find(c => c.localName === 'invoke');
+
+    const node: ProcessNode = {
+      id,
+      type: el.localName === 'final' ? 'end' : 'task',
+      name: el.getAttributeNS(WORKFLOW_NS, 'name') || id,
+      position: { x: 0, y: 0 },
+      entryActions: extractActions(el, 'onentry'),
+      exitActions: extractActions(el, 'onexit'),
+    };
+
+    if (isCompound) {
+      node.type = 'subprocess';
+      node.children = parseScxmlContainer(el, id, ctx);
+      if (el.localName === 'parallel') node.concurrent = true;
+    } else if (invoke) {
+      node.type = 'subprocess';
+      node.calledProcess = invoke.getAttribute('src') || invoke.getAttribute('type') || undefined;
+    } else if (node.type === 'task' && ownTransitions.length > 1 && ownTransitions.every(t => !t.getAttribute('event'))) {
+      // Only eventless transitions: a choice point
+      node.type = 'gateway';
+    }
+
+    ownTransitions.forEach(t => {
+      const targets = (t.getAttribute('target') || '').split(/\s+/).filter(Boolean);
+      if (targets.length === 0) {
+        ctx.warnings.push(`Targetless transition on "${id}" was skipped`);
+        return;
+      }
+      ctx.transitions.push({
+        source: id,
+        targets,
+        event: t.getAttribute('event') || undefined,
+        cond: t.getAttribute('cond') || undefined,
+      });
+    });
+
+    graph.nodes.push(node);
+  });
+
+  // Parallel regions are all active at once - no initial state
+  if (container.localName !== 'parallel') {
+    markInitialState(container, containerId, graph);
+  }
+
+  return graph;
+}
+
+/**
+ * Resolve the initial state of a level: the `initial` attribute, an
+ * <initial> element, or else the first child state (SCXML default).
+ */
+function markInitialState(container: Element, containerId: string, graph: ProcessGraph): void {
+  const initialEl = childElements(container).find(el => el.localName === 'initial');
+  const initialTransition = initialEl && childElements(initialEl).find(el => el.localName === 'transition');
+  const initialId = (container.getAttribute('initial') || initialTransition?.getAttribute('target') || '')
+    .split(/\s+/)
+    .filter(Boolean)[0];
+
+  const initial = graph.nodes.find(n => n.id === initialId) || graph.nodes[0];
+  if (!initial) return;
+
+  if (initial.type === 'task' || initial.type === 'gateway') {
+    initial.type = 'start';
+    return;
+  }
+
+  const startId = `${containerId || 'scxml'}__initial`;
+  graph.nodes.unshift({ id: startId, type: 'start', name: 'Start', position: { x: 0, y: 0 } });
+  graph.transitions.unshift({ id: generateId(), from: startId, to: initial.id });
+}
+
+/**
+ * Place each transition in the graph that holds both ends. Transitions
+ * crossing compound state boundaries are attached to the outermost
+ * ancestors that share a graph.
+ */
+function resolveTransitions(ctx: ParseContext): void {
+  ctx.transitions.forEach(raw => {
+    raw.targets.forEach(target => {
+      if (!ctx.parents.has(target)) {
+        ctx.warnings.push(`Transition from "${raw.source}" references unknown state "${target}"`);
+        return;
+      }
+
+      const sourcePath = ancestorPath(raw.source, ctx);
+      const targetPath = ancestorPath(target, ctx);
+      const containerId = sourcePath.map(s => ctx.parents.get(s)!).find(c => targetPath.some(t => ctx.parents.get(t) === c)) ?? '';
+      const from = sourcePath.find(s => ctx.parents.get(s) === containerId)!;
+      const to = targetPath.find(t => ctx.parents.get(t) === containerId)!;
+
+      if (from !== raw.source || to !== target) {
+        ctx.warnings.push(`Transition "${raw.source}" -> "${target}" crosses compound states; drawn as "${from}" -> "${to}"`);
+      }
+
+      ctx.graphs.get(containerId)!.transitions.push({
+        id: generateId(),
+        from,
+        to,
+        label: raw.event,
+        condition: raw.cond,
+        trigger: raw.event,
+      });
+    });
+  });
+}
+
+/**
+ * State id followed by the ids of its enclosing compound states
+ */
+function ancestorPath(id: string, ctx: ParseContext): string[] {
+  const path = [id];
+  let parent = ctx.parents.get(id);
+  while (parent) {
+    path.push(parent);
+    parent = ctx.parents.get(parent);
+  }
+  return path;
+}
+
+/**
+ * Extract executable content of <onentry>/<onexit>.
+ * Nested content of <if>/<foreach> is not kept.
+ */
+function extractActions(stateEl: Element, localName: string): ProcessAction[] | undefined {
+  const actions = childElements(stateEl)
+    .filter(el => el.localName === localName)
+    .flatMap(childElements)
+    .map(toAction);
+  return actions.length > 0 ? actions : undefined;
+}
+
+/**
+ * Extract <datamodel> entries
+ */
+function extractVariables(doc: Document): ProcessVariable[] {
+  return Array.from(doc.getElementsByTagName('*'))
+    .filter(el => el.localName === 'data' && el.parentElement?.localName === 'datamodel')
+    .map(el => ({
+      name: el.getAttribute('id') || 'data',
+      defaultValue: el.getAttribute('expr') || el.textContent?.trim() || undefined,
+    }));
+}
+
+/**
+ * Convert an executable content element to action metadata
+ */
+function toAction(el: Element): ProcessAction {
+  const properties: Record<string, string> = {};
+  Array.from(el.attributes).forEach(attr => {
+    if (attr.name.startsWith('xmlns')) return;
+    properties[attr.name] = attr.value;
+  });
+
+  const isScxml = el.namespaceURI === SCXML_NS || !el.namespaceURI;
+  return {
+    activity: isScxml ? el.localName : el.tagName,
+    namespace: isScxml ? undefined : el.namespaceURI || undefined,
+    properties: Object.keys(properties).length > 0 ? properties : undefined,
+  };
+}
+
+function childElements(el: Element): Element[] {
+  return Array.from(el.children);
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
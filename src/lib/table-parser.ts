@@ -0,0 +1,255 @@
+/**
+ * Table Workflow Parser
+ *
+ * Parses state-transition tables (CSV, TSV or cells pasted from Excel)
+ * into our BusinessProcess format. One row per transition:
+ *
+ *   From State | Action | To State | Role | Form
+ *
+ * The action becomes the transition label, the role the assignee and the
+ * form the formRef of the state the transition leaves. Forms are matched
+ * against the current module by code or name. Non-standard headers are
+ * mapped with an explicit TableColumnMapping.
+ */
+
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessTransition,
+  Form,
+} from '@/types/module';
+import { toCode } from './workflow-codes';
+
+export type TableColumn = 'from' | 'action' | 'to' | 'role' | 'form';
+
+// Column index per field
+export type TableColumnMapping = Partial<Record<TableColumn, number>>;
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface TableParseOptions {
+  mapping?: TableColumnMapping;
+  forms?: Form[];
+}
+
+/**
+ * Table fields in display order
+ */
+export const TABLE_COLUMNS: { column: TableColumn; label: string; required: boolean }[] = [
+  { column: 'from', label: 'From State', required: true },
+  { column: 'action', label: 'Action', required: false },
+  { column: 'to', label: 'To State', required: true },
+  { column: 'role', label: 'Role', required: false },
+  { column: 'form', label: 'Form', required: false },
+];
+
+// Normalized header names (lowercase, letters and digits only)
+const HEADER_ALIASES: Record<TableColumn, string[]> = {
+  from: ['from', 'fromstate', 'fromstatus', 'source', 'sourcestate', 'currentstate', 'state', 'status'],
+  action: ['action', 'event', 'trigger', 'transition', 'label', 'button', 'activity', 'step'],
+  to: ['to', 'tostate', 'tostatus', 'target', 'targetstate', 'nextstate', 'next', 'newstate', 'resultstate'],
+  role: ['role', 'assignee', 'actor', 'owner', 'responsible', 'performer', 'who', 'usergroup', 'group'],
+  form: ['form', 'formref', 'formcode', 'formname', 'screen'],
+};
+
+/**
+ * Parse a table to BusinessProcess format
+ */
+export function parseTableWorkflow(
+  content: string,
+  options: TableParseOptions = {},
+  warnings: string[] = []
+): BusinessProcess {
+  const { headers, rows } = readTable(content);
+  const mapping = options.mapping || detectTableColumns(headers);
+
+  if (mapping.from === undefined || mapping.to === undefined) {
+    throw new Error('Could not find the From State and To State columns. Map the columns to import this table.');
+  }
+
+  const nodes: ProcessNode[] = [];
+  const transitions: ProcessTransition[] = [];
+  const nodeByKey = new Map<string, ProcessNode>();
+  const usedIds = new Set<string>();
+
+  const ensureNode = (name: string): ProcessNode => {
+    const key = name.toLowerCase();
+    let node = nodeByKey.get(key);
+    if (!node) {
+      let id = name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'state';
+      while (usedIds.has(id)) id = `${id}-${usedIds.size}`;
+      usedIds.add(id);
+      node = { id, type: 'task', name, position: { x: 0, y: 0 } };
+      nodes.push(node);
+      nodeByKey.set(key, node);
+    }
+    return node;
+  };
+
+  const cell = (row: string[], column: TableColumn) => {
+    const index = mapping[column];
+    return index === undefined ? '' : (row[index] || '').trim();
+  };
+
+  let previousFrom = '';
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2; // 1-based, after the header
+    if (row.every(value => !value.trim())) return;
+
+    // Merged cells in Excel export as an empty From below the first row
+    const fromName = cell(row, 'from') || previousFrom;
+    const toName = cell(row, 'to');
+    if (!fromName || !toName) {
+      warnings.push(`Row ${rowNumber}: missing ${fromName ? 'To' : 'From'} state, skipped`);
+      return;
+    }
+    previousFrom = fromName;
+
+    const from = ensureNode(fromName);
+    const to = ensureNode(toName);
+
+    const role = cell(row, 'role');
+    if (role) {
+      if (!from.assignee) from.assignee = role;
+      else if (from.assignee !== role) {
+        warnings.push(`Row ${rowNumber}: state "${from.name}" already has role "${from.assignee}", ignored "${role}"`);
+      }
+    }
+
+    const formName = cell(row, 'form');
+    if (formName) {
+      const formRef = resolveFormRef(formName, options.forms, rowNumber, warnings);
+      if (!from.formRef) from.formRef = formRef;
+      else if (from.formRef !== formRef) {
+        warnings.push(`Row ${rowNumber}: state "${from.name}" already has form "${from.formRef}", ignored "${formName}"`);
+      }
+    }
+
+    transitions.push({
+      id: `transition-${transitions.length}`,
+      from: from.id,
+      to: to.id,
+      label: cell(row, 'action') || undefined,
+    });
+  });
+
+  // States nobody enters start the process, states nobody leaves end it
+  nodes.forEach(node => {
+    if (!transitions.some(t => t.to === node.id)) node.type = 'start';
+    else if (!transitions.some(t => t.from === node.id)) node.type = 'end';
+  });
+
+  // Rework loops lead back into the first state - it still starts the process
+  if (nodes.length > 0 && !nodes.some(n => n.type === 'start')) {
+    nodes[0].type = 'start';
+  }
+
+  return {
+    id: generateId(),
+    name: 'Table Workflow',
+    code: 'table-workflow',
+    description: 'Imported from state-transition table',
+    nodes,
+    transitions,
+  };
+}
+
+/**
+ * Split CSV/TSV content into header and rows.
+ * The delimiter is taken from the header line: tab, semicolon (European
+ * Excel) or comma. Quoted fields may contain delimiters, "" and newlines.
+ */
+export function readTable(content: string): ParsedTable {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+  const headerLine = text.split('\n')[0] || '';
+  const delimiter = ['\t', ';', ','].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n') {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  record.push(field);
+  records.push(record);
+
+  const [headers = [], ...rows] = records;
+  return { headers: headers.map(h => h.trim()), rows };
+}
+
+/**
+ * Map headers to table fields by known names ("From State", "Next Status", ...)
+ */
+export function detectTableColumns(headers: string[]): TableColumnMapping {
+  const mapping: TableColumnMapping = {};
+  const normalized = headers.map(h => h.toLowerCase().replace(/[^\p{L}\p{N}]/gu, ''));
+  const taken = new Set<number>();
+
+  // Exact alias matches first, then headers that start with an alias ("Role (optional)")
+  const passes: ((header: string, alias: string) => boolean)[] = [
+    (header, alias) => header === alias,
+    (header, alias) => alias.length > 2 && header.startsWith(alias),
+  ];
+
+  passes.forEach(matches => {
+    TABLE_COLUMNS.forEach(({ column }) => {
+      if (mapping[column] !== undefined) return;
+      const index = normalized.findIndex((header, i) =>
+        !taken.has(i) && HEADER_ALIASES[column].some(alias => matches(header, alias))
+      );
+      if (index >= 0) {
+        mapping[column] = index;
+        taken.add(index);
+      }
+    });
+  });
+
+  return mapping;
+}
+
+/**
+ * Match a form cell against the module's forms by code or name.
+ * Unknown forms keep a code-style reference so they can be created later.
+ */
+function resolveFormRef(value: string, forms: Form[] | undefined, rowNumber: number, warnings: string[]): string {
+  const key = value.toLowerCase();
+  const match = forms?.find(f => f.code.toLowerCase() === key || f.name.toLowerCase() === key)
+    || forms?.find(f => f.code === toCode(value));
+  if (match) return match.code;
+
+  warnings.push(`Row ${rowNumber}: form "${value}" not found in this module`);
+  return toCode(value);
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
@@ -8,8 +8,8 @@
  */
 
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import type { Dictionary, Form, BusinessProcess, Module } from '@/types/module';
-import { getVault, VaultState, VaultActions } from './vault-store';
+import type { Dictionary, Form, BusinessProcess, Role, Module } from '@/types/module';
+import { getVault, VaultState, VaultActions, VaultArtifactType } from './vault-store';
 
 interface VaultContextValue {
   // State
@@ -25,9 +25,10 @@ interface VaultContextValue {
   addDictionary: (dictionary: Dictionary) => void;
   addForm: (form: Form) => void;
   addWorkflow: (workflow: BusinessProcess) => void;
+  addRole: (role: Role) => void;
 
   // Remove artifacts
-  removeArtifact: (type: 'dictionary' | 'form' | 'workflow', id: string) => void;
+  removeArtifact: (type: VaultArtifactType, id: string) => void;
 
   // Export/Import
   exportModule: () => string | null;
@@ -87,7 +88,12 @@ export function VaultProvider({ children }: { children: ReactNode }) {
     refresh();
   }, [vault, refresh]);
 
-  const removeArtifact = useCallback((type: 'dictionary' | 'form' | 'workflow', id: string) => {
+  const addRole = useCallback((role: Role) => {
+    vault.addRole(role);
+    refresh();
+  }, [vault, refresh]);
+
+  const removeArtifact = useCallback((type: VaultArtifactType, id: string) => {
     vault.removeArtifact(type, id);
     refresh();
   }, [vault, refresh]);
@@ -115,6 +121,7 @@ export function VaultProvider({ children }: { children: ReactNode }) {
       addDictionary,
       addForm,
       addWorkflow,
+      addRole,
       removeArtifact,
       exportModule,
       importModule,
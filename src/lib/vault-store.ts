@@ -7,7 +7,7 @@
  * Uses localStorage for POC, can be upgraded to API/DB later.
  */
 
-import type { Dictionary, Form, BusinessProcess, Module } from '@/types/module';
+import type { Dictionary, Form, BusinessProcess, Role, Module } from '@/types/module';
 
 const STORAGE_KEY = 'spinner-vault';
 
@@ -16,6 +16,8 @@ export interface VaultState {
   modules: Module[];
 }
 
+export type VaultArtifactType = 'dictionary' | 'form' | 'workflow' | 'role';
+
 export interface VaultActions {
   // Module operations
   createModule: (name: string, code: string, description?: string) => Module;
@@ -27,9 +29,10 @@ export interface VaultActions {
   addDictionary: (dictionary: Dictionary) => void;
   addForm: (form: Form) => void;
   addWorkflow: (workflow: BusinessProcess) => void;
+  addRole: (role: Role) => void;
 
-  removeArtifact: (type: 'dictionary' | 'form' | 'workflow', id: string) => void;
-  updateArtifact: (type: 'dictionary' | 'form' | 'workflow', id: string, data: unknown) => void;
+  removeArtifact: (type: VaultArtifactType, id: string) => void;
+  updateArtifact: (type: VaultArtifactType, id: string, data: unknown) => void;
 
   // Export
   exportModule: (moduleId?: string) => string;
@@ -50,7 +53,9 @@ function loadState(): VaultState {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      const parsed: VaultState = JSON.parse(stored);
+      parsed.modules.forEach(withDefaults);
+      return parsed;
     }
   } catch (e) {
     console.error('Failed to load vault state:', e);
@@ -59,6 +64,14 @@ function loadState(): VaultState {
   return { currentModuleId: null, modules: [] };
 }
 
+/**
+ * Fill in artifact lists added after a module was stored
+ */
+function withDefaults(module: Module): Module {
+  module.roles = module.roles || [];
+  return module;
+}
+
 /**
  * Save vault state to localStorage
  */
@@ -91,6 +104,7 @@ export function createVaultStore(): VaultActions {
         dictionaries: [],
         forms: [],
         processes: [],
+        roles: [],
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -174,7 +188,23 @@ export function createVaultStore(): VaultActions {
       persist();
     },
 
-    removeArtifact(type: 'dictionary' | 'form' | 'workflow', id: string): void {
+    addRole(role: Role): void {
+      const current = this.getCurrentModule();
+      if (!current) return;
+
+      const existing = current.roles.findIndex(r => r.code === role.code);
+
+      if (existing >= 0) {
+        current.roles[existing] = role;
+      } else {
+        current.roles.push(role);
+      }
+
+      current.updatedAt = new Date().toISOString();
+      persist();
+    },
+
+    removeArtifact(type: VaultArtifactType, id: string): void {
       const module = this.getCurrentModule();
       if (!module) return;
 
@@ -188,13 +218,16 @@ export function createVaultStore(): VaultActions {
         case 'workflow':
           module.processes = module.processes.filter(p => p.id !== id);
           break;
+        case 'role':
+          module.roles = module.roles.filter(r => r.id !== id);
+          break;
       }
 
       module.updatedAt = new Date().toISOString();
       persist();
     },
 
-    updateArtifact(type: 'dictionary' | 'form' | 'workflow', id: string, data: unknown): void {
+    updateArtifact(type: VaultArtifactType, id: string, data: unknown): void {
       const module = this.getCurrentModule();
       if (!module) return;
 
@@ -214,6 +247,11 @@ export function createVaultStore(): VaultActions {
           if (idx >= 0) module.processes[idx] = data as BusinessProcess;
           break;
         }
+        case 'role': {
+          const idx = module.roles.findIndex(r => r.id === id);
+          if (idx >= 0) module.roles[idx] = data as Role;
+          break;
+        }
       }
 
       module.updatedAt = new Date().toISOString();
@@ -229,7 +267,7 @@ export function createVaultStore(): VaultActions {
     },
 
     importModule(json: string): Module {
-      const module = JSON.parse(json) as Module;
+      const module = withDefaults(JSON.parse(json) as Module);
       module.id = generateId(); // New ID to avoid conflicts
       module.createdAt = new Date().toISOString();
       module.updatedAt = new Date().toISOString();
@@ -0,0 +1,378 @@
+/**
+ * Workflow Analyzer
+ *
+ * Structural checks on a BusinessProcess beyond what the normalizer's
+ * validation covers:
+ * - states that cannot be reached from start
+ * - states with no path to an end
+ * - cycles with no way out (livelocks)
+ * - gateways that do not branch (joins excepted)
+ * - duplicate transitions between the same pair of nodes
+ * - formRefs that do not resolve to a form of the module
+ * - guard conditions that do not parse, or reference unknown form fields
+ *   or compare them with the wrong types
+ * - assignees, transition roles and SLA notifications naming unknown roles
+ *
+ * Boundary events count as reachable from their host activity, SLA
+ * escalation targets from the overdue state. Subprocess children are
+ * analyzed as graphs of their own.
+ */
+
+import type { BusinessProcess, ProcessGraph, ProcessNode, ProcessTransition, Form, FormField, Role } from '@/types/module';
+import { parseGuard, checkGuard, GuardExpression } from './guard-expression';
+import { suggestRole } from './workflow-permissions';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export type FindingKind =
+  | 'unreachable'
+  | 'dead-end'
+  | 'livelock'
+  | 'gateway-branches'
+  | 'duplicate-transition'
+  | 'unresolved-form'
+  | 'invalid-guard'
+  | 'unknown-role';
+
+export interface WorkflowFinding {
+  kind: FindingKind;
+  severity: FindingSeverity;
+  message: string;
+  nodeIds: string[];
+  transitionIds: string[];
+}
+
+export interface AnalysisOptions {
+  forms?: Form[]; // Forms of the module; formRefs are only checked when given
+  roles?: Role[]; // Roles of the module; role codes are only checked when given
+}
+
+/**
+ * Analyze a workflow and its subprocesses
+ */
+export function analyzeWorkflow(process: BusinessProcess, options: AnalysisOptions = {}): WorkflowFinding[] {
+  const findings: WorkflowFinding[] = [];
+  analyzeGraph(process, '', options, findings);
+  return findings;
+}
+
+/**
+ * Highest severity per node and transition, for overlays
+ */
+export function getFindingSeverities(findings: WorkflowFinding[]): Map<string, FindingSeverity> {
+  const rank: Record<FindingSeverity, number> = { error: 3, warning: 2, info: 1 };
+  const severities = new Map<string, FindingSeverity>();
+  findings.forEach(finding => {
+    [...finding.nodeIds, ...finding.transitionIds].forEach(id => {
+      const current = severities.get(id);
+      if (!current || rank[finding.severity] > rank[current]) severities.set(id, finding.severity);
+    });
+  });
+  return severities;
+}
+
+function analyzeGraph(graph: ProcessGraph, scope: string, options: AnalysisOptions, findings: WorkflowFinding[]): void {
+  const nodeMap = new Map(graph.nodes.map(n => [n.id, n]));
+  const transitions = graph.transitions.filter(t => nodeMap.has(t.from) && nodeMap.has(t.to));
+  const name = (id: string) => nodeMap.get(id)?.name || id;
+  const add = (finding: WorkflowFinding) => findings.push({ ...finding, message: scope + finding.message });
+
+  // Successors and predecessors; boundary events hang off their host,
+  // escalation targets off the state that can run overdue
+  const successors = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  const predecessors = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  const link = (from: string, to: string) => {
+    successors.get(from)!.push(to);
+    predecessors.get(to)!.push(from);
+  };
+  transitions.forEach(t => link(t.from, t.to));
+  graph.nodes.forEach(n => {
+    if (n.attachedTo && nodeMap.has(n.attachedTo)) link(n.attachedTo, n.id);
+    if (n.sla?.escalateTo && nodeMap.has(n.sla.escalateTo)) link(n.id, n.sla.escalateTo);
+  });
+
+  const starts = graph.nodes.filter(n => n.type === 'start').map(n => n.id);
+  const ends = graph.nodes.filter(n => n.type === 'end').map(n => n.id);
+
+  // Unreachable from start
+  if (starts.length > 0) {
+    const reachable = collect(starts, successors);
+    graph.nodes
+      .filter(n => !reachable.has(n.id))
+      .forEach(n => add({
+        kind: 'unreachable',
+        severity: 'warning',
+        message: `"${n.name}" cannot be reached from the start`,
+        nodeIds: [n.id],
+        transitionIds: transitions.filter(t => t.to === n.id).map(t => t.id),
+      }));
+  }
+
+  // Cycles nothing leaves, then other states that never get to an end
+  if (ends.length > 0) {
+    const reachesEnd = collect(ends, predecessors);
+    const trapped = new Set<string>();
+
+    findCycles(graph.nodes, successors).forEach(component => {
+      const members = new Set(component);
+      const hasExit = component.some(id => successors.get(id)!.some(next => !members.has(next)));
+      if (hasExit || component.some(id => reachesEnd.has(id))) return;
+
+      component.forEach(id => trapped.add(id));
+      add({
+        kind: 'livelock',
+        severity: 'error',
+        message: `Cycle ${component.map(id => `"${name(id)}"`).join(' → ')} has no exit`,
+        nodeIds: component,
+        transitionIds: transitions.filter(t => members.has(t.from) && members.has(t.to)).map(t => t.id),
+      });
+    });
+
+    graph.nodes
+      .filter(n => n.type !== 'end' && !reachesEnd.has(n.id) && !trapped.has(n.id))
+      .forEach(n => add({
+        kind: 'dead-end',
+        severity: 'error',
+        message: successors.get(n.id)!.length === 0
+          ? `"${n.name}" has no outgoing transitions`
+          : `"${n.name}" has no path to an end`,
+        nodeIds: [n.id],
+        transitionIds: [],
+      }));
+  }
+
+  // Gateways should branch; a join may have a single way out
+  graph.nodes
+    .filter(n => n.type === 'gateway')
+    .forEach(n => {
+      const outgoing = transitions.filter(t => t.from === n.id);
+      const incoming = transitions.filter(t => t.to === n.id);
+      if (outgoing.length >= 2 || (outgoing.length === 1 && incoming.length >= 2)) return;
+      add({
+        kind: 'gateway-branches',
+        severity: 'warning',
+        message: outgoing.length === 0
+          ? `Gateway "${n.name}" has no outgoing transitions`
+          : `Gateway "${n.name}" has only one outgoing transition`,
+        nodeIds: [n.id],
+        transitionIds: outgoing.map(t => t.id),
+      });
+    });
+
+  // Several transitions between the same pair of nodes
+  const pairs = new Map<string, typeof transitions>();
+  transitions.forEach(t => {
+    const key = `${t.from}\u0000${t.to}`;
+    pairs.set(key, [...(pairs.get(key) || []), t]);
+  });
+  pairs.forEach(group => {
+    if (group.length < 2) return;
+    const signatures = group.map(t => JSON.stringify([t.label || '', t.condition || '', t.trigger || '']));
+    const identical = new Set(signatures).size < signatures.length;
+    add({
+      kind: 'duplicate-transition',
+      severity: identical ? 'warning' : 'info',
+      message: identical
+        ? `Duplicate transition from "${name(group[0].from)}" to "${name(group[0].to)}"`
+        : `${group.length} transitions from "${name(group[0].from)}" to "${name(group[0].to)}"`,
+      nodeIds: [],
+      transitionIds: group.map(t => t.id),
+    });
+  });
+
+  // Form references
+  if (options.forms) {
+    const codes = new Set(options.forms.map(f => f.code));
+    graph.nodes
+      .filter(n => n.formRef && !codes.has(n.formRef))
+      .forEach(n => add({
+        kind: 'unresolved-form',
+        severity: 'warning',
+        message: `"${n.name}" references unknown form "${n.formRef}"`,
+        nodeIds: [n.id],
+        transitionIds: [],
+      }));
+  }
+
+  // Guard conditions, checked against the form behind the transition
+  transitions
+    .filter(t => t.condition?.trim())
+    .forEach(t => {
+      const where = `Condition on "${name(t.from)}" → "${name(t.to)}"`;
+      let expression: GuardExpression;
+      try {
+        expression = parseGuard(t.condition!);
+      } catch (err) {
+        // Imported conditions may be written in another expression language
+        add({
+          kind: 'invalid-guard',
+          severity: 'info',
+          message: `${where} is not a guard expression: ${err instanceof Error ? err.message : err}`,
+          nodeIds: [],
+          transitionIds: [t.id],
+        });
+        return;
+      }
+
+      const fields = options.forms && getGuardFields(t, nodeMap, transitions, options.forms);
+      if (!fields) return;
+      checkGuard(expression, fields).forEach(issue => add({
+        kind: 'invalid-guard',
+        severity: issue.kind === 'type-mismatch' ? 'error' : 'warning',
+        message: `${where}: ${issue.message}`,
+        nodeIds: [],
+        transitionIds: [t.id],
+      }));
+    });
+
+  // Role references
+  if (options.roles) {
+    const roles = options.roles;
+    const codes = new Set(roles.map(r => r.code));
+    const unknown = (code: string, message: string, nodeIds: string[], transitionIds: string[]) => {
+      if (codes.has(code)) return;
+      add({
+        kind: 'unknown-role',
+        severity: 'warning',
+        message: message + suggestRole(roles, code),
+        nodeIds,
+        transitionIds,
+      });
+    };
+
+    graph.nodes.forEach(n => {
+      if (n.assignee) unknown(n.assignee, `"${n.name}" is assigned to unknown role "${n.assignee}"`, [n.id], []);
+      if (n.sla?.notify) unknown(n.sla.notify, `SLA on "${n.name}" notifies unknown role "${n.sla.notify}"`, [n.id], []);
+    });
+    transitions.forEach(t => (t.roles || []).forEach(code => unknown(
+      code,
+      `Transition "${name(t.from)}" → "${name(t.to)}" allows unknown role "${code}"`,
+      [],
+      [t.id]
+    )));
+  }
+
+  graph.nodes
+    .filter((n): n is ProcessNode & { children: ProcessGraph } => !!n.children)
+    .forEach(n => analyzeGraph(n.children, `${scope}${n.name}: `, options, findings));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Graph helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Fields a guard can reference: the form of the node the transition
+ * leaves, or for gateways the forms of the tasks leading into them.
+ * Undefined when no form is in scope.
+ */
+function getGuardFields(
+  transition: ProcessTransition,
+  nodeMap: Map<string, ProcessNode>,
+  transitions: ProcessTransition[],
+  forms: Form[]
+): FormField[] | undefined {
+  const formRefs = new Set<string>();
+  const seen = new Set<string>();
+  const queue = [transition.from];
+
+  while (queue.length > 0) {
+    const node = nodeMap.get(queue.shift()!);
+    if (!node || seen.has(node.id)) continue;
+    seen.add(node.id);
+
+    if (node.formRef) formRefs.add(node.formRef);
+    else if (node.type === 'gateway') {
+      transitions.filter(t => t.to === node.id).forEach(t => queue.push(t.from));
+    }
+  }
+
+  const scoped = forms.filter(f => formRefs.has(f.code));
+  return scoped.length > 0 ? scoped.flatMap(f => f.fields) : undefined;
+}
+
+/**
+ * All nodes reachable from the seeds along the given edges
+ */
+function collect(seeds: string[], edges: Map<string, string[]>): Set<string> {
+  const seen = new Set(seeds);
+  const queue = [...seeds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (edges.get(id) || []).forEach(next => {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  return seen;
+}
+
+/**
+ * Strongly connected components that contain a cycle (Tarjan). Iterative,
+ * with an explicit call stack, so long chains can't overflow the JS stack.
+ */
+function findCycles(nodes: ProcessNode[], successors: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const enter = (id: string) => {
+    index.set(id, counter);
+    lowlink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+  };
+
+  nodes.forEach(root => {
+    if (index.has(root.id)) return;
+    enter(root.id);
+    // Each frame is a node and how many of its successors were visited
+    const calls: { id: string; next: number }[] = [{ id: root.id, next: 0 }];
+
+    while (calls.length > 0) {
+      const frame = calls[calls.length - 1];
+      const { id } = frame;
+      const targets = successors.get(id)!;
+
+      if (frame.next < targets.length) {
+        const next = targets[frame.next++];
+        if (!index.has(next)) {
+          enter(next);
+          calls.push({ id: next, next: 0 });
+        } else if (onStack.has(next)) {
+          lowlink.set(id, Math.min(lowlink.get(id)!, index.get(next)!));
+        }
+        continue;
+      }
+
+      // All successors done: return to the caller
+      calls.pop();
+      if (calls.length > 0) {
+        const caller = calls[calls.length - 1].id;
+        lowlink.set(caller, Math.min(lowlink.get(caller)!, lowlink.get(id)!));
+      }
+
+      if (lowlink.get(id) === index.get(id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+
+        if (component.length > 1 || targets.includes(id)) {
+          cycles.push(component.reverse());
+        }
+      }
+    }
+  });
+
+  return cycles;
+}
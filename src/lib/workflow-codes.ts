@@ -0,0 +1,13 @@
+/**
+ * Workflow Codes
+ *
+ * Workflow codes are lowercase slugs. Parsers derive one from the
+ * workflow's name when the source file does not carry a code of its own.
+ */
+
+/**
+ * Slug of a name, e.g. "Incident Review (v2)" → "incident-review-v2"
+ */
+export function toCode(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
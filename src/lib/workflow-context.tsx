@@ -5,50 +5,169 @@
  *
  * Shared state for the active workflow.
  * Allows Chat and WorkflowUploader to communicate.
+ * Mutations are recorded with their inverses for undo/redo, and named
+ * checkpoints can be restored as an undoable change.
  */
 
 import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import type { BusinessProcess } from '@/types/module';
-import { applyMutation, WorkflowMutation } from './workflow-normalizer';
+import { diffWorkflows, WorkflowMutation } from './workflow-normalizer';
+import {
+  applyBatch,
+  createCheckpoint as newCheckpoint,
+  createHistoryEntry,
+  describeMutations,
+  HistoryEntry,
+  MutationSource,
+  WorkflowCheckpoint,
+} from './workflow-history';
 
 interface WorkflowContextValue {
   workflow: BusinessProcess | null;
-  setWorkflow: (workflow: BusinessProcess | null) => void;
-  applyMutations: (mutations: WorkflowMutation[]) => void;
+  loaded: BusinessProcess | null; // Last workflow passed to setWorkflow, kept after clearing
+  setWorkflow: (workflow: BusinessProcess | null, label?: string) => void; // Starts a new history
+  updateWorkflow: (workflow: BusinessProcess) => void; // Changes outside the graph (scenarios), not recorded
+  applyMutations: (mutations: WorkflowMutation[], source?: MutationSource, label?: string) => void;
   clearWorkflow: () => void;
+
+  // History
+  past: HistoryEntry[]; // Oldest first; starts with the import
+  future: HistoryEntry[]; // Next redo first
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+
+  // Checkpoints
+  checkpoints: WorkflowCheckpoint[];
+  createCheckpoint: (name: string) => void;
+  restoreCheckpoint: (id: string) => void;
+}
+
+interface HistoryState {
+  workflow: BusinessProcess | null;
+  loaded: BusinessProcess | null;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
 }
 
 const WorkflowContext = createContext<WorkflowContextValue | null>(null);
 
 export function WorkflowProvider({ children }: { children: ReactNode }) {
-  const [workflow, setWorkflowState] = useState<BusinessProcess | null>(null);
+  const [history, setHistory] = useState<HistoryState>({ workflow: null, loaded: null, past: [], future: [] });
+  const [checkpoints, setCheckpoints] = useState<WorkflowCheckpoint[]>([]);
+
+  const setWorkflow = useCallback((wf: BusinessProcess | null, label = 'Imported') => {
+    setHistory({
+      workflow: wf,
+      loaded: wf,
+      past: wf ? [createHistoryEntry('import', label)] : [],
+      future: [],
+    });
+    setCheckpoints([]);
+  }, []);
 
-  const setWorkflow = useCallback((wf: BusinessProcess | null) => {
-    setWorkflowState(wf);
+  const updateWorkflow = useCallback((wf: BusinessProcess) => {
+    setHistory(current => ({ ...current, workflow: wf }));
   }, []);
 
-  const applyMutations = useCallback((mutations: WorkflowMutation[]) => {
-    setWorkflowState(current => {
-      if (!current) return current;
-      let updated = current;
-      for (const mutation of mutations) {
-        updated = applyMutation(updated, mutation);
-      }
-      return updated;
-    });
+  const applyMutations = useCallback((mutations: WorkflowMutation[], source: MutationSource = 'user', label?: string) => {
+    setHistory(current => record(current, mutations, source, label));
   }, []);
 
   const clearWorkflow = useCallback(() => {
-    setWorkflowState(null);
+    setHistory(current => ({ workflow: null, loaded: current.loaded, past: [], future: [] }));
+    setCheckpoints([]);
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(current => {
+      const entry = current.past[current.past.length - 1];
+      // The import that started the history is not undone
+      if (!current.workflow || !entry || entry.mutations.length === 0) return current;
+      return {
+        ...current,
+        workflow: applyBatch(current.workflow, entry.inverse).workflow,
+        past: current.past.slice(0, -1),
+        future: [entry, ...current.future],
+      };
+    });
   }, []);
 
+  const redo = useCallback(() => {
+    setHistory(current => {
+      const entry = current.future[0];
+      if (!current.workflow || !entry) return current;
+      const result = applyBatch(current.workflow, entry.mutations);
+      return {
+        ...current,
+        workflow: result.workflow,
+        past: [...current.past, { ...entry, inverse: result.inverse }],
+        future: current.future.slice(1),
+      };
+    });
+  }, []);
+
+  const active = history.workflow;
+  const createCheckpoint = useCallback((name: string) => {
+    if (!active) return;
+    setCheckpoints(prev => [...prev, newCheckpoint(name, active)]);
+  }, [active]);
+
+  const restoreCheckpoint = useCallback((id: string) => {
+    const checkpoint = checkpoints.find(c => c.id === id);
+    if (!checkpoint) return;
+    setHistory(current => current.workflow
+      ? record(current, diffWorkflows(current.workflow, checkpoint.workflow), 'user', `Restored "${checkpoint.name}"`)
+      : current);
+  }, [checkpoints]);
+
+  const lastEntry = history.past[history.past.length - 1];
+
   return (
-    <WorkflowContext.Provider value={{ workflow, setWorkflow, applyMutations, clearWorkflow }}>
+    <WorkflowContext.Provider value={{
+      workflow: history.workflow,
+      loaded: history.loaded,
+      setWorkflow,
+      updateWorkflow,
+      applyMutations,
+      clearWorkflow,
+      past: history.past,
+      future: history.future,
+      canUndo: !!lastEntry && lastEntry.mutations.length > 0,
+      canRedo: history.future.length > 0,
+      undo,
+      redo,
+      checkpoints,
+      createCheckpoint,
+      restoreCheckpoint,
+    }}>
       {children}
     </WorkflowContext.Provider>
   );
 }
 
+/**
+ * Apply a batch and push it onto the history; a new batch drops the redo stack
+ */
+function record(
+  state: HistoryState,
+  mutations: WorkflowMutation[],
+  source: MutationSource,
+  label?: string
+): HistoryState {
+  if (!state.workflow || mutations.length === 0) return state;
+  const result = applyBatch(state.workflow, mutations);
+  if (result.applied.length === 0) return state;
+  const entry = createHistoryEntry(
+    source,
+    label || describeMutations(state.workflow, result.applied),
+    result.applied,
+    result.inverse
+  );
+  return { ...state, workflow: result.workflow, past: [...state.past, entry], future: [] };
+}
+
 export function useWorkflow() {
   const ctx = useContext(WorkflowContext);
   if (!ctx) {
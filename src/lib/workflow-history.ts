@@ -0,0 +1,222 @@
+/**
+ * Workflow History
+ *
+ * Undo/redo bookkeeping for WorkflowContext. Every change to the active
+ * workflow is recorded as a batch of WorkflowMutations together with the
+ * inverse mutations applyMutation computed for it: undo applies the
+ * inverse, redo applies the batch again.
+ */
+
+import type { BusinessProcess, ProcessTransition } from '@/types/module';
+import { applyMutation, WorkflowMutation } from './workflow-normalizer';
+import { placeNodes } from './workflow-layout';
+
+export type MutationSource = 'user' | 'ai' | 'import';
+
+export interface HistoryEntry {
+  id: string;
+  source: MutationSource;
+  label: string;
+  mutations: WorkflowMutation[]; // As applied, with generated ids filled in
+  inverse: WorkflowMutation[];
+  timestamp: string;
+}
+
+export interface WorkflowCheckpoint {
+  id: string;
+  name: string;
+  workflow: BusinessProcess;
+  timestamp: string;
+}
+
+export interface RejectedMutation {
+  index: number; // Position in the batch
+  mutation: WorkflowMutation;
+  reason: string;
+}
+
+export interface BatchResult {
+  workflow: BusinessProcess;
+  applied: WorkflowMutation[];
+  inverse: WorkflowMutation[];
+  rejected: RejectedMutation[];
+}
+
+/**
+ * Apply a batch of mutations; the inverse undoes the whole batch.
+ * Rejected mutations are skipped and the rest still applied. Nodes added
+ * without a position are placed among their neighbours once the batch's
+ * transitions exist, pushing aside only what is in the way.
+ */
+export function applyBatch(workflow: BusinessProcess, mutations: WorkflowMutation[]): BatchResult {
+  let current = workflow;
+  const applied: WorkflowMutation[] = [];
+  const inverse: WorkflowMutation[] = [];
+  const rejected: RejectedMutation[] = [];
+  const unplaced = new Map<string, WorkflowMutation>(); // Node id → its addNode as applied
+
+  mutations.forEach((mutation, index) => {
+    const result = applyMutation(current, mutation);
+    if (result.error) {
+      rejected.push({ index, mutation, reason: result.error });
+      return;
+    }
+    current = result.workflow;
+    applied.push(result.applied);
+    inverse.unshift(...result.inverse);
+    if (mutation.type === 'addNode' && !mutation.payload.position) {
+      unplaced.set(result.applied.payload.id as string, result.applied);
+    }
+  });
+
+  if (unplaced.size > 0) {
+    const positions = placeNodes(current.nodes, current.transitions, Array.from(unplaced.keys()));
+    positions.forEach((position, id) => {
+      const result = applyMutation(current, { type: 'moveNode', payload: { id, position } });
+      if (result.error) return;
+      current = result.workflow;
+      const added = unplaced.get(id);
+      if (added) {
+        // Record the position on the addNode itself so redo lands it in the same place
+        added.payload = { ...added.payload, position };
+      } else {
+        applied.push(result.applied);
+        inverse.unshift(...result.inverse);
+      }
+    });
+  }
+
+  return { workflow: current, applied, inverse, rejected };
+}
+
+export function createHistoryEntry(
+  source: MutationSource,
+  label: string,
+  mutations: WorkflowMutation[] = [],
+  inverse: WorkflowMutation[] = []
+): HistoryEntry {
+  return {
+    id: generateId(),
+    source,
+    label,
+    mutations,
+    inverse,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+export function createCheckpoint(name: string, workflow: BusinessProcess): WorkflowCheckpoint {
+  return {
+    id: generateId(),
+    name,
+    workflow,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Short description of a batch for the history list, e.g. 'Renamed
+ * "Review" to "Manager Review"' or "Moved 3 nodes"
+ */
+export function describeMutations(workflow: BusinessProcess, mutations: WorkflowMutation[]): string {
+  const nodeName = (id: unknown) => `"${workflow.nodes.find(n => n.id === id)?.name || id}"`;
+  const transitionName = (payload: Record<string, unknown>) => {
+    const transition = workflow.transitions.find(t => t.id === payload.id);
+    return `${nodeName(transition?.from ?? payload.from)} → ${nodeName(transition?.to ?? payload.to)}`;
+  };
+
+  const moves = mutations.filter(m =>
+    m.type === 'moveNode' ||
+    (m.type === 'updateNode' && Object.keys(m.payload).every(k => k === 'id' || k === 'position'))
+  );
+  if (moves.length === mutations.length && moves.length > 0) {
+    return moves.length === 1 ? `Moved ${nodeName(moves[0].payload.id)}` : `Moved ${moves.length} nodes`;
+  }
+  if (mutations.length !== 1) return `${mutations.length} changes`;
+
+  const { type, payload } = mutations[0];
+  switch (type) {
+    case 'addNode':
+      return `Added "${payload.name}"`;
+    case 'removeNode':
+      return `Removed ${nodeName(payload.id)}`;
+    case 'updateNode':
+      return 'name' in payload
+        ? `Renamed ${nodeName(payload.id)} to "${payload.name}"`
+        : `Edited ${nodeName(payload.id)}`;
+    case 'moveNode':
+      return `Moved ${nodeName(payload.id)}`;
+    case 'reorder':
+      return payload.target === 'node'
+        ? `Reordered ${nodeName(payload.id)}`
+        : `Reordered transition ${transitionName(payload)}`;
+    case 'addTransition':
+      return `Connected ${transitionName(payload)}`;
+    case 'removeTransition':
+      return `Removed transition ${transitionName(payload)}`;
+    case 'updateTransition':
+      return `Edited transition ${transitionName(payload)}`;
+  }
+}
+
+export interface WorkflowChange {
+  kind: 'added' | 'removed' | 'changed';
+  target: 'node' | 'transition';
+  label: string; // Node name, or "From → To" with the transition label
+  details: string[]; // Changed fields, e.g. 'name: "Review" → "Manager Review"'
+}
+
+/**
+ * Node and transition level differences between two versions of a
+ * workflow, for previewing a batch before it is applied
+ */
+export function summarizeChanges(before: BusinessProcess, after: BusinessProcess): WorkflowChange[] {
+  const changes: WorkflowChange[] = [];
+  const nodeName = (id: string) =>
+    after.nodes.find(n => n.id === id)?.name || before.nodes.find(n => n.id === id)?.name || id;
+  const transitionLabel = (t: ProcessTransition) =>
+    `${nodeName(t.from)} → ${nodeName(t.to)}${t.label ? ` · ${t.label}` : ''}`;
+
+  const compare = <T extends { id: string }>(
+    target: WorkflowChange['target'],
+    previous: T[],
+    next: T[],
+    label: (item: T) => string
+  ) => {
+    const previousById = new Map(previous.map(item => [item.id, item]));
+    const nextIds = new Set(next.map(item => item.id));
+
+    previous
+      .filter(item => !nextIds.has(item.id))
+      .forEach(item => changes.push({ kind: 'removed', target, label: label(item), details: [] }));
+    next.forEach(item => {
+      const old = previousById.get(item.id);
+      if (!old) {
+        changes.push({ kind: 'added', target, label: label(item), details: [] });
+        return;
+      }
+      const details = describeFieldChanges(old, item);
+      if (details.length > 0) changes.push({ kind: 'changed', target, label: label(old), details });
+    });
+  };
+
+  compare('node', before.nodes, after.nodes, n => n.name);
+  compare('transition', before.transitions, after.transitions, transitionLabel);
+  return changes;
+}
+
+function describeFieldChanges(before: object, after: object): string[] {
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  return Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))
+    .filter(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]))
+    .map(key => {
+      if (key === 'position') return 'moved';
+      const format = (value: unknown) => value === undefined ? 'none' : JSON.stringify(value);
+      return `${key}: ${format(previous[key])} → ${format(next[key])}`;
+    });
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
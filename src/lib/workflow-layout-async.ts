@@ -0,0 +1,60 @@
+/**
+ * Workflow Layout off the Main Thread
+ *
+ * Large workflows are laid out in a Web Worker so importing them does not
+ * freeze the tab. Small graphs, and environments without workers (the
+ * server), are laid out in place.
+ */
+
+import type { ProcessNode, ProcessTransition } from '@/types/module';
+import { applyLayout, computeLayout, LayoutOptions, LayoutPositions, LayoutRequest } from './workflow-layout';
+
+// Below this many nodes the layout finishes before a worker would start
+export const WORKER_THRESHOLD = 200;
+
+/**
+ * applyLayout, in a worker when the graph is large enough to be worth it
+ */
+export async function applyLayoutAsync(
+  nodes: ProcessNode[],
+  transitions: ProcessTransition[],
+  options: Partial<LayoutOptions> = {}
+): Promise<void> {
+  if (typeof Worker === 'undefined' || nodes.length < WORKER_THRESHOLD) {
+    applyLayout(nodes, transitions, options);
+    return;
+  }
+
+  const request: LayoutRequest = {
+    nodes: nodes.map(({ id, type, assignee }) => ({ id, type, assignee })),
+    transitions: transitions.map(({ from, to }) => ({ from, to })),
+    options,
+  };
+
+  let positions: LayoutPositions;
+  try {
+    positions = await runLayoutWorker(request);
+  } catch (err) {
+    console.warn('Layout worker failed, laying out on the main thread:', err);
+    positions = computeLayout(request.nodes, request.transitions, options);
+  }
+
+  nodes.forEach(n => {
+    if (positions[n.id]) n.position = positions[n.id];
+  });
+}
+
+function runLayoutWorker(request: LayoutRequest): Promise<LayoutPositions> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./workflow-layout.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<LayoutPositions>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Layout worker failed'));
+    };
+    worker.postMessage(request);
+  });
+}
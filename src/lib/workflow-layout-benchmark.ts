@@ -0,0 +1,123 @@
+/**
+ * Workflow Layout Benchmark
+ *
+ * Generated workflows shaped like large enterprise BPMN imports: long
+ * chains of tasks across a handful of lanes, gateways that split and
+ * rejoin, rework loops back upstream and escalations that skip ahead.
+ * Generation is seeded, so every run lays out the same graphs.
+ *
+ * Run from a client component or the browser console in development:
+ *   runLayoutBenchmark().forEach(r => console.log(r))
+ */
+
+import type { BusinessProcess, ProcessNode, ProcessTransition } from '@/types/module';
+import { computeLayout } from './workflow-layout';
+
+export const BENCHMARK_SIZES = [100, 250, 500, 1000, 2000];
+
+const LANES = ['reporter', 'supervisor', 'hse_manager', 'maintenance', 'quality'];
+
+export interface LayoutBenchmarkResult {
+  nodes: number;
+  transitions: number;
+  milliseconds: number;
+}
+
+/**
+ * A workflow of roughly nodeCount nodes
+ */
+export function generateBenchmarkWorkflow(nodeCount: number, seed = 1): BusinessProcess {
+  const random = createRandom(seed);
+  const nodes: ProcessNode[] = [];
+  const transitions: ProcessTransition[] = [];
+
+  const addNode = (type: ProcessNode['type'], name: string): string => {
+    const id = `node_${String(nodes.length + 1).padStart(4, '0')}`;
+    nodes.push({
+      id,
+      name,
+      type,
+      assignee: type === 'task' ? LANES[Math.floor(random() * LANES.length)] : undefined,
+      position: { x: 0, y: 0 },
+    });
+    return id;
+  };
+  const connect = (from: string, to: string, label?: string) => {
+    transitions.push({ id: `trans_${String(transitions.length + 1).padStart(4, '0')}`, from, to, label });
+  };
+  const pick = () => nodes[1 + Math.floor(random() * (nodes.length - 1))].id;
+
+  let current = addNode('start', 'Start');
+  while (nodes.length < nodeCount - 1) {
+    const roll = random();
+    if (roll < 0.55) {
+      const next = addNode('task', `Task ${nodes.length}`);
+      connect(current, next);
+      current = next;
+    } else if (roll < 0.8) {
+      // Split into 2-4 branches of 1-3 tasks and join again
+      const split = addNode('gateway', `Decision ${nodes.length}`);
+      connect(current, split);
+      const branches = 2 + Math.floor(random() * 3);
+      const ends: string[] = [];
+      for (let b = 0; b < branches; b++) {
+        let branch = split;
+        const length = 1 + Math.floor(random() * 3);
+        for (let i = 0; i < length; i++) {
+          const next = addNode('task', `Task ${nodes.length}`);
+          connect(branch, next, i === 0 ? `Option ${b + 1}` : undefined);
+          branch = next;
+        }
+        ends.push(branch);
+      }
+      current = addNode('gateway', `Join ${nodes.length}`);
+      ends.forEach(end => connect(end, current));
+    } else if (nodes.length === 1) {
+      // Only the start node so far: nothing to loop back to or skip ahead from
+      continue;
+    } else if (roll < 0.92) {
+      connect(current, pick(), 'Rework');
+    } else {
+      connect(pick(), current, 'Escalate');
+    }
+  }
+  connect(current, addNode('end', 'End'));
+
+  return {
+    id: `benchmark-${nodeCount}`,
+    code: `benchmark_${nodeCount}`,
+    name: `Benchmark (${nodeCount} nodes)`,
+    nodes,
+    transitions,
+  };
+}
+
+/**
+ * Time computeLayout on generated workflows of each size
+ */
+export function runLayoutBenchmark(sizes: number[] = BENCHMARK_SIZES, seed = 1): LayoutBenchmarkResult[] {
+  return sizes.map(size => {
+    const workflow = generateBenchmarkWorkflow(size, seed);
+    const started = performance.now();
+    computeLayout(workflow.nodes, workflow.transitions);
+    return {
+      nodes: workflow.nodes.length,
+      transitions: workflow.transitions.length,
+      milliseconds: Math.round(performance.now() - started),
+    };
+  });
+}
+
+/**
+ * Small seeded PRNG (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
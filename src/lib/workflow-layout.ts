@@ -2,17 +2,27 @@
  * Workflow Layout Algorithm
  *
  * Pure TypeScript implementation for directed graph layout.
- * No external dependencies - works in browser and server.
+ * No external dependencies - works in browser, server and Web Workers.
+ *
+ * Layered (Sugiyama style) pipeline that stays close to linear in the
+ * size of the graph, so imports with hundreds of nodes lay out quickly:
+ * 1. Cycles are broken with a greedy feedback arc set; edges in the set
+ *    are laid out reversed
+ * 2. Longest-path layering over the resulting DAG
+ * 3. Edges spanning several layers are split by dummy nodes
+ * 4. Barycenter sweeps order each layer, over precomputed neighbour indexes
+ * 5. Brandes–Köpf alignment places nodes across the flow
  */
 
 import type { ProcessNode, ProcessTransition } from '@/types/module';
 
-interface LayoutOptions {
+export interface LayoutOptions {
   direction: 'TB' | 'LR';  // Top-to-bottom or left-to-right
   nodeWidth: number;
   nodeHeight: number;
   horizontalGap: number;
   verticalGap: number;
+  edgeGap: number;  // Space next to long edges passing through a layer
   marginX: number;
   marginY: number;
 }
@@ -23,251 +33,760 @@ const DEFAULT_OPTIONS: LayoutOptions = {
   nodeHeight: 60,
   horizontalGap: 120,  // More space between columns
   verticalGap: 80,     // Space between parallel paths
+  edgeGap: 20,
   marginX: 80,
   marginY: 100,
 };
 
+const ORDERING_PASSES = 4;
+
+export type LayoutNode = Pick<ProcessNode, 'id' | 'type' | 'assignee'>;
+export type LayoutTransition = Pick<ProcessTransition, 'from' | 'to'>;
+export type LayoutPositions = Record<string, { x: number; y: number }>;
+
+/**
+ * What applyLayoutAsync posts to the layout worker
+ */
+export interface LayoutRequest {
+  nodes: LayoutNode[];
+  transitions: LayoutTransition[];
+  options: Partial<LayoutOptions>;
+}
+
 /**
  * Apply hierarchical layout to nodes
- * Handles cycles by using longest-path layering
  */
 export function applyLayout(
   nodes: ProcessNode[],
   transitions: ProcessTransition[],
   options: Partial<LayoutOptions> = {}
 ): void {
-  if (nodes.length === 0) return;
+  const positions = computeLayout(nodes, transitions, options);
+  nodes.forEach(n => {
+    if (positions[n.id]) n.position = positions[n.id];
+  });
+}
 
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+/**
+ * Whether a node has been placed: the parsers leave nodes without layout
+ * information at the origin
+ */
+export function isPositioned(node: Partial<Pick<ProcessNode, 'position'>>): boolean {
+  const position = node.position;
+  return !!position
+    && Number.isFinite(position.x) && Number.isFinite(position.y)
+    && (position.x !== 0 || position.y !== 0);
+}
 
-  // Build adjacency lists
-  const outgoing = new Map<string, string[]>();
-  const incoming = new Map<string, string[]>();
+/**
+ * Position-stable layout: nodes that already have a position keep it,
+ * and only the unpositioned ones are placed next to their neighbours.
+ * A graph with no positions at all gets the full layout.
+ */
+export function applyIncrementalLayout(
+  nodes: ProcessNode[],
+  transitions: ProcessTransition[],
+  options: Partial<LayoutOptions> = {}
+): void {
+  const unplaced = nodes.filter(n => !isPositioned(n)).map(n => n.id);
+  if (unplaced.length === 0) return;
+  if (unplaced.length === nodes.length) {
+    applyLayout(nodes, transitions, options);
+    return;
+  }
 
+  const positions = placeNodes(nodes, transitions, unplaced, options, { pin: true });
   nodes.forEach(n => {
-    outgoing.set(n.id, []);
-    incoming.set(n.id, []);
+    const position = positions.get(n.id);
+    if (position) n.position = position;
   });
+}
 
-  transitions.forEach(t => {
-    if (nodeMap.has(t.from) && nodeMap.has(t.to)) {
-      outgoing.get(t.from)!.push(t.to);
-      incoming.get(t.to)!.push(t.from);
-    }
-  });
+/**
+ * Positions of a hierarchical layout, leaving the nodes untouched; this
+ * is what the layout worker runs
+ */
+export function computeLayout(
+  nodes: LayoutNode[],
+  transitions: LayoutTransition[],
+  options: Partial<LayoutOptions> = {}
+): LayoutPositions {
+  if (nodes.length === 0) return {};
+
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const isVertical = opts.direction === 'TB';
+  const graph = buildLayeredGraph(nodes, transitions);
+  orderLayers(graph);
+
+  const cross = assignCrossCoordinates(
+    graph,
+    isVertical ? opts.nodeWidth : opts.nodeHeight,
+    isVertical ? opts.horizontalGap : opts.verticalGap,
+    opts.edgeGap
+  );
+  const mainStep = isVertical ? opts.nodeHeight + opts.verticalGap : opts.nodeWidth + opts.horizontalGap;
+
+  // Coordinates are node centres; shift so the outermost node sits on the margin
+  let minCross = Infinity;
+  for (let v = 0; v < graph.realCount; v++) minCross = Math.min(minCross, cross[v]);
 
-  // Step 1: Assign layers using longest-path algorithm
-  const layers = assignLayers(nodes, outgoing, incoming);
+  const positions: LayoutPositions = {};
+  nodes.forEach((node, v) => {
+    const main = (isVertical ? opts.marginY : opts.marginX) + graph.layer[v] * mainStep;
+    const across = (isVertical ? opts.marginX : opts.marginY) + cross[v] - minCross;
+    positions[node.id] = isVertical ? { x: across, y: main } : { x: main, y: across };
+  });
+  return positions;
+}
 
-  // Step 2: Order nodes within each layer to minimize crossings
-  const orderedLayers = orderNodesInLayers(layers, outgoing);
+// ─────────────────────────────────────────────────────────────
+// Swimlanes
+// ─────────────────────────────────────────────────────────────
 
-  // Step 3: Assign positions
-  assignPositions(orderedLayers, nodeMap, opts);
+export interface SwimLane {
+  key: string; // Assignee of the lane's nodes; '' for nodes no one is assigned to
+  nodeIds: string[];
+  start: number; // Top of the band (left edge in TB layouts)
+  size: number; // Height of the band (width in TB layouts)
 }
 
 /**
- * Assign layers using modified longest-path algorithm
- * Handles cycles by processing nodes in topological-ish order
+ * Hierarchical layout with a lane per assignee. Layers are shared by all
+ * lanes, so a node keeps its column wherever its lane sits; within a lane
+ * nodes are ordered by barycenter like applyLayout does. Start and end
+ * events, gateways and other nodes without an assignee join the lane of
+ * the step before them.
  */
-function assignLayers(
+export function applySwimlaneLayout(
   nodes: ProcessNode[],
-  outgoing: Map<string, string[]>,
-  incoming: Map<string, string[]>
-): string[][] {
-  const layers: string[][] = [];
-  const nodeLayer = new Map<string, number>();
-  const visited = new Set<string>();
-  const inProgress = new Set<string>();
-
-  // Find start nodes (no incoming edges or marked as 'start')
-  const startNodes = nodes.filter(n =>
-    n.type === 'start' || incoming.get(n.id)!.length === 0
-  );
+  transitions: ProcessTransition[],
+  options: Partial<LayoutOptions> = {}
+): SwimLane[] {
+  if (nodes.length === 0) return [];
 
-  // If no start nodes found, pick first node
-  if (startNodes.length === 0 && nodes.length > 0) {
-    startNodes.push(nodes[0]);
-  }
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const isVertical = opts.direction === 'TB';
+  const graph = buildLayeredGraph(nodes, transitions);
+  const laneOf = getLaneKeys(nodes, graph);
 
-  // DFS to assign layers
-  function dfs(nodeId: string, minLayer: number): number {
-    if (nodeLayer.has(nodeId)) {
-      return nodeLayer.get(nodeId)!;
-    }
+  // Lanes in the order the flow first reaches them; unassigned last
+  const firstLayer = new Map<string, number>();
+  nodes.forEach((_, v) => {
+    firstLayer.set(laneOf[v], Math.min(firstLayer.get(laneOf[v]) ?? Infinity, graph.layer[v]));
+  });
+  const keys = Array.from(firstLayer.keys())
+    .sort((a, b) => (a === '' ? 1 : 0) - (b === '' ? 1 : 0) || firstLayer.get(a)! - firstLayer.get(b)!);
+  const laneIndex = new Map(keys.map((key, index) => [key, index]));
+
+  // Dummy nodes travel in the lane of the edge's source
+  orderLayers(graph, graph.owner.map(v => laneIndex.get(laneOf[v])!));
+
+  const mainStep = isVertical ? opts.nodeHeight + opts.verticalGap : opts.nodeWidth + opts.horizontalGap;
+  const rowStep = isVertical ? opts.nodeWidth + opts.horizontalGap : opts.nodeHeight + opts.verticalGap;
+  const rowGap = isVertical ? opts.horizontalGap : opts.verticalGap;
+
+  const lanes: SwimLane[] = [];
+  let start = isVertical ? opts.marginX : opts.marginY;
+
+  keys.forEach(key => {
+    const laneLayers = graph.layers.map(layer => layer.filter(v => v < graph.realCount && laneOf[v] === key));
+    const rows = Math.max(1, ...laneLayers.map(layer => layer.length));
+
+    laneLayers.forEach((layer, layerIndex) => {
+      // Center shorter layers in the lane
+      const offset = (rows - layer.length) / 2;
+      layer.forEach((v, index) => {
+        const main = (isVertical ? opts.marginY : opts.marginX) + layerIndex * mainStep;
+        const cross = start + rowGap / 2 + (index + offset) * rowStep;
+        nodes[v].position = isVertical ? { x: cross, y: main } : { x: main, y: cross };
+      });
+    });
 
-    if (inProgress.has(nodeId)) {
-      // Cycle detected - use current minimum layer
-      return minLayer;
+    lanes.push({ key, nodeIds: laneLayers.flat().map(v => nodes[v].id), start, size: rows * rowStep });
+    start += rows * rowStep;
+  });
+
+  return lanes;
+}
+
+/**
+ * Lane of every node: its assignee, else the lane of the first
+ * predecessor that has one, else of the first successor
+ */
+function getLaneKeys(nodes: LayoutNode[], graph: LayeredGraph): string[] {
+  const lanes: (string | undefined)[] = nodes.map(n => n.assignee || undefined);
+
+  // Follow the flow first, then fill what is left from downstream
+  for (const neighbours of [graph.predecessors, graph.successors]) {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      nodes.forEach((_, v) => {
+        if (lanes[v] !== undefined) return;
+        const from = neighbours[v].find(u => lanes[u] !== undefined);
+        if (from !== undefined) {
+          lanes[v] = lanes[from];
+          changed = true;
+        }
+      });
     }
+  }
 
-    inProgress.add(nodeId);
-    visited.add(nodeId);
+  return lanes.map(lane => lane ?? '');
+}
 
-    let maxChildLayer = minLayer - 1;
+// ─────────────────────────────────────────────────────────────
+// Layering
+// ─────────────────────────────────────────────────────────────
 
-    // Process all predecessors first
-    const predecessors = incoming.get(nodeId) || [];
-    for (const pred of predecessors) {
-      if (!inProgress.has(pred)) {
-        const predLayer = dfs(pred, 0);
-        maxChildLayer = Math.max(maxChildLayer, predLayer);
+/**
+ * Proper layered graph: real nodes first, at their input indexes, then
+ * dummy nodes, so that every edge spans exactly one layer
+ */
+interface LayeredGraph {
+  realCount: number;
+  successors: number[][]; // Real nodes, as drawn (no self-loops or parallel edges)
+  predecessors: number[][];
+  layer: number[];
+  owner: number[]; // Real node itself, or the source of the edge a dummy belongs to
+  upper: number[][]; // Neighbours one layer up
+  lower: number[][]; // Neighbours one layer down
+  layers: number[][]; // Nodes of each layer, in order
+}
+
+function buildLayeredGraph(nodes: LayoutNode[], transitions: LayoutTransition[]): LayeredGraph {
+  const n = nodes.length;
+  const index = new Map<string, number>();
+  nodes.forEach((node, v) => {
+    if (!index.has(node.id)) index.set(node.id, v);
+  });
+
+  const successors: number[][] = nodes.map(() => []);
+  const predecessors: number[][] = nodes.map(() => []);
+  const seen = new Set<number>();
+  transitions.forEach(t => {
+    const from = index.get(t.from);
+    const to = index.get(t.to);
+    if (from === undefined || to === undefined || from === to || seen.has(from * n + to)) return;
+    seen.add(from * n + to);
+    successors[from].push(to);
+    predecessors[to].push(from);
+  });
+
+  // Every edge runs from lower to higher rank; feedback edges are flipped
+  const rank = breakCycles(nodes, successors, predecessors);
+  const down: number[][] = nodes.map(() => []);
+  const up: number[][] = nodes.map(() => []);
+  const dagEdges = new Set<number>();
+  successors.forEach((targets, from) => targets.forEach(to => {
+    const [u, v] = rank[from] < rank[to] ? [from, to] : [to, from];
+    if (dagEdges.has(u * n + v)) return;
+    dagEdges.add(u * n + v);
+    down[u].push(v);
+    up[v].push(u);
+  }));
+
+  const byRank: number[] = new Array(n);
+  rank.forEach((r, v) => { byRank[r] = v; });
+  const layer = assignLayers(nodes, down, up, byRank);
+
+  // Split long edges with a dummy node per layer crossed
+  const owner = nodes.map((_, v) => v);
+  const upper: number[][] = nodes.map(() => []);
+  const lower: number[][] = nodes.map(() => []);
+  down.forEach((targets, u) => targets.forEach(v => {
+    let previous = u;
+    for (let l = layer[u] + 1; l < layer[v]; l++) {
+      const dummy = layer.length;
+      layer.push(l);
+      owner.push(u);
+      upper.push([previous]);
+      lower.push([]);
+      lower[previous].push(dummy);
+      previous = dummy;
+    }
+    lower[previous].push(v);
+    upper[v].push(previous);
+  }));
+
+  // Initial order: depth-first from the sources, so chains start out together
+  const layers: number[][] = Array.from({ length: Math.max(...layer) + 1 }, () => []);
+  const visited = new Uint8Array(layer.length);
+  for (const start of byRank) {
+    const stack = [start];
+    while (stack.length > 0) {
+      const v = stack.pop()!;
+      if (visited[v]) continue;
+      visited[v] = 1;
+      layers[layer[v]].push(v);
+      for (let i = lower[v].length - 1; i >= 0; i--) {
+        if (!visited[lower[v][i]]) stack.push(lower[v][i]);
       }
     }
+  }
 
-    const layer = maxChildLayer + 1;
-    nodeLayer.set(nodeId, layer);
-    inProgress.delete(nodeId);
+  return { realCount: n, successors, predecessors, layer, owner, upper, lower, layers };
+}
 
-    return layer;
-  }
+/**
+ * Greedy feedback arc set (Eades, Lin & Smyth): sinks are peeled off to
+ * the back of a sequence and sources to the front; when neither is left,
+ * the node with the largest out-degree minus in-degree goes to the front.
+ * Edges pointing backwards in the sequence are the ones that close
+ * cycles. Start events go first whatever leads into them.
+ * Returns each node's place in the sequence.
+ */
+function breakCycles(nodes: LayoutNode[], successors: number[][], predecessors: number[][]): number[] {
+  const n = nodes.length;
+  const inDegree = predecessors.map(p => p.length);
+  const outDegree = successors.map(s => s.length);
+  const removed = new Uint8Array(n);
+  const front: number[] = [];
+  const back: number[] = []; // Last node first
+  const sources: number[] = [];
+  const sinks: number[] = [];
+  let remaining = n;
+
+  const remove = (v: number) => {
+    removed[v] = 1;
+    remaining--;
+    for (const w of successors[v]) {
+      if (!removed[w] && --inDegree[w] === 0) sources.push(w);
+    }
+    for (const u of predecessors[v]) {
+      if (!removed[u] && --outDegree[u] === 0) sinks.push(u);
+    }
+  };
 
-  // Process from start nodes
-  for (const startNode of startNodes) {
-    dfs(startNode.id, 0);
+  nodes.forEach((node, v) => {
+    if (node.type === 'start') {
+      front.push(v);
+      remove(v);
+    }
+  });
+  for (let v = 0; v < n; v++) {
+    if (removed[v]) continue;
+    if (outDegree[v] === 0) sinks.push(v);
+    else if (inDegree[v] === 0) sources.push(v);
   }
 
-  // Process any remaining unvisited nodes
-  for (const node of nodes) {
-    if (!visited.has(node.id)) {
-      dfs(node.id, 0);
+  let sinkHead = 0;
+  let sourceHead = 0;
+  while (remaining > 0) {
+    if (sinkHead < sinks.length) {
+      const v = sinks[sinkHead++];
+      if (!removed[v]) {
+        back.push(v);
+        remove(v);
+      }
+    } else if (sourceHead < sources.length) {
+      const v = sources[sourceHead++];
+      if (!removed[v]) {
+        front.push(v);
+        remove(v);
+      }
+    } else {
+      let best = -1;
+      for (let v = 0; v < n; v++) {
+        if (!removed[v] && (best < 0 || outDegree[v] - inDegree[v] > outDegree[best] - inDegree[best])) best = v;
+      }
+      front.push(best);
+      remove(best);
     }
   }
 
-  // Group nodes by layer
-  const maxLayer = Math.max(...Array.from(nodeLayer.values()), 0);
-  for (let i = 0; i <= maxLayer; i++) {
-    layers.push([]);
+  const rank: number[] = new Array(n);
+  front.forEach((v, i) => { rank[v] = i; });
+  back.forEach((v, i) => { rank[v] = n - 1 - i; });
+  return rank;
+}
+
+/**
+ * Longest-path layering, walking the DAG in rank order (a topological
+ * order) instead of recursing. Sources other than start events are then
+ * pulled down next to their first successor.
+ */
+function assignLayers(nodes: LayoutNode[], down: number[][], up: number[][], byRank: number[]): number[] {
+  const layer: number[] = new Array(nodes.length).fill(0);
+  for (const v of byRank) {
+    for (const u of up[v]) layer[v] = Math.max(layer[v], layer[u] + 1);
   }
 
-  nodeLayer.forEach((layer, nodeId) => {
-    layers[layer].push(nodeId);
-  });
+  for (let i = byRank.length - 1; i >= 0; i--) {
+    const v = byRank[i];
+    if (up[v].length > 0 || down[v].length === 0 || nodes[v].type === 'start') continue;
+    layer[v] = Math.min(...down[v].map(w => layer[w])) - 1;
+  }
 
-  return layers.filter(l => l.length > 0);
+  return layer;
 }
 
+// ─────────────────────────────────────────────────────────────
+// Ordering
+// ─────────────────────────────────────────────────────────────
+
 /**
  * Order nodes within layers to minimize edge crossings
- * Uses barycenter heuristic
+ * Uses barycenter heuristic: sweep down then up, sorting each layer by
+ * the mean position of its neighbours in the layer before. Nodes without
+ * such neighbours keep their place. Given groups (swimlanes), a layer
+ * stays sorted by group first.
  */
-function orderNodesInLayers(
-  layers: string[][],
-  outgoing: Map<string, string[]>
-): string[][] {
-  const orderedLayers = layers.map(l => [...l]);
-
-  // Multiple passes to improve ordering
-  for (let pass = 0; pass < 4; pass++) {
-    // Forward pass
-    for (let i = 1; i < orderedLayers.length; i++) {
-      orderLayerByBarycenter(orderedLayers, i, outgoing, 'down');
+function orderLayers(graph: LayeredGraph, group?: number[]): void {
+  const { layers, upper, lower } = graph;
+  const position = new Float64Array(graph.layer.length);
+  const barycenter = new Float64Array(graph.layer.length);
+
+  const reindex = (layer: number[]) => layer.forEach((v, i) => { position[v] = i; });
+  const sortLayer = (layer: number[], neighbours: number[][]) => {
+    for (const v of layer) {
+      const ns = neighbours[v];
+      let sum = 0;
+      for (const u of ns) sum += position[u];
+      barycenter[v] = ns.length > 0 ? sum / ns.length : position[v];
     }
+    layer.sort((a, b) =>
+      (group ? group[a] - group[b] : 0) || barycenter[a] - barycenter[b] || position[a] - position[b]
+    );
+    reindex(layer);
+  };
+
+  layers.forEach(reindex);
+  if (group) {
+    layers.forEach(layer => {
+      layer.sort((a, b) => group[a] - group[b] || position[a] - position[b]);
+      reindex(layer);
+    });
+  }
+
+  for (let pass = 0; pass < ORDERING_PASSES; pass++) {
+    for (let l = 1; l < layers.length; l++) sortLayer(layers[l], upper);
+    for (let l = layers.length - 2; l >= 0; l--) sortLayer(layers[l], lower);
+  }
+}
 
-    // Backward pass
-    for (let i = orderedLayers.length - 2; i >= 0; i--) {
-      orderLayerByBarycenter(orderedLayers, i, outgoing, 'up');
+// ─────────────────────────────────────────────────────────────
+// Coordinate assignment (Brandes–Köpf)
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Positions across the flow: four alignments (to upper or lower
+ * neighbours, packed left or right), each compacted into blocks of
+ * vertically aligned nodes, then balanced by taking the average median
+ * per node. Returns node centres.
+ */
+function assignCrossCoordinates(
+  graph: LayeredGraph,
+  nodeSize: number,
+  nodeGap: number,
+  edgeGap: number
+): Float64Array {
+  const count = graph.layer.length;
+  const isDummy = (v: number) => v >= graph.realCount;
+  const separation = (u: number, v: number) =>
+    (isDummy(u) ? 0 : nodeSize / 2) + (isDummy(v) ? 0 : nodeSize / 2) +
+    (isDummy(u) || isDummy(v) ? edgeGap : nodeGap);
+
+  const conflicts = findInnerSegmentConflicts(graph);
+  const results: Float64Array[] = [];
+
+  for (const vertical of ['upper', 'lower'] as const) {
+    for (const horizontal of ['left', 'right'] as const) {
+      let layers = vertical === 'upper' ? graph.layers : [...graph.layers].reverse();
+      if (horizontal === 'right') layers = layers.map(layer => [...layer].reverse());
+
+      const root = alignVertically(layers, vertical === 'upper' ? graph.upper : graph.lower, conflicts, count);
+      const xs = compactHorizontally(layers, root, separation, count);
+      if (horizontal === 'right') xs.forEach((x, v) => { xs[v] = -x; });
+      results.push(xs);
     }
   }
 
-  return orderedLayers;
+  return balance(results, count);
 }
 
 /**
- * Order a single layer using barycenter method
+ * Edges that cross an inner segment (dummy to dummy) are marked so that
+ * alignment keeps long edges straight rather than the short ones
  */
-function orderLayerByBarycenter(
-  layers: string[][],
-  layerIndex: number,
-  outgoing: Map<string, string[]>,
-  direction: 'up' | 'down'
-): void {
-  const layer = layers[layerIndex];
-  const refLayer = direction === 'down'
-    ? layers[layerIndex - 1]
-    : layers[layerIndex + 1];
-
-  if (!refLayer || refLayer.length === 0) return;
-
-  const refPositions = new Map(refLayer.map((id, idx) => [id, idx]));
-
-  // Calculate barycenter for each node
-  const barycenters = layer.map(nodeId => {
-    let sum = 0;
-    let count = 0;
-
-    if (direction === 'down') {
-      // Look at predecessors
-      const predecessors = Array.from(outgoing.entries())
-        .filter(([, targets]) => targets.includes(nodeId))
-        .map(([source]) => source);
-
-      for (const pred of predecessors) {
-        if (refPositions.has(pred)) {
-          sum += refPositions.get(pred)!;
-          count++;
+function findInnerSegmentConflicts(graph: LayeredGraph): Set<number> {
+  const { layers, upper, realCount } = graph;
+  const count = graph.layer.length;
+  const conflicts = new Set<number>();
+  const position = new Int32Array(count);
+  layers.forEach(layer => layer.forEach((v, i) => { position[v] = i; }));
+
+  for (let l = 1; l < layers.length; l++) {
+    const layer = layers[l];
+    let k0 = 0;
+    let scan = 0;
+
+    layer.forEach((v, i) => {
+      const inner = v >= realCount ? upper[v].find(u => u >= realCount) : undefined;
+      if (inner === undefined && i !== layer.length - 1) return;
+
+      const k1 = inner !== undefined ? position[inner] : layers[l - 1].length;
+      for (let j = scan; j <= i; j++) {
+        const w = layer[j];
+        for (const u of upper[w]) {
+          if ((position[u] < k0 || position[u] > k1) && !(u >= realCount && w >= realCount)) {
+            conflicts.add(u * count + w);
+          }
         }
       }
-    } else {
-      // Look at successors
-      const successors = outgoing.get(nodeId) || [];
-      for (const succ of successors) {
-        if (refPositions.has(succ)) {
-          sum += refPositions.get(succ)!;
-          count++;
+      scan = i + 1;
+      k0 = k1;
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Align each node with its median neighbour in the layer before, unless
+ * that would cross an alignment already made or a marked conflict.
+ * Returns the root (topmost node) of each node's block.
+ */
+function alignVertically(
+  layers: number[][],
+  neighbours: number[][],
+  conflicts: Set<number>,
+  count: number
+): Int32Array {
+  const root = new Int32Array(count);
+  const align = new Int32Array(count);
+  const position = new Int32Array(count);
+  for (let v = 0; v < count; v++) {
+    root[v] = v;
+    align[v] = v;
+  }
+  layers.forEach(layer => layer.forEach((v, i) => { position[v] = i; }));
+
+  const hasConflict = (a: number, b: number) => conflicts.has(a * count + b) || conflicts.has(b * count + a);
+
+  for (const layer of layers) {
+    let previous = -1;
+    for (const v of layer) {
+      const ws = neighbours[v];
+      if (ws.length === 0) continue;
+      const sorted = ws.length > 1 ? [...ws].sort((a, b) => position[a] - position[b]) : ws;
+      const median = (sorted.length - 1) / 2;
+
+      for (let m = Math.floor(median); m <= Math.ceil(median); m++) {
+        const w = sorted[m];
+        if (align[v] === v && previous < position[w] && !hasConflict(v, w)) {
+          align[w] = v;
+          align[v] = root[v] = root[w];
+          previous = position[w];
         }
       }
     }
+  }
+
+  return root;
+}
+
+/**
+ * Place blocks (nodes sharing a root) as far left as their left
+ * neighbours allow, then pull each right towards its right neighbours
+ * where there is slack
+ */
+function compactHorizontally(
+  layers: number[][],
+  root: Int32Array,
+  separation: (u: number, v: number) => number,
+  count: number
+): Float64Array {
+  // Block graph: left root → right root → least distance between them
+  const edges = new Map<number, Map<number, number>>();
+  const inDegree = new Int32Array(count);
+  for (const layer of layers) {
+    for (let i = 1; i < layer.length; i++) {
+      const a = root[layer[i - 1]];
+      const b = root[layer[i]];
+      const distance = separation(layer[i - 1], layer[i]);
+      const targets = edges.get(a) || new Map<number, number>();
+      edges.set(a, targets);
+      const existing = targets.get(b);
+      if (existing === undefined) inDegree[b]++;
+      if (existing === undefined || distance > existing) targets.set(b, distance);
+    }
+  }
+
+  const order: number[] = [];
+  const ordered = new Uint8Array(count);
+  for (let v = 0; v < count; v++) {
+    if (root[v] === v && inDegree[v] === 0) {
+      order.push(v);
+      ordered[v] = 1;
+    }
+  }
+  for (let i = 0; i < order.length; i++) {
+    edges.get(order[i])?.forEach((_, b) => {
+      if (--inDegree[b] === 0 && !ordered[b]) {
+        order.push(b);
+        ordered[b] = 1;
+      }
+    });
+  }
+  // Not expected, but never leave a block unplaced
+  for (let v = 0; v < count; v++) {
+    if (root[v] === v && !ordered[v]) order.push(v);
+  }
+
+  const xs = new Float64Array(count);
+  for (const a of order) {
+    edges.get(a)?.forEach((distance, b) => { xs[b] = Math.max(xs[b], xs[a] + distance); });
+  }
+  for (let i = order.length - 1; i >= 0; i--) {
+    const targets = edges.get(order[i]);
+    if (!targets || targets.size === 0) continue;
+    let limit = Infinity;
+    targets.forEach((distance, b) => { limit = Math.min(limit, xs[b] - distance); });
+    xs[order[i]] = Math.max(xs[order[i]], limit);
+  }
 
-    return {
-      nodeId,
-      barycenter: count > 0 ? sum / count : Infinity,
-    };
+  for (let v = 0; v < count; v++) xs[v] = xs[root[v]];
+  return xs;
+}
+
+/**
+ * Shift the four layouts onto the narrowest one (left packed ones by
+ * their left edge, right packed by their right) and take the average of
+ * the two middle coordinates of each node
+ */
+function balance(results: Float64Array[], count: number): Float64Array {
+  const bounds = results.map(xs => {
+    let min = Infinity;
+    let max = -Infinity;
+    xs.forEach(x => {
+      min = Math.min(min, x);
+      max = Math.max(max, x);
+    });
+    return { min, max };
   });
+  const narrowest = bounds.reduce((best, b, i) => b.max - b.min < bounds[best].max - bounds[best].min ? i : best, 0);
 
-  // Sort by barycenter
-  barycenters.sort((a, b) => a.barycenter - b.barycenter);
+  results.forEach((xs, i) => {
+    const delta = i % 2 === 0
+      ? bounds[narrowest].min - bounds[i].min
+      : bounds[narrowest].max - bounds[i].max;
+    xs.forEach((x, v) => { xs[v] = x + delta; });
+  });
 
-  // Update layer order
-  layers[layerIndex] = barycenters.map(b => b.nodeId);
+  const balanced = new Float64Array(count);
+  for (let v = 0; v < count; v++) {
+    const values = results.map(xs => xs[v]).sort((a, b) => a - b);
+    balanced[v] = (values[1] + values[2]) / 2;
+  }
+  return balanced;
 }
 
+// ─────────────────────────────────────────────────────────────
+// Placing new nodes
+// ─────────────────────────────────────────────────────────────
+
 /**
- * Assign x,y positions to nodes
+ * Place a few nodes among an already laid out graph without moving the
+ * rest of it: each node goes one column after its predecessors (or
+ * before its successors), on a free row, and whatever sits downstream
+ * too close is pushed along to make room. With pin set nothing is
+ * pushed; a node whose column is taken moves to the nearest free row.
+ * Returns the new positions of the placed nodes and of any node pushed.
  */
-function assignPositions(
-  layers: string[][],
-  nodeMap: Map<string, ProcessNode>,
-  opts: LayoutOptions
-): void {
+export function placeNodes(
+  nodes: ProcessNode[],
+  transitions: ProcessTransition[],
+  ids: string[],
+  options: Partial<LayoutOptions> = {},
+  { pin = false }: { pin?: boolean } = {}
+): Map<string, { x: number; y: number }> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
   const isVertical = opts.direction === 'TB';
+  const step = isVertical ? opts.nodeHeight + opts.verticalGap : opts.nodeWidth + opts.horizontalGap;
+  const spread = isVertical ? opts.nodeWidth + opts.horizontalGap : opts.nodeHeight + opts.verticalGap;
+
+  // "main" runs along the flow, "cross" across it
+  const main = (p: { x: number; y: number }) => isVertical ? p.y : p.x;
+  const cross = (p: { x: number; y: number }) => isVertical ? p.x : p.y;
+  const at = (m: number, c: number) => isVertical ? { x: c, y: m } : { x: m, y: c };
+
+  const pending = new Set(ids.filter(id => nodes.some(n => n.id === id)));
+  const positions = new Map(nodes.filter(n => !pending.has(n.id)).map(n => [n.id, { ...n.position }]));
+  const changed = new Set<string>();
+
+  const placed = (nodeIds: string[]) => nodeIds.filter(id => positions.has(id)).map(id => positions.get(id)!);
+  const predecessorsOf = (id: string) => placed(transitions.filter(t => t.to === id && t.from !== id).map(t => t.from));
+  const successorsOf = (id: string) => placed(transitions.filter(t => t.from === id && t.to !== id).map(t => t.to));
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  const isFree = (position: { x: number; y: number }) =>
+    Array.from(positions.values()).every(p =>
+      Math.abs(p.x - position.x) >= opts.nodeWidth + opts.horizontalGap / 2 ||
+      Math.abs(p.y - position.y) >= opts.nodeHeight + opts.verticalGap / 2
+    );
+
+  // Nearest free row: same row, then one either side, and so on
+  const findFreeSpot = (m: number, c: number) => {
+    for (let i = 0; i < 100; i++) {
+      const offset = Math.ceil(i / 2) * spread * (i % 2 === 0 ? 1 : -1);
+      const position = at(m, c + offset);
+      if (isFree(position)) return position;
+    }
+    return at(m, c);
+  };
+
+  // Push a node and everything reachable after it along by delta
+  const push = (startId: string, delta: number) => {
+    const start = main(positions.get(startId)!);
+    const queue = [startId];
+    const seen = new Set(queue);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      const position = positions.get(id)!;
+      positions.set(id, at(main(position) + delta, cross(position)));
+      changed.add(id);
+      transitions.forEach(t => {
+        const next = positions.get(t.to);
+        if (t.from === id && next && !seen.has(t.to) && main(next) >= start) {
+          seen.add(t.to);
+          queue.push(t.to);
+        }
+      });
+    }
+  };
+
+  while (pending.size > 0) {
+    // Prefer nodes whose predecessors are placed, then whose successors are
+    const candidates = Array.from(pending);
+    const id = candidates.find(c => predecessorsOf(c).length > 0)
+      ?? candidates.find(c => successorsOf(c).length > 0)
+      ?? candidates[0];
+    const predecessors = predecessorsOf(id);
+    const successors = successorsOf(id);
+    pending.delete(id);
+    changed.add(id);
+
+    if (predecessors.length > 0) {
+      const m = Math.max(...predecessors.map(main)) + step;
+      // Successors in the way (not loops back upstream) move along a column
+      transitions
+        .filter(t => !pin && t.from === id && t.to !== id && positions.has(t.to))
+        .forEach(t => {
+          const next = main(positions.get(t.to)!);
+          if (next > m - step && next < m + step) push(t.to, m + step - next);
+        });
+      positions.set(id, findFreeSpot(m, average(predecessors.map(cross))));
+    } else if (successors.length > 0) {
+      positions.set(id, findFreeSpot(Math.min(...successors.map(main)) - step, average(successors.map(cross))));
+    } else {
+      // Not connected to anything placed: start a column after the graph
+      const all = Array.from(positions.values());
+      positions.set(id, all.length > 0
+        ? findFreeSpot(Math.max(...all.map(main)) + step, Math.min(...all.map(cross)))
+        : at(isVertical ? opts.marginY : opts.marginX, isVertical ? opts.marginX : opts.marginY));
+    }
+  }
 
-  layers.forEach((layer, layerIndex) => {
-    const layerSize = layer.length;
-    const totalSpan = isVertical
-      ? (layerSize - 1) * (opts.nodeWidth + opts.horizontalGap)
-      : (layerSize - 1) * (opts.nodeHeight + opts.verticalGap);
-
-    layer.forEach((nodeId, nodeIndex) => {
-      const node = nodeMap.get(nodeId);
-      if (!node) return;
-
-      if (isVertical) {
-        // Top to bottom: x varies within layer, y varies by layer
-        const layerOffset = nodeIndex * (opts.nodeWidth + opts.horizontalGap) - totalSpan / 2;
-        node.position = {
-          x: opts.marginX + layerOffset + 400, // Center horizontally
-          y: opts.marginY + layerIndex * (opts.nodeHeight + opts.verticalGap),
-        };
-      } else {
-        // Left to right: x varies by layer, y varies within layer
-        const layerOffset = nodeIndex * (opts.nodeHeight + opts.verticalGap) - totalSpan / 2;
-        node.position = {
-          x: opts.marginX + layerIndex * (opts.nodeWidth + opts.horizontalGap),
-          y: opts.marginY + layerOffset + 300,
-        };
-      }
-    });
-  });
+  return new Map(Array.from(changed).map(id => [id, positions.get(id)!]));
 }
@@ -0,0 +1,13 @@
+/**
+ * Workflow Layout Worker
+ *
+ * Worker entry for applyLayoutAsync: lays out the posted graph and posts
+ * back the positions.
+ */
+
+import { computeLayout, LayoutRequest } from './workflow-layout';
+
+self.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  const { nodes, transitions, options } = event.data;
+  self.postMessage(computeLayout(nodes, transitions, options));
+};
@@ -8,20 +8,51 @@
  * - XAML (Windows Workflow Foundation state machines)
  * - BPMN (Business Process Model and Notation)
  * - JSON (direct BusinessProcess format)
- * - Mermaid (flowchart syntax)
+ * - YAML (BusinessProcess fields in YAML, or an ASL definition)
+ * - Amazon States Language (AWS Step Functions)
+ * - Mermaid (flowchart and stateDiagram syntax)
+ * - SCXML (W3C state chart XML)
+ * - DOT (Graphviz digraphs)
+ * - PlantUML (activity and state diagrams)
+ * - draw.io (diagrams.net mxGraphModel, plain or compressed)
+ * - Tables (CSV/TSV state-transition tables, pasted Excel cells)
  * - Natural language (via AI interpretation)
  */
 
-import type { BusinessProcess, ProcessNode, ProcessTransition, ProcessNodeType } from '@/types/module';
-
-export type WorkflowFormat = 'xaml' | 'bpmn' | 'json' | 'mermaid' | 'natural';
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessNodeType,
+  ProcessTransition,
+  ProcessGraph,
+  TaskKind,
+  GatewayKind,
+  EventKind,
+  ProcessTimer,
+  Form,
+  Role,
+} from '@/types/module';
+import type { TableColumnMapping } from './table-parser';
+import { analyzeWorkflow, WorkflowFinding } from './workflow-analyzer';
+import { applyIncrementalLayout, isPositioned, placeNodes } from './workflow-layout';
+import { applyLayoutAsync } from './workflow-layout-async';
+
+export type WorkflowFormat = 'xaml' | 'bpmn' | 'json' | 'mermaid' | 'scxml' | 'dot' | 'plantuml' | 'table' | 'asl' | 'yaml' | 'drawio' | 'natural';
 
 export interface NormalizationResult {
   success: boolean;
   workflow?: BusinessProcess;
+  workflows?: BusinessProcess[]; // Set when the source holds several processes (BPMN pools, draw.io pages)
   format: WorkflowFormat;
   error?: string;
   warnings?: string[];
+  findings?: Record<string, WorkflowFinding[]>; // Structural analysis per process id
+}
+
+export interface NormalizationOptions {
+  tableMapping?: TableColumnMapping; // Column mapping for tables with non-standard headers
+  forms?: Form[]; // Forms of the current module, matched by table form columns and formRefs
+  roles?: Role[]; // Roles of the current module, matched by assignees and transition roles
 }
 
 /**
@@ -33,8 +64,9 @@ export function detectFormat(content: string): WorkflowFormat {
   // JSON detection
   if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
     try {
-      JSON.parse(trimmed);
-      return 'json';
+      const parsed = JSON.parse(trimmed);
+      // Step Functions definitions: { "StartAt": ..., "States": { ... } }
+      return parsed && typeof parsed.StartAt === 'string' && parsed.States ? 'asl' : 'json';
     } catch {
       // Not valid JSON
     }
@@ -42,6 +74,12 @@ export function detectFormat(content: string): WorkflowFormat {
 
   // XML-based detection
   if (trimmed.includes('<?xml') || trimmed.startsWith('<')) {
+    if (/<(mxfile|mxGraphModel)[\s>]/.test(trimmed)) {
+      return 'drawio';
+    }
+    if (/<scxml[\s>]/.test(trimmed)) {
+      return 'scxml';
+    }
     if (trimmed.includes('StateMachine') || trimmed.includes('xmlns="http://schemas.microsoft.com/netfx')) {
       return 'xaml';
     }
@@ -50,11 +88,43 @@ export function detectFormat(content: string): WorkflowFormat {
     }
   }
 
-  // Mermaid detection
-  if (trimmed.startsWith('graph ') || trimmed.startsWith('flowchart ') || trimmed.startsWith('stateDiagram')) {
+  // PlantUML detection
+  if (/^@startuml\b/m.test(trimmed)) {
+    return 'plantuml';
+  }
+
+  // DOT detection (after leading comments)
+  const dotHeader = trimmed.replace(/^(\s*(\/\/[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/))*\s*/, '');
+  if (/^(strict\s+)?(di)?graph\s*("[^"]*"|[\w.]+)?\s*\{/i.test(dotHeader)) {
+    return 'dot';
+  }
+
+  // Mermaid detection (also inside ```mermaid fences, after front matter and %% comments)
+  const mermaidHeader = trimmed
+    .replace(/^```\s*mermaid\s*\n/, '')
+    .replace(/^---\s*\n[\s\S]*?\n---\s*\n/, '')
+    .split('\n')
+    .map(l => l.trim())
+    .find(l => l && !l.startsWith('%%')) || '';
+  if (/^(graph|flowchart)\b/.test(mermaidHeader) || mermaidHeader.startsWith('stateDiagram')) {
     return 'mermaid';
   }
 
+  // YAML detection: a top-level workflow or state machine key
+  if (/^(nodes|transitions|StartAt|States)\s*:/m.test(trimmed) && /^(---\s*\n)?(#.*\n)*[\w-]+\s*:/.test(trimmed)) {
+    return 'yaml';
+  }
+
+  // Table detection: tab-separated rows (pasted from Excel) or a CSV header with From/To columns
+  const [headerLine = '', secondLine] = trimmed.split('\n');
+  const columns = headerLine.split('\t').length;
+  if (columns > 1 && secondLine !== undefined && secondLine.split('\t').length === columns) {
+    return 'table';
+  }
+  if (secondLine !== undefined && /^[^,;]*\bfrom\b.*[,;].*\bto\b/i.test(headerLine)) {
+    return 'table';
+  }
+
   // Default to natural language
   return 'natural';
 }
@@ -62,29 +132,68 @@ export function detectFormat(content: string): WorkflowFormat {
 /**
  * Normalize any workflow format to BusinessProcess
  */
-export async function normalizeWorkflow(content: string, formatHint?: WorkflowFormat): Promise<NormalizationResult> {
+export async function normalizeWorkflow(
+  content: string,
+  formatHint?: WorkflowFormat,
+  options: NormalizationOptions = {}
+): Promise<NormalizationResult> {
   const format = formatHint || detectFormat(content);
   const warnings: string[] = [];
 
   try {
-    let workflow: BusinessProcess;
+    let workflows: BusinessProcess[];
 
     switch (format) {
       case 'xaml':
         const { parseXamlWorkflow } = await import('./xaml-parser');
-        workflow = await parseXamlWorkflow(content);
+        workflows = [await parseXamlWorkflow(content)];
         break;
 
       case 'bpmn':
-        workflow = await parseBpmnWorkflow(content);
+        workflows = await parseBpmnWorkflow(content);
         break;
 
       case 'json':
-        workflow = parseJsonWorkflow(content);
+        workflows = [parseJsonWorkflow(content)];
+        break;
+
+      case 'asl':
+        const { parseAslWorkflow } = await import('./asl-parser');
+        workflows = [parseAslWorkflow(JSON.parse(content), warnings)];
+        break;
+
+      case 'yaml':
+        workflows = [await parseYamlWorkflow(content, warnings)];
         break;
 
       case 'mermaid':
-        workflow = parseMermaidWorkflow(content);
+        const { parseMermaidWorkflow } = await import('./mermaid-parser');
+        workflows = [parseMermaidWorkflow(content, warnings)];
+        break;
+
+      case 'scxml':
+        const { parseScxmlWorkflow } = await import('./scxml-parser');
+        workflows = [parseScxmlWorkflow(content, warnings)];
+        break;
+
+      case 'dot':
+        const { parseDotWorkflow } = await import('./dot-parser');
+        workflows = [parseDotWorkflow(content, warnings)];
+        break;
+
+      case 'plantuml':
+        const { parsePlantUmlWorkflow } = await import('./plantuml-parser');
+        workflows = [parsePlantUmlWorkflow(content, warnings)];
+        break;
+
+      case 'drawio':
+        const { parseDrawioWorkflow } = await import('./drawio-parser');
+        workflows = await parseDrawioWorkflow(content, warnings);
+        break;
+
+      case 'table':
+        const { parseTableWorkflow } = await import('./table-parser');
+        workflows = [parseTableWorkflow(content, { mapping: options.tableMapping, forms: options.forms }, warnings)];
         break;
 
       case 'natural':
@@ -103,15 +212,27 @@ export async function normalizeWorkflow(content: string, formatHint?: WorkflowFo
         };
     }
 
-    // Validate and apply layout
-    validateWorkflow(workflow, warnings);
-    applyWorkflowLayout(workflow);
+    // Validate, analyze and apply layout
+    const findings: Record<string, WorkflowFinding[]> = {};
+    for (const workflow of workflows) {
+      const workflowWarnings: string[] = [];
+      validateWorkflow(workflow, workflowWarnings);
+      findings[workflow.id] = analyzeWorkflow(workflow, { forms: options.forms, roles: options.roles });
+      await applyWorkflowLayout(workflow);
+
+      // Prefix warnings with the process name when a file holds several pools
+      warnings.push(...(workflows.length > 1
+        ? workflowWarnings.map(w => `${workflow.name}: ${w}`)
+        : workflowWarnings));
+    }
 
     return {
       success: true,
-      workflow,
+      workflow: workflows[0],
+      workflows: workflows.length > 1 ? workflows : undefined,
       format,
       warnings: warnings.length > 0 ? warnings : undefined,
+      findings,
     };
   } catch (err) {
     return {
@@ -122,189 +243,345 @@ export async function normalizeWorkflow(content: string, formatHint?: WorkflowFo
   }
 }
 
+// Reference height our BPMN export anchors shapes on (task shape height).
+// Shapes are centered on this line, so imports invert the same offset.
+const BPMN_REFERENCE_HEIGHT = 80;
+
+interface BpmnBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 /**
  * Parse BPMN XML to BusinessProcess
+ *
+ * Each `process` (pool) becomes its own BusinessProcess. Diagram interchange
+ * bounds are kept as node positions and lane membership becomes the assignee.
  */
-async function parseBpmnWorkflow(content: string): Promise<BusinessProcess> {
+async function parseBpmnWorkflow(content: string): Promise<BusinessProcess[]> {
   const parser = new DOMParser();
   const doc = parser.parseFromString(content, 'text/xml');
 
-  const nodes: ProcessNode[] = [];
-  const transitions: ProcessTransition[] = [];
+  const processElements = Array.from(doc.querySelectorAll('process, bpmn\\:process'));
+  if (processElements.length === 0) {
+    throw new Error('Invalid BPMN: no process element found');
+  }
 
-  // Extract process elements
-  const startEvents = doc.querySelectorAll('startEvent, bpmn\\:startEvent');
-  const endEvents = doc.querySelectorAll('endEvent, bpmn\\:endEvent');
-  const tasks = doc.querySelectorAll('task, userTask, serviceTask, bpmn\\:task, bpmn\\:userTask, bpmn\\:serviceTask');
-  const gateways = doc.querySelectorAll('exclusiveGateway, parallelGateway, bpmn\\:exclusiveGateway, bpmn\\:parallelGateway');
-  const flows = doc.querySelectorAll('sequenceFlow, bpmn\\:sequenceFlow');
-
-  // Process start events
-  startEvents.forEach(el => {
-    nodes.push({
-      id: el.getAttribute('id') || generateId(),
-      type: 'start',
-      name: el.getAttribute('name') || 'Start',
-      position: { x: 0, y: 0 },
-    });
+  // Pool names come from collaboration participants
+  const participantNames = new Map<string, string>();
+  doc.querySelectorAll('participant, bpmn\\:participant').forEach(el => {
+    const processRef = el.getAttribute('processRef');
+    const name = el.getAttribute('name');
+    if (processRef && name) {
+      participantNames.set(processRef, name);
+    }
   });
 
-  // Process tasks
-  tasks.forEach(el => {
-    nodes.push({
-      id: el.getAttribute('id') || generateId(),
-      type: 'task',
-      name: el.getAttribute('name') || 'Task',
-      position: { x: 0, y: 0 },
-    });
-  });
+  const shapeBounds = extractBpmnShapeBounds(doc);
 
-  // Process gateways
-  gateways.forEach(el => {
-    nodes.push({
-      id: el.getAttribute('id') || generateId(),
-      type: 'gateway',
-      name: el.getAttribute('name') || 'Gateway',
-      position: { x: 0, y: 0 },
-    });
-  });
+  const workflows = processElements.map(el => parseBpmnProcess(el, participantNames, shapeBounds));
 
-  // Process end events
-  endEvents.forEach(el => {
-    nodes.push({
-      id: el.getAttribute('id') || generateId(),
-      type: 'end',
-      name: el.getAttribute('name') || 'End',
-      position: { x: 0, y: 0 },
-    });
-  });
+  // Drop empty pools (e.g. black-box participants) unless nothing else is left
+  const nonEmpty = workflows.filter(w => w.nodes.length > 0);
+  return nonEmpty.length > 0 ? nonEmpty : workflows.slice(0, 1);
+}
 
-  // Process sequence flows
-  flows.forEach(el => {
-    const sourceRef = el.getAttribute('sourceRef');
-    const targetRef = el.getAttribute('targetRef');
-    if (sourceRef && targetRef) {
-      transitions.push({
-        id: el.getAttribute('id') || generateId(),
-        from: sourceRef,
-        to: targetRef,
-        label: el.getAttribute('name') || undefined,
+/**
+ * Parse a single BPMN process element
+ */
+function parseBpmnProcess(
+  processEl: Element,
+  participantNames: Map<string, string>,
+  shapeBounds: Map<string, BpmnBounds>
+): BusinessProcess {
+  const { nodes, transitions } = parseBpmnContainer(processEl, shapeBounds);
+
+  // Lanes -> assignee. Nested lanes come after their parent in document
+  // order, so the innermost lane wins.
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  processEl.querySelectorAll('lane, bpmn\\:lane').forEach(laneEl => {
+    const laneName = laneEl.getAttribute('name');
+    if (!laneName) return;
+
+    Array.from(laneEl.children)
+      .filter(child => child.localName === 'flowNodeRef')
+      .forEach(ref => {
+        const node = nodeMap.get(ref.textContent?.trim() || '');
+        if (node) node.assignee = laneName;
       });
-    }
   });
 
+  const processId = processEl.getAttribute('id');
+  const processName = (processId && participantNames.get(processId)) || processEl.getAttribute('name');
+
   return {
     id: generateId(),
-    name: 'BPMN Workflow',
-    code: 'bpmn-workflow',
+    name: processName || 'BPMN Workflow',
+    code: processId || 'bpmn-workflow',
     description: 'Imported from BPMN',
     nodes,
     transitions,
   };
 }
 
+const BPMN_TASK_KINDS: Record<string, TaskKind> = {
+  task: 'none',
+  userTask: 'user',
+  serviceTask: 'service',
+  scriptTask: 'script',
+  manualTask: 'manual',
+  sendTask: 'send',
+  receiveTask: 'receive',
+  businessRuleTask: 'businessRule',
+};
+
+const BPMN_GATEWAY_KINDS: Record<string, GatewayKind> = {
+  exclusiveGateway: 'exclusive',
+  parallelGateway: 'parallel',
+  inclusiveGateway: 'inclusive',
+  eventBasedGateway: 'eventBased',
+  complexGateway: 'complex',
+};
+
+const BPMN_EVENT_DEFINITIONS: Record<string, EventKind> = {
+  messageEventDefinition: 'message',
+  timerEventDefinition: 'timer',
+  signalEventDefinition: 'signal',
+  errorEventDefinition: 'error',
+  escalationEventDefinition: 'escalation',
+  conditionalEventDefinition: 'conditional',
+  compensateEventDefinition: 'compensation',
+  linkEventDefinition: 'link',
+  cancelEventDefinition: 'cancel',
+  terminateEventDefinition: 'terminate',
+};
+
+const BPMN_SUBPROCESS_ELEMENTS = ['subProcess', 'transaction', 'adHocSubProcess'];
+
+// Elements that carry no process semantics for us (artifacts, data, lanes)
+const BPMN_IGNORED_ELEMENTS = [
+  'laneSet', 'documentation', 'extensionElements', 'incoming', 'outgoing',
+  'textAnnotation', 'association', 'group', 'dataObject', 'dataObjectReference',
+  'dataStoreReference', 'property', 'ioSpecification', 'dataInputAssociation',
+  'dataOutputAssociation', 'multiInstanceLoopCharacteristics', 'standardLoopCharacteristics',
+];
+
+/**
+ * Parse the direct flow elements of a process or subprocess.
+ * Subprocesses keep their contents as an embedded child graph.
+ */
+function parseBpmnContainer(container: Element, shapeBounds: Map<string, BpmnBounds>): ProcessGraph {
+  const nodes: ProcessNode[] = [];
+  const transitions: ProcessTransition[] = [];
+
+  for (const el of Array.from(container.children)) {
+    const tag = el.localName;
+    const id = el.getAttribute('id') || generateId();
+    const name = el.getAttribute('name');
+    const base = { id, position: bpmnBoundsToPosition(shapeBounds.get(id)) };
+
+    if (tag === 'startEvent' || tag === 'endEvent') {
+      const type = tag === 'startEvent' ? 'start' : 'end';
+      const eventKind = getBpmnEventKind(el);
+      nodes.push({
+        ...base,
+        type,
+        name: name || (type === 'start' ? 'Start' : 'End'),
+        eventKind: eventKind !== 'none' ? eventKind : undefined,
+        timer: getBpmnTimer(el),
+      });
+    } else if (tag in BPMN_TASK_KINDS) {
+      nodes.push({ ...base, type: 'task', name: name || 'Task', taskKind: BPMN_TASK_KINDS[tag] });
+    } else if (tag in BPMN_GATEWAY_KINDS) {
+      nodes.push({ ...base, type: 'gateway', name: name || 'Gateway', gatewayKind: BPMN_GATEWAY_KINDS[tag] });
+    } else if (BPMN_SUBPROCESS_ELEMENTS.includes(tag)) {
+      nodes.push({
+        ...base,
+        type: 'subprocess',
+        name: name || 'Subprocess',
+        children: parseBpmnContainer(el, shapeBounds),
+      });
+    } else if (tag === 'callActivity') {
+      nodes.push({
+        ...base,
+        type: 'subprocess',
+        name: name || 'Call Activity',
+        calledProcess: el.getAttribute('calledElement') || undefined,
+      });
+    } else if (tag === 'intermediateCatchEvent' || tag === 'intermediateThrowEvent') {
+      nodes.push({
+        ...base,
+        type: 'event',
+        name: name || 'Event',
+        eventKind: getBpmnEventKind(el),
+        eventRole: tag === 'intermediateThrowEvent' ? 'throw' : 'catch',
+        timer: getBpmnTimer(el),
+      });
+    } else if (tag === 'boundaryEvent') {
+      nodes.push({
+        ...base,
+        type: 'event',
+        name: name || 'Boundary Event',
+        eventKind: getBpmnEventKind(el),
+        eventRole: 'catch',
+        attachedTo: el.getAttribute('attachedToRef') || undefined,
+        interrupting: el.getAttribute('cancelActivity') === 'false' ? false : undefined,
+        timer: getBpmnTimer(el),
+      });
+    } else if (tag === 'sequenceFlow') {
+      const sourceRef = el.getAttribute('sourceRef');
+      const targetRef = el.getAttribute('targetRef');
+      if (sourceRef && targetRef) {
+        const conditionEl = Array.from(el.children).find(child => child.localName === 'conditionExpression');
+        transitions.push({
+          id,
+          from: sourceRef,
+          to: targetRef,
+          label: name || undefined,
+          condition: conditionEl?.textContent?.trim() || undefined,
+        });
+      }
+    } else if (!BPMN_IGNORED_ELEMENTS.includes(tag)) {
+      // Unknown flow element - keep it as a plain task so its flows stay connected
+      nodes.push({ ...base, type: 'task', name: name || tag });
+    }
+  }
+
+  // Interrupting timer on an activity: its deadline, escalating along the timer's flow
+  nodes
+    .filter(n => n.attachedTo && n.timer?.type === 'duration' && n.interrupting !== false)
+    .forEach(event => {
+      const host = nodes.find(n => n.id === event.attachedTo);
+      if (!host || host.sla) return;
+      host.sla = {
+        due: event.timer!.value,
+        escalateTo: transitions.find(t => t.from === event.id)?.to,
+      };
+    });
+
+  return { nodes, transitions };
+}
+
+/**
+ * Timer definition (timeDuration, timeDate or timeCycle) of a timer event
+ */
+function getBpmnTimer(el: Element): ProcessTimer | undefined {
+  const definition = Array.from(el.children).find(child => child.localName === 'timerEventDefinition');
+  const valueEl = definition && Array.from(definition.children).find(child =>
+    ['timeDuration', 'timeDate', 'timeCycle'].includes(child.localName)
+  );
+  const value = valueEl?.textContent?.trim();
+  if (!valueEl || !value) return undefined;
+
+  const types: Record<string, ProcessTimer['type']> = { timeDuration: 'duration', timeDate: 'date', timeCycle: 'cycle' };
+  return { type: types[valueEl.localName], value };
+}
+
+/**
+ * Event kind from the event definition child element
+ */
+function getBpmnEventKind(el: Element): EventKind {
+  const definition = Array.from(el.children).find(child => child.localName in BPMN_EVENT_DEFINITIONS);
+  return definition ? BPMN_EVENT_DEFINITIONS[definition.localName] : 'none';
+}
+
+/**
+ * Collect BPMNShape bounds keyed by the referenced element id
+ */
+function extractBpmnShapeBounds(doc: Document): Map<string, BpmnBounds> {
+  const bounds = new Map<string, BpmnBounds>();
+
+  doc.querySelectorAll('BPMNShape, bpmndi\\:BPMNShape').forEach(shape => {
+    const elementId = shape.getAttribute('bpmnElement');
+    const boundsEl = Array.from(shape.children).find(child => child.localName === 'Bounds');
+    if (!elementId || !boundsEl) return;
+
+    const [x, y, width, height] = ['x', 'y', 'width', 'height']
+      .map(attr => parseFloat(boundsEl.getAttribute(attr) || '0'));
+    if ([x, y, width, height].some(Number.isNaN)) return;
+
+    bounds.set(elementId, { x, y, width, height });
+  });
+
+  return bounds;
+}
+
+/**
+ * Convert DI bounds to a node position (inverse of the BPMN export offset)
+ */
+function bpmnBoundsToPosition(bounds: BpmnBounds | undefined): { x: number; y: number } {
+  if (!bounds) return { x: 0, y: 0 };
+
+  return {
+    x: bounds.x,
+    y: bounds.y + (bounds.height - BPMN_REFERENCE_HEIGHT) / 2,
+  };
+}
+
 /**
  * Parse direct JSON BusinessProcess format
  */
 function parseJsonWorkflow(content: string): BusinessProcess {
-  const parsed = JSON.parse(content);
+  return toBusinessProcess(JSON.parse(content));
+}
+
+/**
+ * Parse YAML: either BusinessProcess fields (same shape as the JSON format,
+ * positions optional) or a Step Functions definition written in YAML.
+ */
+async function parseYamlWorkflow(content: string, warnings: string[]): Promise<BusinessProcess> {
+  const { parse } = await import('yaml');
+  const parsed = parse(content);
 
+  const { isAslDefinition, parseAslWorkflow } = await import('./asl-parser');
+  if (isAslDefinition(parsed)) {
+    return parseAslWorkflow(parsed, warnings);
+  }
+
+  return toBusinessProcess(parsed);
+}
+
+/**
+ * Build a BusinessProcess from a parsed JSON/YAML object
+ */
+function toBusinessProcess(parsed: Record<string, unknown>): BusinessProcess {
   // Handle wrapped format { type: 'process', data: {...} }
-  const data = parsed.data || parsed;
+  const data = (parsed?.data || parsed) as Record<string, unknown>;
 
   // Validate required fields
-  if (!data.nodes || !Array.isArray(data.nodes)) {
-    throw new Error('Invalid workflow JSON: missing nodes array');
+  if (!data || !data.nodes || !Array.isArray(data.nodes)) {
+    throw new Error('Invalid workflow: missing nodes array');
   }
   if (!data.transitions && !data.edges) {
-    throw new Error('Invalid workflow JSON: missing transitions/edges array');
+    throw new Error('Invalid workflow: missing transitions/edges array');
   }
 
+  const transitions = (data.transitions || data.edges || []) as Record<string, unknown>[];
+
   return {
-    id: data.id || generateId(),
-    name: data.name || 'Workflow',
-    code: data.code || 'workflow',
-    description: data.description,
-    nodes: data.nodes.map((n: Partial<ProcessNode>) => ({
+    id: (data.id as string) || generateId(),
+    name: (data.name as string) || 'Workflow',
+    code: (data.code as string) || 'workflow',
+    description: data.description as string | undefined,
+    nodes: (data.nodes as Partial<ProcessNode>[]).map(n => ({
+      ...n,
       id: n.id || generateId(),
       type: n.type || 'task',
       name: n.name || 'Node',
       position: n.position || { x: 0, y: 0 },
     })),
-    transitions: (data.transitions || data.edges || []).map((t: Record<string, unknown>) => ({
+    transitions: transitions.map(({ source, target, ...t }) => ({
+      ...t,
       id: (t.id as string) || generateId(),
-      from: (t.from as string) || (t.source as string) || '',
-      to: (t.to as string) || (t.target as string) || '',
+      from: (t.from as string) || (source as string) || '',
+      to: (t.to as string) || (target as string) || '',
       label: t.label as string | undefined,
       condition: t.condition as string | undefined,
     })),
-  };
-}
-
-/**
- * Parse Mermaid flowchart syntax
- */
-function parseMermaidWorkflow(content: string): BusinessProcess {
-  const nodes: ProcessNode[] = [];
-  const transitions: ProcessTransition[] = [];
-  const nodeMap = new Map<string, ProcessNode>();
-
-  // Parse lines
-  const lines = content.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('%%'));
-
-  // Skip the first line (graph/flowchart declaration)
-  const contentLines = lines.slice(1);
-
-  for (const line of contentLines) {
-    // Match node definitions: A[Label] or A((Label)) or A{Label}
-    const nodeMatch = line.match(/^(\w+)(?:\[([^\]]+)\]|\(\(([^)]+)\)\)|\{([^}]+)\})/);
-    if (nodeMatch) {
-      const [, id, squareLabel, circleLabel, diamondLabel] = nodeMatch;
-      const label = squareLabel || circleLabel || diamondLabel || id;
-      let type: ProcessNodeType = 'task';
-      if (circleLabel) type = id.toLowerCase().includes('start') ? 'start' : 'end';
-      if (diamondLabel) type = 'gateway';
-
-      if (!nodeMap.has(id)) {
-        const node: ProcessNode = { id, type, name: label, position: { x: 0, y: 0 } };
-        nodes.push(node);
-        nodeMap.set(id, node);
-      }
-    }
-
-    // Match transitions: A --> B or A -->|label| B
-    const transMatch = line.match(/(\w+)\s*--+>?\s*(?:\|([^|]+)\|)?\s*(\w+)/);
-    if (transMatch) {
-      const [, from, label, to] = transMatch;
-
-      // Ensure nodes exist
-      if (!nodeMap.has(from)) {
-        const node: ProcessNode = { id: from, type: 'task', name: from, position: { x: 0, y: 0 } };
-        nodes.push(node);
-        nodeMap.set(from, node);
-      }
-      if (!nodeMap.has(to)) {
-        const node: ProcessNode = { id: to, type: 'task', name: to, position: { x: 0, y: 0 } };
-        nodes.push(node);
-        nodeMap.set(to, node);
-      }
-
-      transitions.push({
-        id: generateId(),
-        from,
-        to,
-        label: label || undefined,
-      });
-    }
-  }
-
-  return {
-    id: generateId(),
-    name: 'Mermaid Workflow',
-    code: 'mermaid-workflow',
-    description: 'Imported from Mermaid diagram',
-    nodes,
-    transitions,
+    variables: data.variables as BusinessProcess['variables'],
+    scenarios: data.scenarios as BusinessProcess['scenarios'],
   };
 }
 
@@ -346,18 +623,19 @@ function validateWorkflow(workflow: BusinessProcess, warnings: string[]): void {
 }
 
 /**
- * Apply layout to workflow using custom algorithm
+ * Apply layout to workflow using custom algorithm; large workflows are
+ * laid out in a worker in the browser. Positions from the source file are
+ * kept and only the nodes it left unplaced get placed.
  */
-function applyWorkflowLayout(workflow: BusinessProcess): void {
-  if (workflow.nodes.length === 0) return;
+async function applyWorkflowLayout(workflow: BusinessProcess): Promise<void> {
+  if (workflow.nodes.every(isPositioned)) return;
 
-  // Check if positions already set
-  const hasPositions = workflow.nodes.some(n => n.position.x !== 0 || n.position.y !== 0);
-  if (hasPositions) return;
+  if (workflow.nodes.some(isPositioned)) {
+    applyIncrementalLayout(workflow.nodes, workflow.transitions);
+    return;
+  }
 
-  // Use our custom layout algorithm
-  const { applyLayout: doLayout } = require('./workflow-layout');
-  doLayout(workflow.nodes, workflow.transitions);
+  await applyLayoutAsync(workflow.nodes, workflow.transitions);
 }
 
 function generateId(): string {
@@ -369,72 +647,295 @@ function generateId(): string {
 // ─────────────────────────────────────────────────────────────
 
 export interface WorkflowMutation {
-  type: 'addNode' | 'removeNode' | 'updateNode' | 'addTransition' | 'removeTransition' | 'updateTransition';
+  type: 'addNode' | 'removeNode' | 'updateNode' | 'moveNode' | 'reorder' | 'addTransition' | 'removeTransition' | 'updateTransition';
   payload: Record<string, unknown>;
 }
 
+export const MUTATION_TYPES: WorkflowMutation['type'][] = [
+  'addNode',
+  'removeNode',
+  'updateNode',
+  'moveNode',
+  'reorder',
+  'addTransition',
+  'removeTransition',
+  'updateTransition',
+];
+
+export interface MutationResult {
+  workflow: BusinessProcess; // Unchanged when the mutation is rejected
+  applied: WorkflowMutation; // The mutation as applied, with generated ids filled in
+  inverse: WorkflowMutation[]; // Mutations that undo it, in order
+  error?: string; // Why the mutation was rejected, e.g. 'No node with id "node_009"'
+}
+
+const NODE_TYPES: ProcessNodeType[] = ['start', 'end', 'task', 'gateway', 'subprocess', 'event'];
+
 /**
- * Apply a mutation to a workflow
+ * Apply a mutation to a workflow. A mutation that refers to a missing
+ * node or transition, or would leave the graph inconsistent, is
+ * rejected with the reason instead.
  */
-export function applyMutation(workflow: BusinessProcess, mutation: WorkflowMutation): BusinessProcess {
+export function applyMutation(workflow: BusinessProcess, mutation: WorkflowMutation): MutationResult {
   const updated = structuredClone(workflow);
+  let applied = mutation;
+  const inverse: WorkflowMutation[] = [];
+  const reject = (error: string): MutationResult => ({ workflow, applied: mutation, inverse: [], error });
+  const findNode = (id: unknown) => updated.nodes.find(n => n.id === id);
 
   switch (mutation.type) {
     case 'addNode': {
-      const { id, name, type = 'task' } = mutation.payload as { id?: string; name: string; type?: ProcessNodeType };
-      updated.nodes.push({
-        id: id || generateId(),
+      const { id, name, type = 'task', position, index, ...rest } = mutation.payload as Partial<ProcessNode> & {
+        name: string;
+        index?: number; // Position in the node list (default: last)
+      };
+      if (typeof name !== 'string' || !name.trim()) return reject('A new node needs a name');
+      if (!NODE_TYPES.includes(type)) return reject(`Unknown node type "${type}"`);
+      if (id && findNode(id)) return reject(`Node id "${id}" is already in use`);
+
+      const node: ProcessNode = {
+        ...rest,
+        id: id || createElementId(updated.nodes, 'node'),
         name,
         type,
-        position: { x: 0, y: 0 },
-      });
+        position: position || { x: 0, y: 0 },
+      };
+      insertAt(updated.nodes, node, index);
+      // Start beside the graph rather than on top of the first node
+      if (!position) node.position = placeNodes(updated.nodes, updated.transitions, [node.id]).get(node.id)!;
+      applied = { type: 'addNode', payload: { ...mutation.payload, id: node.id } };
+      inverse.push({ type: 'removeNode', payload: { id: node.id } });
       break;
     }
 
     case 'removeNode': {
       const { id } = mutation.payload as { id: string };
+      const index = updated.nodes.findIndex(n => n.id === id);
+      if (index < 0) return reject(`No node with id "${id}"`);
+
+      // Restore the node, then its transitions where they were
+      inverse.push({ type: 'addNode', payload: { ...updated.nodes[index], index } });
+      updated.transitions.forEach((t, i) => {
+        if (t.from === id || t.to === id) inverse.push({ type: 'addTransition', payload: { ...t, index: i } });
+      });
+
       updated.nodes = updated.nodes.filter(n => n.id !== id);
       updated.transitions = updated.transitions.filter(t => t.from !== id && t.to !== id);
+
+      // Drop references to it from boundary events and SLA escalations,
+      // restoring them after the node on undo
+      for (const node of updated.nodes) {
+        if (node.attachedTo === id) {
+          inverse.push({ type: 'updateNode', payload: { id: node.id, attachedTo: id } });
+          delete node.attachedTo;
+        }
+        if (node.sla?.escalateTo === id) {
+          inverse.push({ type: 'updateNode', payload: { id: node.id, sla: node.sla } });
+          node.sla = { ...node.sla };
+          delete node.sla.escalateTo;
+        }
+      }
       break;
     }
 
     case 'updateNode': {
-      const { id, ...changes } = mutation.payload as { id: string; name?: string; type?: ProcessNodeType };
-      const node = updated.nodes.find(n => n.id === id);
-      if (node) {
-        Object.assign(node, changes);
+      const { id, ...changes } = mutation.payload as { id: string } & Partial<Omit<ProcessNode, 'id'>>;
+      const node = findNode(id);
+      if (!node) return reject(`No node with id "${id}"`);
+      if ('name' in changes && (typeof changes.name !== 'string' || !changes.name.trim())) {
+        return reject(`Node "${node.name}" cannot have an empty name`);
+      }
+      if (changes.type !== undefined && !NODE_TYPES.includes(changes.type)) {
+        return reject(`Unknown node type "${changes.type}"`);
+      }
+
+      inverse.push({ type: 'updateNode', payload: { id, ...pick(node, Object.keys(changes)) } });
+      Object.assign(node, changes);
+      break;
+    }
+
+    case 'moveNode': {
+      const { id, position } = mutation.payload as { id: string; position?: { x: number; y: number } };
+      const node = findNode(id);
+      if (!node) return reject(`No node with id "${id}"`);
+      if (!position || !Number.isFinite(position.x) || !Number.isFinite(position.y)) {
+        return reject(`Moving "${node.name}" needs an x and y position`);
       }
+
+      inverse.push({ type: 'moveNode', payload: { id, position: node.position } });
+      node.position = { x: position.x, y: position.y };
+      break;
+    }
+
+    case 'reorder': {
+      // Order matters for the node list and for the order of actions out of a state
+      const { target, id, index } = mutation.payload as { target: 'node' | 'transition'; id: string; index: number };
+      if (target !== 'node' && target !== 'transition') return reject('Reorder target must be "node" or "transition"');
+      if (!Number.isInteger(index)) return reject('Reorder needs the new index');
+
+      const items: { id: string }[] = target === 'node' ? updated.nodes : updated.transitions;
+      const from = items.findIndex(item => item.id === id);
+      if (from < 0) return reject(`No ${target} with id "${id}"`);
+
+      const [item] = items.splice(from, 1);
+      items.splice(Math.max(0, Math.min(index, items.length)), 0, item);
+      inverse.push({ type: 'reorder', payload: { target, id, index: from } });
       break;
     }
 
     case 'addTransition': {
-      const { from, to, label } = mutation.payload as { from: string; to: string; label?: string };
-      updated.transitions.push({
-        id: generateId(),
+      const { id, from, to, index, ...rest } = mutation.payload as Partial<ProcessTransition> & {
+        from: string;
+        to: string;
+        index?: number; // Position in the transition list (default: last)
+      };
+      if (!findNode(from)) return reject(`Transition source "${from}" does not exist`);
+      if (!findNode(to)) return reject(`Transition target "${to}" does not exist`);
+      if (id && updated.transitions.some(t => t.id === id)) return reject(`Transition id "${id}" is already in use`);
+
+      const transition: ProcessTransition = {
+        ...rest,
+        id: id || createElementId(updated.transitions, 'trans'),
         from,
         to,
-        label,
-      });
+      };
+      insertAt(updated.transitions, transition, index);
+      applied = { type: 'addTransition', payload: { ...mutation.payload, id: transition.id } };
+      inverse.push({ type: 'removeTransition', payload: { id: transition.id } });
       break;
     }
 
     case 'removeTransition': {
-      const { from, to } = mutation.payload as { from: string; to: string };
-      updated.transitions = updated.transitions.filter(t => !(t.from === from && t.to === to));
+      const trans = findTransition(updated, mutation.payload);
+      if (typeof trans === 'string') return reject(trans);
+
+      const index = updated.transitions.indexOf(trans);
+      inverse.push({ type: 'addTransition', payload: { ...trans, index } });
+      updated.transitions.splice(index, 1);
+      applied = { type: 'removeTransition', payload: { id: trans.id } };
       break;
     }
 
     case 'updateTransition': {
-      const { from, to, ...changes } = mutation.payload as { from: string; to: string; label?: string };
-      const trans = updated.transitions.find(t => t.from === from && t.to === to);
-      if (trans) {
-        Object.assign(trans, changes);
-      }
+      const { id, from, to, ...changes } = mutation.payload as { id?: string; from?: string; to?: string } & Partial<Omit<ProcessTransition, 'id' | 'from' | 'to'>>;
+      const trans = findTransition(updated, id ? { id } : { from, to });
+      if (typeof trans === 'string') return reject(trans);
+
+      // Addressed by id, from and to reconnect the transition
+      const fields: Record<string, unknown> = { ...changes };
+      if (id && from !== undefined) fields.from = from;
+      if (id && to !== undefined) fields.to = to;
+      if ('from' in fields && !findNode(fields.from)) return reject(`Transition source "${fields.from}" does not exist`);
+      if ('to' in fields && !findNode(fields.to)) return reject(`Transition target "${fields.to}" does not exist`);
+
+      inverse.push({ type: 'updateTransition', payload: { id: trans.id, ...pick(trans, Object.keys(fields)) } });
+      Object.assign(trans, fields);
+      applied = { type: 'updateTransition', payload: { id: trans.id, ...fields } };
       break;
     }
+
+    default:
+      return reject(`Unknown mutation type "${(mutation as { type: string }).type}"`);
   }
 
-  return updated;
+  return { workflow: updated, applied, inverse };
+}
+
+/**
+ * Mutations that turn one version of a workflow into another, e.g. to
+ * restore a checkpoint as an undoable change
+ */
+export function diffWorkflows(from: BusinessProcess, to: BusinessProcess): WorkflowMutation[] {
+  const mutations: WorkflowMutation[] = [];
+  const fromNodes = new Map(from.nodes.map(n => [n.id, n]));
+  const fromTransitions = new Map(from.transitions.map(t => [t.id, t]));
+  const toNodeIds = new Set(to.nodes.map(n => n.id));
+  const toTransitionIds = new Set(to.transitions.map(t => t.id));
+
+  from.transitions
+    .filter(t => !toTransitionIds.has(t.id))
+    .forEach(t => mutations.push({ type: 'removeTransition', payload: { id: t.id } }));
+  from.nodes
+    .filter(n => !toNodeIds.has(n.id))
+    .forEach(n => mutations.push({ type: 'removeNode', payload: { id: n.id } }));
+
+  to.nodes.forEach((node, index) => {
+    const before = fromNodes.get(node.id);
+    if (!before) {
+      mutations.push({ type: 'addNode', payload: { ...node, index } });
+      return;
+    }
+    const changes = getChangedFields(before, node);
+    if (changes) mutations.push({ type: 'updateNode', payload: { id: node.id, ...changes } });
+  });
+
+  to.transitions.forEach((transition, index) => {
+    const before = fromTransitions.get(transition.id);
+    if (!before) {
+      mutations.push({ type: 'addTransition', payload: { ...transition, index } });
+      return;
+    }
+    const changes = getChangedFields(before, transition);
+    if (changes) mutations.push({ type: 'updateTransition', payload: { id: transition.id, ...changes } });
+  });
+
+  return mutations;
+}
+
+/**
+ * Next free id in the "node_001" / "trans_001" style the generator uses
+ */
+export function createElementId(items: { id: string }[], prefix: 'node' | 'trans'): string {
+  const ids = new Set(items.map(item => item.id));
+  const pattern = new RegExp(`^${prefix}_(\\d+)$`);
+  let next = items.reduce((max, item) => {
+    const match = item.id.match(pattern);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0) + 1;
+  while (ids.has(`${prefix}_${String(next).padStart(3, '0')}`)) next++;
+  return `${prefix}_${String(next).padStart(3, '0')}`;
+}
+
+/**
+ * The transition a mutation refers to: by id, or by source and target
+ * when exactly one transition connects them. Otherwise the reason there
+ * is no single match.
+ */
+function findTransition(
+  workflow: BusinessProcess,
+  payload: { id?: unknown; from?: unknown; to?: unknown }
+): ProcessTransition | string {
+  if (payload.id) {
+    return workflow.transitions.find(t => t.id === payload.id) || `No transition with id "${payload.id}"`;
+  }
+  const matches = workflow.transitions.filter(t => t.from === payload.from && t.to === payload.to);
+  if (matches.length === 1) return matches[0];
+  return matches.length === 0
+    ? `No transition from "${payload.from}" to "${payload.to}"`
+    : `${matches.length} transitions run from "${payload.from}" to "${payload.to}"; address one by id`;
+}
+
+function insertAt<T>(items: T[], item: T, index?: number): void {
+  if (index === undefined || index < 0 || index >= items.length) items.push(item);
+  else items.splice(index, 0, item);
+}
+
+function pick(source: object, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.map(key => [key, (source as Record<string, unknown>)[key]]));
+}
+
+/**
+ * Fields that differ between two versions of a node or transition;
+ * null when none do
+ */
+function getChangedFields(before: object, after: object): Record<string, unknown> | null {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: Record<string, unknown> = {};
+  keys.forEach(key => {
+    const value = (after as Record<string, unknown>)[key];
+    if (JSON.stringify((before as Record<string, unknown>)[key]) !== JSON.stringify(value)) changes[key] = value;
+  });
+  return Object.keys(changes).length > 0 ? changes : null;
 }
 
 /**
@@ -443,7 +944,7 @@ export function applyMutation(workflow: BusinessProcess, mutation: WorkflowMutat
 export function workflowToContext(workflow: BusinessProcess): string {
   return JSON.stringify({
     name: workflow.name,
-    nodes: workflow.nodes.map(n => ({ id: n.id, name: n.name, type: n.type })),
-    transitions: workflow.transitions.map(t => ({ from: t.from, to: t.to, label: t.label })),
+    nodes: workflow.nodes.map(n => ({ id: n.id, name: n.name, type: n.type, assignee: n.assignee, formRef: n.formRef })),
+    transitions: workflow.transitions.map(t => ({ id: t.id, from: t.from, to: t.to, label: t.label, condition: t.condition })),
   }, null, 2);
 }
@@ -0,0 +1,124 @@
+/**
+ * Workflow Permissions
+ *
+ * Which roles may fire which transitions. A transition lists the role
+ * codes allowed to fire it; without a list it is fired by whoever works
+ * the state it leaves (the node's assignee), and with neither it is open
+ * to every role. A role has the permissions of the roles it inherits.
+ */
+
+import type { ProcessGraph, ProcessTransition, Role } from '@/types/module';
+
+export type PermissionGrant = 'direct' | 'inherited' | 'open' | 'denied';
+
+export interface PermissionCell {
+  grant: PermissionGrant;
+  via?: string; // Inherited role code the permission comes from
+}
+
+export interface PermissionMatrix {
+  roles: Role[];
+  transitions: ProcessTransition[];
+  cells: PermissionCell[][]; // [transition][role]
+}
+
+/**
+ * Codes of all roles a role inherits from, nearest first. Cycles in the
+ * inheritance are cut where they close.
+ */
+export function getInheritedRoles(roles: Role[], code: string): string[] {
+  const byCode = new Map(roles.map(r => [r.code, r]));
+  const seen = new Set([code]);
+  const inherited: string[] = [];
+  const queue = [...(byCode.get(code)?.inherits || [])];
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    inherited.push(next);
+    queue.push(...(byCode.get(next)?.inherits || []));
+  }
+
+  return inherited;
+}
+
+/**
+ * Role codes allowed to fire a transition; undefined when anyone may
+ */
+export function getTransitionRoles(graph: ProcessGraph, transition: ProcessTransition): string[] | undefined {
+  if (transition.roles && transition.roles.length > 0) return transition.roles;
+  const assignee = graph.nodes.find(n => n.id === transition.from)?.assignee;
+  return assignee ? [assignee] : undefined;
+}
+
+/**
+ * How a role gets (or lacks) permission to fire a transition
+ */
+export function getPermission(
+  graph: ProcessGraph,
+  transition: ProcessTransition,
+  code: string,
+  roles: Role[]
+): PermissionCell {
+  const allowed = getTransitionRoles(graph, transition);
+  if (!allowed) return { grant: 'open' };
+  if (allowed.includes(code)) return { grant: 'direct' };
+
+  const via = getInheritedRoles(roles, code).find(c => allowed.includes(c));
+  return via ? { grant: 'inherited', via } : { grant: 'denied' };
+}
+
+export function canFireTransition(
+  graph: ProcessGraph,
+  transition: ProcessTransition,
+  code: string,
+  roles: Role[]
+): boolean {
+  return getPermission(graph, transition, code, roles).grant !== 'denied';
+}
+
+/**
+ * Role × transition matrix for a workflow's top-level transitions
+ */
+export function buildPermissionMatrix(graph: ProcessGraph, roles: Role[]): PermissionMatrix {
+  return {
+    roles,
+    transitions: graph.transitions,
+    cells: graph.transitions.map(t => roles.map(r => getPermission(graph, t, r.code, roles))),
+  };
+}
+
+/**
+ * Problems in the role definitions themselves: duplicate codes,
+ * inheritance from unknown roles, inheritance cycles
+ */
+export function findRoleIssues(roles: Role[]): string[] {
+  const issues: string[] = [];
+  const codes = new Set<string>();
+
+  roles.forEach(role => {
+    if (codes.has(role.code)) issues.push(`Duplicate role code "${role.code}"`);
+    codes.add(role.code);
+  });
+
+  roles.forEach(role => {
+    (role.inherits || [])
+      .filter(code => !codes.has(code))
+      .forEach(code => issues.push(`"${role.name}" inherits unknown role "${code}"`));
+    if (getInheritedRoles(roles, role.code).some(code => roles.find(r => r.code === code)?.inherits?.includes(role.code))) {
+      issues.push(`Inheritance of "${role.name}" loops back to itself`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Message suffix pointing at the role an unknown code probably meant:
+ * imported lanes carry role names rather than codes
+ */
+export function suggestRole(roles: Role[], code: string): string {
+  const match = roles.find(r => r.name.toLowerCase() === code.trim().toLowerCase());
+  return match ? `; did you mean "${match.code}"?` : '';
+}
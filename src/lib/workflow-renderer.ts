@@ -0,0 +1,347 @@
+/**
+ * Workflow Renderer
+ *
+ * Standalone SVG of a workflow for audit reports, PDFs and emails. It is
+ * drawn without React Flow or a DOM, so it runs on the server as well as
+ * in the browser:
+ * - Nodes take their look from getNodeStyle, sized the way React Flow
+ *   sizes them, with text wrapped by estimated glyph widths
+ * - Edges follow the same orthogonal routes as the preview, coloured and
+ *   labelled the same way
+ * Nodes without a position are placed first, on a copy.
+ */
+
+import type { CSSProperties } from 'react';
+import type { BusinessProcess, ProcessNode } from '@/types/module';
+import { applyIncrementalLayout, isPositioned } from './workflow-layout';
+import { routeEdges, toRoundedPath, EdgeRoute, RoutingNode } from './workflow-routing';
+import { escapeXml } from './workflow-serializer';
+import {
+  getNodeStyle,
+  getNodeBadges,
+  getTransitionColor,
+  getEscalations,
+  getRoutingEdges,
+  EDGE_COLORS,
+  BADGE_COLOR,
+} from './workflow-styles';
+
+export interface RenderOptions {
+  padding: number;
+  background: string | null; // null for a transparent background
+  fontFamily: string;
+}
+
+const DEFAULT_OPTIONS: RenderOptions = {
+  padding: 40,
+  background: '#09090b',
+  fontFamily: "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif",
+};
+
+const NODE_WIDTH = 150; // React Flow's default node width, before min/max
+const LINE_HEIGHT = 1.5;
+const CHAR_WIDTH = 0.56; // Average glyph width in ems
+const BADGE_FONT_SIZE = 10;
+const BADGE_MARGIN = 4;
+const LABEL_FONT_SIZE = 9;
+const LABEL_COLOR = '#71717a';
+const LABEL_BACKGROUND = '#09090b';
+const ARROW_SIZE = 16;
+
+interface NodeLook {
+  background: string;
+  color: string;
+  borderWidth: number;
+  borderStyle: string;
+  borderColor: string;
+  radius: number;
+  paddingX: number;
+  paddingY: number;
+  fontSize: number;
+  fontWeight: number;
+  width: number;
+}
+
+interface NodeBox extends RoutingNode {
+  node: ProcessNode;
+  look: NodeLook;
+  lines: string[];
+  badges: string[];
+}
+
+interface EdgeLook {
+  color: string;
+  width: number;
+  dash?: string;
+  labelColor: string;
+}
+
+/**
+ * Render a workflow as a standalone SVG document
+ */
+export function renderWorkflowSvg(process: BusinessProcess, options: Partial<RenderOptions> = {}): string {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+
+  let shown = process;
+  if (!process.nodes.every(isPositioned)) {
+    shown = structuredClone(process);
+    applyIncrementalLayout(shown.nodes, shown.transitions);
+  }
+
+  const boxes = shown.nodes.map(layoutNode);
+  const byId = new Map(boxes.map(box => [box.id, box]));
+  const routingEdges = getRoutingEdges(shown);
+  const routes = routeEdges(boxes, routingEdges);
+  const edges = getEdgeLooks(shown, routes);
+
+  // Bounds of everything drawn, so the document fits the diagram
+  const xs: number[] = [];
+  const ys: number[] = [];
+  boxes.forEach(box => {
+    xs.push(box.x, box.x + box.width);
+    ys.push(box.y, box.y + box.height);
+  });
+  routes.forEach(route => route.points.forEach(p => {
+    xs.push(p.x);
+    ys.push(p.y);
+  }));
+  if (xs.length === 0) xs.push(0);
+  if (ys.length === 0) ys.push(0);
+  const left = Math.min(...xs) - opts.padding;
+  const top = Math.min(...ys) - opts.padding;
+  const width = Math.ceil(Math.max(...xs) + opts.padding - left);
+  const height = Math.ceil(Math.max(...ys) + opts.padding - top);
+
+  const colors = Array.from(new Set(Array.from(edges.values()).map(e => e.color)));
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${left} ${top} ${width} ${height}" font-family="${escapeXml(opts.fontFamily)}">`,
+    `<title>${escapeXml(process.name)}</title>`,
+    '<defs>',
+    '<filter id="shadow" x="-20%" y="-20%" width="140%" height="160%"><feDropShadow dx="0" dy="2" stdDeviation="4" flood-color="#000" flood-opacity="0.2"/></filter>',
+    ...colors.map(color =>
+      `<marker id="${markerId(color)}" viewBox="-10 -10 20 20" markerWidth="${ARROW_SIZE}" markerHeight="${ARROW_SIZE}" markerUnits="userSpaceOnUse" orient="auto-start-reverse"><polyline points="-5,-4 0,0 -5,4 -5,-4" fill="${color}" stroke="${color}" stroke-linecap="round" stroke-linejoin="round"/></marker>`
+    ),
+    '</defs>',
+  ];
+  if (opts.background) {
+    parts.push(`<rect x="${left}" y="${top}" width="${width}" height="${height}" fill="${opts.background}"/>`);
+  }
+
+  parts.push('<g>', ...renderAttachments(shown, byId), '</g>');
+  parts.push('<g fill="none">');
+  edges.forEach((look, id) => {
+    const route = routes.get(id)!;
+    parts.push(
+      `<path d="${toRoundedPath(route.points)}" stroke="${look.color}" stroke-width="${look.width}"${look.dash ? ` stroke-dasharray="${look.dash}"` : ''} marker-end="url(#${markerId(look.color)})"/>`
+    );
+  });
+  parts.push('</g>');
+
+  parts.push('<g>');
+  const labels = new Map(routingEdges.map(edge => [edge.id, edge.label]));
+  edges.forEach((look, id) => {
+    const text = labels.get(id);
+    const at = routes.get(id)?.label;
+    if (text && at) parts.push(renderEdgeLabel(text, at.x, at.y, look.labelColor));
+  });
+  parts.push('</g>');
+
+  parts.push('<g>', ...boxes.map(renderNode), '</g>');
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+/**
+ * Size of a node as the preview draws it, before React Flow measures it
+ */
+export function measureNode(node: ProcessNode): { width: number; height: number } {
+  const { width, height } = layoutNode(node);
+  return { width, height };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Nodes
+// ─────────────────────────────────────────────────────────────
+
+function layoutNode(node: ProcessNode): NodeBox {
+  const look = readNodeStyle(getNodeStyle(node));
+  const inner = look.width - 2 * (look.paddingX + look.borderWidth);
+  const lines = wrapText(node.name, inner, look.fontSize);
+  const badgeText = getNodeBadges(node).join(' · ');
+  const badges = badgeText ? wrapText(badgeText, inner, BADGE_FONT_SIZE) : [];
+
+  const height = 2 * (look.paddingY + look.borderWidth)
+    + lines.length * look.fontSize * LINE_HEIGHT
+    + (badges.length > 0 ? BADGE_MARGIN + badges.length * BADGE_FONT_SIZE * LINE_HEIGHT : 0);
+
+  return {
+    id: node.id,
+    x: node.position?.x ?? 0,
+    y: node.position?.y ?? 0,
+    width: look.width,
+    height,
+    node,
+    look,
+    lines,
+    badges,
+  };
+}
+
+/**
+ * The parts of a React Flow node style an SVG can draw
+ */
+function readNodeStyle(style: CSSProperties): NodeLook {
+  const [paddingY, paddingX = paddingY] = String(style.padding ?? '10px').split(/\s+/).map(px);
+  const border = String(style.border ?? '1px solid #3f3f46').match(/^([\d.]+)px\s+(\w+)\s+(.+)$/);
+  const minWidth = px(style.minWidth ?? 0);
+  const maxWidth = style.maxWidth !== undefined ? px(style.maxWidth) : Infinity;
+
+  return {
+    background: String(style.background ?? '#18181b'),
+    color: String(style.color ?? '#e4e4e7'),
+    borderWidth: border ? Number(border[1]) : 1,
+    borderStyle: border ? border[2] : 'solid',
+    borderColor: border ? border[3] : '#3f3f46',
+    radius: px(style.borderRadius ?? 0),
+    paddingX,
+    paddingY,
+    fontSize: px(style.fontSize ?? 12),
+    fontWeight: Number(style.fontWeight ?? 400),
+    width: Math.min(Math.max(NODE_WIDTH, minWidth), maxWidth),
+  };
+}
+
+function renderNode(box: NodeBox): string {
+  const { look } = box;
+  const radius = Math.min(look.radius, box.height / 2, box.width / 2);
+  const centerX = box.x + box.width / 2;
+
+  // CSS borders sit inside the box; an SVG stroke is centred on the outline
+  const outline = (inset: number, strokeWidth: number, fill: string, extra = '') => {
+    const r = Math.max(radius - inset, 0);
+    return `<rect x="${box.x + inset}" y="${box.y + inset}" width="${box.width - 2 * inset}" height="${box.height - 2 * inset}" rx="${r}" fill="${fill}" stroke="${look.borderColor}" stroke-width="${strokeWidth}"${extra}/>`;
+  };
+  const shapes = look.borderStyle === 'double'
+    ? [
+        outline(look.borderWidth / 6, look.borderWidth / 3, look.background, ' filter="url(#shadow)"'),
+        outline(look.borderWidth * 5 / 6, look.borderWidth / 3, 'none'),
+      ]
+    : [outline(look.borderWidth / 2, look.borderWidth, look.background, ' filter="url(#shadow)"')];
+
+  let lineTop = box.y + look.borderWidth + look.paddingY;
+  const text = (lines: string[], fontSize: number, fontWeight: number, color: string) => {
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const spans = lines.map((line, i) => {
+      // Baseline about a third of the way below the middle of the line box
+      const y = lineTop + i * lineHeight + (lineHeight + fontSize * 0.7) / 2;
+      return `<tspan x="${centerX}" y="${round(y)}">${escapeXml(line)}</tspan>`;
+    });
+    lineTop += lines.length * lineHeight;
+    return `<text text-anchor="middle" font-size="${fontSize}" font-weight="${fontWeight}" fill="${color}">${spans.join('')}</text>`;
+  };
+
+  const label = text(box.lines, look.fontSize, look.fontWeight, look.color);
+  lineTop += BADGE_MARGIN;
+  const badges = box.badges.length > 0 ? text(box.badges, BADGE_FONT_SIZE, 400, BADGE_COLOR) : '';
+
+  return [...shapes, label, badges].filter(Boolean).join('');
+}
+
+/**
+ * Lines of at most width, breaking between words and inside words that
+ * are too long on their own
+ */
+function wrapText(text: string, width: number, fontSize: number): string[] {
+  const perLine = Math.max(1, Math.floor(width / (fontSize * CHAR_WIDTH)));
+  const lines: string[] = [];
+  let current = '';
+
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > perLine) {
+      if (current) lines.push(current);
+      lines.push(word.slice(0, perLine));
+      word = word.slice(perLine);
+      current = '';
+    }
+    if (!current) current = word;
+    else if (current.length + 1 + word.length <= perLine) current += ` ${word}`;
+    else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current || lines.length === 0) lines.push(current);
+  return lines;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Edges
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * How each routed edge is drawn, as in the preview outside simulation
+ */
+function getEdgeLooks(process: BusinessProcess, routes: Map<string, EdgeRoute>): Map<string, EdgeLook> {
+  const looks = new Map<string, EdgeLook>();
+
+  process.transitions.forEach(transition => {
+    const route = routes.get(transition.id);
+    if (!route) return;
+    looks.set(transition.id, {
+      color: getTransitionColor(transition, route.kind !== 'forward'),
+      width: 1.5,
+      dash: transition.timer ? '6 3' : undefined,
+      labelColor: LABEL_COLOR,
+    });
+  });
+
+  getEscalations(process).forEach(node => {
+    if (!routes.has(`escalation-${node.id}`)) return;
+    looks.set(`escalation-${node.id}`, {
+      color: EDGE_COLORS.escalation,
+      width: 1.5,
+      dash: '6 3',
+      labelColor: EDGE_COLORS.escalation,
+    });
+  });
+
+  return looks;
+}
+
+/**
+ * Boundary events: dotted connector from the host activity
+ */
+function renderAttachments(process: BusinessProcess, boxes: Map<string, NodeBox>): string[] {
+  return process.nodes
+    .filter(node => node.attachedTo && boxes.has(node.attachedTo) && boxes.has(node.id))
+    .map(node => {
+      const host = boxes.get(node.attachedTo!)!;
+      const event = boxes.get(node.id)!;
+      const dash = node.interrupting === false ? '2 4' : '4 2';
+      return `<line x1="${host.x + host.width}" y1="${host.y + host.height / 2}" x2="${event.x}" y2="${event.y + event.height / 2}" stroke="${EDGE_COLORS.attached}" stroke-width="1" stroke-dasharray="${dash}"/>`;
+    });
+}
+
+function renderEdgeLabel(text: string, x: number, y: number, color: string): string {
+  const width = text.length * LABEL_FONT_SIZE * CHAR_WIDTH + 12;
+  const height = LABEL_FONT_SIZE * 1.2 + 8;
+  return `<rect x="${round(x - width / 2)}" y="${round(y - height / 2)}" width="${round(width)}" height="${round(height)}" rx="4" fill="${LABEL_BACKGROUND}" fill-opacity="0.95"/>`
+    + `<text x="${round(x)}" y="${round(y + LABEL_FONT_SIZE * 0.35)}" text-anchor="middle" font-size="${LABEL_FONT_SIZE}" font-weight="500" fill="${color}">${escapeXml(text)}</text>`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function markerId(color: string): string {
+  return `arrow-${color.replace(/[^\w]/g, '')}`;
+}
+
+function px(value: unknown): number {
+  const parsed = parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
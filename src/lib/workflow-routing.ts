@@ -0,0 +1,441 @@
+/**
+ * Workflow Edge Routing
+ *
+ * Orthogonal routes for transitions between laid out nodes in a left to
+ * right flow. Routes are computed from node boxes, so they follow manual
+ * moves as well as applyLayout.
+ * - Ports: edges sharing a node side are spread along it in the order of
+ *   the nodes at their other end, so they do not cross at the node
+ * - Forward edges leave the right side and enter the left side, turning
+ *   in the gaps between columns and going round any node in the way;
+ *   vertical runs sharing a gap get a track each
+ * - Back edges run in a channel under (or over) the nodes they pass,
+ *   nested so that longer loops stay outside shorter ones
+ * - Self-loops go round the node's top right corner
+ * - Labels go on the longest segment where they clear the nodes and the
+ *   labels placed before them
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface RoutingNode {
+  id: string;
+  x: number; // Top-left corner
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RoutingEdge {
+  id: string;
+  from: string;
+  to: string;
+  label?: string;
+}
+
+export type EdgeRouteKind = 'forward' | 'back' | 'self';
+
+export interface EdgeRoute {
+  kind: EdgeRouteKind;
+  points: Point[]; // Source port to target port
+  label?: Point; // Centre of the label
+}
+
+type Side = 'left' | 'right' | 'top' | 'bottom';
+
+interface RoutePlan {
+  edge: RoutingEdge;
+  kind: EdgeRouteKind;
+  source: RoutingNode;
+  target: RoutingNode;
+  sourceSide: Side;
+  targetSide: Side;
+  channel: 'direct' | 'below' | 'above' | 'beside' | 'loop';
+  clearOf: number; // Back edge channels: the bottom (or top) of the nodes passed
+  sourcePort: Point;
+  targetPort: Point;
+}
+
+const CLEARANCE = 16; // Kept between routes and node borders
+const TRACK_SPACING = 10; // Between parallel runs in a channel
+const LOOP_SIZE = 24;
+const CORNER_RADIUS = 8;
+const LABEL_CHAR_WIDTH = 5.5; // At the 9px label font
+const LABEL_HEIGHT = 16;
+const LABEL_PADDING = 12;
+
+/**
+ * Routes for all edges whose nodes are known, by edge id
+ */
+export function routeEdges(nodes: RoutingNode[], edges: RoutingEdge[]): Map<string, EdgeRoute> {
+  const boxes = new Map(nodes.map(n => [n.id, n]));
+  const plans: RoutePlan[] = [];
+  edges.forEach(edge => {
+    const source = boxes.get(edge.from);
+    const target = boxes.get(edge.to);
+    if (source && target) plans.push(planRoute(edge, source, target, nodes));
+  });
+  assignPorts(plans);
+
+  const routes = new Map<string, EdgeRoute>();
+  const set = (plan: RoutePlan, points: Point[]) => routes.set(plan.edge.id, { kind: plan.kind, points });
+
+  plans.filter(p => p.channel === 'direct').forEach(plan => set(plan, routeDirect(plan, nodes)));
+  separateTracks(plans.filter(p => p.channel === 'direct').map(p => routes.get(p.edge.id)!.points));
+
+  routeChannels(plans.filter(p => p.channel === 'below'), 'below').forEach((points, plan) => set(plan, points));
+  routeChannels(plans.filter(p => p.channel === 'above'), 'above').forEach((points, plan) => set(plan, points));
+  routeBeside(plans.filter(p => p.channel === 'beside')).forEach((points, plan) => set(plan, points));
+
+  plans.filter(p => p.channel === 'loop').forEach(plan => {
+    const s = plan.sourcePort;
+    const t = plan.targetPort;
+    const x = s.x + LOOP_SIZE;
+    const y = plan.source.y - LOOP_SIZE;
+    set(plan, [s, { x, y: s.y }, { x, y }, { x: t.x, y }, t]);
+  });
+
+  placeLabels(plans, routes, nodes);
+  return routes;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Planning and ports
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Kind, sides and channel of an edge. Back edges use the channel under
+ * the nodes they pass unless nodes sit right under their ends; then over
+ * them, or out of the side when neither is free.
+ */
+function planRoute(edge: RoutingEdge, source: RoutingNode, target: RoutingNode, nodes: RoutingNode[]): RoutePlan {
+  const plan = (kind: EdgeRouteKind, channel: RoutePlan['channel'], sourceSide: Side, targetSide: Side): RoutePlan => ({
+    edge, kind, source, target, sourceSide, targetSide, channel,
+    clearOf: 0,
+    sourcePort: { x: 0, y: 0 },
+    targetPort: { x: 0, y: 0 },
+  });
+
+  if (source === target) return plan('self', 'loop', 'right', 'top');
+
+  const kind = centerX(target) < centerX(source) ? 'back' : 'forward';
+  if (kind === 'forward' && target.x >= right(source) + 2 * CLEARANCE) return plan(kind, 'direct', 'right', 'left');
+  if (kind === 'forward' || right(target) + 2 * CLEARANCE > source.x) return plan(kind, 'beside', 'right', 'right');
+
+  const passed = nodes.filter(n => n.x < right(source) && right(n) > target.x);
+  const freeBelow = (box: RoutingNode) => !passed.some(n => n !== box && overlapsX(n, box) && n.y >= bottom(box));
+  const freeAbove = (box: RoutingNode) => !passed.some(n => n !== box && overlapsX(n, box) && bottom(n) <= box.y);
+  const below = Number(freeBelow(source)) + Number(freeBelow(target));
+  const above = Number(freeAbove(source)) + Number(freeAbove(target));
+
+  if (above > below) {
+    const over = plan(kind, 'above', freeAbove(source) ? 'top' : 'right', freeAbove(target) ? 'top' : 'left');
+    return { ...over, clearOf: Math.min(...passed.map(n => n.y)) };
+  }
+  const under = plan(kind, 'below', freeBelow(source) ? 'bottom' : 'right', freeBelow(target) ? 'bottom' : 'left');
+  return { ...under, clearOf: Math.max(...passed.map(bottom)) };
+}
+
+/**
+ * Spread the edges on each node side along it. Left and right sides are
+ * ordered by the other end's height; top and bottom by the other end's
+ * position from right to left, which keeps nested channels from
+ * crossing. Self-loops take the corner their loop goes round.
+ */
+function assignPorts(plans: RoutePlan[]): void {
+  const sides = new Map<string, { plan: RoutePlan; end: 'source' | 'target'; key: number }[]>();
+  const add = (plan: RoutePlan, end: 'source' | 'target') => {
+    const node = end === 'source' ? plan.source : plan.target;
+    const other = end === 'source' ? plan.target : plan.source;
+    const side = end === 'source' ? plan.sourceSide : plan.targetSide;
+    const key = plan.kind === 'self'
+      ? (side === 'right' ? -Infinity : Infinity)
+      : side === 'left' || side === 'right' ? centerY(other) : -centerX(other);
+    const id = `${node.id}:${side}`;
+    sides.set(id, [...(sides.get(id) || []), { plan, end, key }]);
+  };
+  plans.forEach(plan => {
+    add(plan, 'source');
+    add(plan, 'target');
+  });
+
+  sides.forEach(ends => {
+    ends.sort((a, b) => a.key - b.key);
+    ends.forEach(({ plan, end }, index) => {
+      const node = end === 'source' ? plan.source : plan.target;
+      const side = end === 'source' ? plan.sourceSide : plan.targetSide;
+      const t = (index + 1) / (ends.length + 1);
+      const port = side === 'left' ? { x: node.x, y: node.y + node.height * t }
+        : side === 'right' ? { x: right(node), y: node.y + node.height * t }
+        : side === 'top' ? { x: node.x + node.width * t, y: node.y }
+        : { x: node.x + node.width * t, y: bottom(node) };
+      if (end === 'source') plan.sourcePort = port;
+      else plan.targetPort = port;
+    });
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Routes
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Right side to left side: one turn in the gap before the target, or
+ * after the source, or round whatever is in between along a free row
+ */
+function routeDirect(plan: RoutePlan, nodes: RoutingNode[]): Point[] {
+  const s = plan.sourcePort;
+  const t = plan.targetPort;
+  const obstacles = nodes.filter(n => n !== plan.source && n !== plan.target);
+
+  if (Math.abs(s.y - t.y) < 0.5 && isClear([s, t], obstacles)) return [s, { x: t.x, y: s.y }];
+
+  for (const x of [(s.x + t.x) / 2, t.x - CLEARANCE, s.x + CLEARANCE]) {
+    const path = [s, { x, y: s.y }, { x, y: t.y }, t];
+    if (isClear(path, obstacles)) return path;
+  }
+
+  const x1 = s.x + CLEARANCE;
+  const x2 = t.x - CLEARANCE;
+  const y = findFreeRow(obstacles, x1, x2, (s.y + t.y) / 2);
+  return [s, { x: x1, y: s.y }, { x: x1, y }, { x: x2, y }, { x: x2, y: t.y }, t];
+}
+
+/**
+ * Back edges in a channel under or over the nodes: shorter spans first,
+ * each one track further out than any it overlaps
+ */
+function routeChannels(plans: RoutePlan[], channel: 'below' | 'above'): Map<RoutePlan, Point[]> {
+  const routes = new Map<RoutePlan, Point[]>();
+  const placed: { from: number; to: number; y: number }[] = [];
+  const outward = channel === 'below' ? 1 : -1;
+
+  [...plans]
+    .sort((a, b) => (right(a.source) - a.target.x) - (right(b.source) - b.target.x))
+    .forEach(plan => {
+      const s = plan.sourcePort;
+      const t = plan.targetPort;
+      const from = plan.targetSide === 'left' ? t.x - CLEARANCE : t.x;
+      const to = plan.sourceSide === 'right' ? s.x + CLEARANCE : s.x;
+
+      // Clear of the nodes passed, then of every overlapping channel already placed
+      let y = plan.clearOf + outward * 2 * CLEARANCE;
+      placed
+        .filter(p => p.from <= to && p.to >= from)
+        .forEach(p => {
+          if ((p.y - y) * outward >= 0) y = p.y + outward * TRACK_SPACING;
+        });
+      placed.push({ from, to, y });
+
+      const start = plan.sourceSide === 'right' ? [s, { x: to, y: s.y }, { x: to, y }] : [s, { x: s.x, y }];
+      const end = plan.targetSide === 'left' ? [{ x: from, y }, { x: from, y: t.y }, t] : [{ x: t.x, y }, t];
+      routes.set(plan, [...start, ...end]);
+    });
+
+  return routes;
+}
+
+/**
+ * Nodes in overlapping columns: out of the source's right side and into
+ * the target's, through a run to the right of both
+ */
+function routeBeside(plans: RoutePlan[]): Map<RoutePlan, Point[]> {
+  const routes = new Map<RoutePlan, Point[]>();
+  const placed: { x: number; from: number; to: number }[] = [];
+
+  plans.forEach(plan => {
+    const s = plan.sourcePort;
+    const t = plan.targetPort;
+    const from = Math.min(s.y, t.y);
+    const to = Math.max(s.y, t.y);
+    let x = Math.max(s.x, t.x) + 2 * CLEARANCE;
+    placed
+      .filter(p => p.from <= to && p.to >= from && p.x >= x)
+      .forEach(p => { x = Math.max(x, p.x + TRACK_SPACING); });
+    placed.push({ x, from, to });
+    routes.set(plan, [s, { x, y: s.y }, { x, y: t.y }, t]);
+  });
+
+  return routes;
+}
+
+/**
+ * Spread vertical runs that share a gap and overlap, centred on the gap
+ */
+function separateTracks(paths: Point[][]): void {
+  const gaps = new Map<number, Point[][]>();
+  paths
+    .filter(path => path.length === 4 && Math.abs(path[1].y - path[2].y) > 0.5)
+    .forEach(path => {
+      const key = Math.round(path[1].x);
+      gaps.set(key, [...(gaps.get(key) || []), path]);
+    });
+
+  gaps.forEach(runs => {
+    if (runs.length < 2) return;
+    const span = (path: Point[]) => [Math.min(path[1].y, path[2].y), Math.max(path[1].y, path[2].y)];
+    const tracks: number[][][] = [];
+    const trackOf = new Map<Point[], number>();
+
+    [...runs].sort((a, b) => span(a)[0] - span(b)[0]).forEach(path => {
+      const [from, to] = span(path);
+      let track = tracks.findIndex(spans => spans.every(([f, t]) => t < from || f > to));
+      if (track < 0) track = tracks.push([]) - 1;
+      tracks[track].push([from, to]);
+      trackOf.set(path, track);
+    });
+
+    if (tracks.length < 2) return;
+    runs.forEach(path => {
+      const offset = (trackOf.get(path)! - (tracks.length - 1) / 2) * TRACK_SPACING;
+      path[1] = { x: path[1].x + offset, y: path[1].y };
+      path[2] = { x: path[2].x + offset, y: path[2].y };
+    });
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Labels
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * First spot along a route, longest segments first, where the label
+ * clears every node and the labels placed so far
+ */
+function placeLabels(plans: RoutePlan[], routes: Map<string, EdgeRoute>, nodes: RoutingNode[]): void {
+  const placed: RoutingNode[] = [];
+
+  plans.forEach(plan => {
+    const route = routes.get(plan.edge.id);
+    if (!route || !plan.edge.label) return;
+
+    const width = plan.edge.label.length * LABEL_CHAR_WIDTH + LABEL_PADDING;
+    const box = (p: Point): RoutingNode => ({ id: '', x: p.x - width / 2, y: p.y - LABEL_HEIGHT / 2, width, height: LABEL_HEIGHT });
+    const fits = (p: Point) => [...nodes, ...placed].every(other => !overlaps(box(p), other));
+
+    const candidates = route.points
+      .slice(1)
+      .map((end, i) => ({ start: route.points[i], end, length: Math.abs(end.x - route.points[i].x) + Math.abs(end.y - route.points[i].y) }))
+      .sort((a, b) => b.length - a.length)
+      .flatMap(({ start, end }) => [0.5, 0.25, 0.75].map(t => ({
+        x: start.x + (end.x - start.x) * t,
+        y: start.y + (end.y - start.y) * t,
+      })));
+    if (candidates.length === 0) return;
+
+    route.label = candidates.find(fits) || candidates[0];
+    placed.push(box(route.label));
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Drawing
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * SVG path through the points, each corner rounded by up to radius
+ * (less where a neighbouring segment is too short)
+ */
+export function toRoundedPath(points: Point[], radius = CORNER_RADIUS): string {
+  if (points.length === 0) return '';
+  const commands = [`M ${points[0].x} ${points[0].y}`];
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const previous = points[i - 1];
+    const corner = points[i];
+    const next = points[i + 1];
+    const r = Math.min(radius, distance(previous, corner) / 2, distance(corner, next) / 2);
+    const before = towards(corner, previous, r);
+    const after = towards(corner, next, r);
+    commands.push(`L ${before.x} ${before.y}`, `Q ${corner.x} ${corner.y} ${after.x} ${after.y}`);
+  }
+
+  const last = points[points.length - 1];
+  commands.push(`L ${last.x} ${last.y}`);
+  return commands.join(' ');
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function towards(from: Point, to: Point, length: number): Point {
+  const total = distance(from, to);
+  if (total === 0) return from;
+  return { x: from.x + (to.x - from.x) * length / total, y: from.y + (to.y - from.y) * length / total };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Geometry
+// ─────────────────────────────────────────────────────────────
+
+function right(box: RoutingNode): number {
+  return box.x + box.width;
+}
+
+function bottom(box: RoutingNode): number {
+  return box.y + box.height;
+}
+
+function centerX(box: RoutingNode): number {
+  return box.x + box.width / 2;
+}
+
+function centerY(box: RoutingNode): number {
+  return box.y + box.height / 2;
+}
+
+function overlapsX(a: RoutingNode, b: RoutingNode): boolean {
+  return a.x < right(b) && right(a) > b.x;
+}
+
+function overlaps(a: RoutingNode, b: RoutingNode): boolean {
+  return overlapsX(a, b) && a.y < bottom(b) && bottom(a) > b.y;
+}
+
+/**
+ * No segment of the path passes through an obstacle, or closer to it
+ * than half the clearance
+ */
+function isClear(path: Point[], obstacles: RoutingNode[]): boolean {
+  const margin = CLEARANCE / 2;
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const segment: RoutingNode = {
+      id: '',
+      x: Math.min(a.x, b.x) - margin,
+      y: Math.min(a.y, b.y) - margin,
+      width: Math.abs(a.x - b.x) + 2 * margin,
+      height: Math.abs(a.y - b.y) + 2 * margin,
+    };
+    if (obstacles.some(box => overlaps(segment, box))) return false;
+  }
+  return true;
+}
+
+/**
+ * Height nearest to preferred at which a horizontal run from x1 to x2
+ * clears every obstacle
+ */
+function findFreeRow(obstacles: RoutingNode[], x1: number, x2: number, preferred: number): number {
+  const blocked = obstacles
+    .filter(box => box.x < Math.max(x1, x2) && right(box) > Math.min(x1, x2))
+    .map(box => [box.y - CLEARANCE, bottom(box) + CLEARANCE])
+    .sort((a, b) => a[0] - b[0]);
+
+  // Merge overlapping intervals; the free rows are what is left between them
+  const merged: number[][] = [];
+  blocked.forEach(([from, to]) => {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else merged.push([from, to]);
+  });
+
+  const hit = merged.find(([from, to]) => preferred > from && preferred < to);
+  if (!hit) return preferred;
+  return preferred - hit[0] < hit[1] - preferred ? hit[0] : hit[1];
+}
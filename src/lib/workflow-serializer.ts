@@ -0,0 +1,753 @@
+/**
+ * Workflow Serializer
+ *
+ * Universal output for workflow definitions.
+ * Takes a normalized BusinessProcess, writes it in an external format.
+ * Counterpart of the workflow normalizer - exported files import back
+ * into the same graph.
+ *
+ * Supported formats:
+ * - JSON (direct BusinessProcess format)
+ * - BPMN 2.0 (with diagram interchange)
+ * - XAML (Windows Workflow Foundation 4 state machines)
+ * - Mermaid (flowchart)
+ * - SCXML (W3C state chart XML)
+ */
+
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessNodeType,
+  ProcessGraph,
+  ProcessAction,
+  TaskKind,
+  EventKind,
+} from '@/types/module';
+
+export type ExportFormat = 'json' | 'bpmn' | 'xaml' | 'mermaid' | 'scxml';
+
+export interface SerializationResult {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Export formats offered in the UI, in menu order
+ */
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'bpmn', label: 'BPMN 2.0' },
+  { format: 'xaml', label: 'WF4 XAML' },
+  { format: 'mermaid', label: 'Mermaid' },
+  { format: 'scxml', label: 'SCXML' },
+];
+
+/**
+ * Serialize a BusinessProcess to the given format
+ */
+export function serializeWorkflow(workflow: BusinessProcess, format: ExportFormat): SerializationResult {
+  switch (format) {
+    case 'json':
+      return {
+        content: JSON.stringify(workflow, null, 2),
+        mimeType: 'application/json',
+        extension: 'json',
+      };
+
+    case 'bpmn':
+      return {
+        content: serializeBpmnWorkflow(workflow),
+        mimeType: 'application/xml',
+        extension: 'bpmn',
+      };
+
+    case 'xaml':
+      return {
+        content: serializeXamlWorkflow(workflow),
+        mimeType: 'application/xaml+xml',
+        extension: 'xaml',
+      };
+
+    case 'mermaid':
+      return {
+        content: serializeMermaidWorkflow(workflow),
+        mimeType: 'text/plain',
+        extension: 'mmd',
+      };
+
+    case 'scxml':
+      return {
+        content: serializeScxmlWorkflow(workflow),
+        mimeType: 'application/scxml+xml',
+        extension: 'scxml',
+      };
+
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// BPMN 2.0
+// ─────────────────────────────────────────────────────────────
+
+const BPMN_TASK_ELEMENTS: Record<TaskKind, string> = {
+  none: 'task',
+  user: 'userTask',
+  service: 'serviceTask',
+  script: 'scriptTask',
+  manual: 'manualTask',
+  send: 'sendTask',
+  receive: 'receiveTask',
+  businessRule: 'businessRuleTask',
+};
+
+const BPMN_EVENT_DEFINITIONS: Record<Exclude<EventKind, 'none'>, string> = {
+  message: 'messageEventDefinition',
+  timer: 'timerEventDefinition',
+  signal: 'signalEventDefinition',
+  error: 'errorEventDefinition',
+  escalation: 'escalationEventDefinition',
+  conditional: 'conditionalEventDefinition',
+  compensation: 'compensateEventDefinition',
+  link: 'linkEventDefinition',
+  cancel: 'cancelEventDefinition',
+  terminate: 'terminateEventDefinition',
+};
+
+// Shape sizes used by Camunda Modeler / bpmn.io
+const BPMN_SHAPE_SIZES: Record<ProcessNodeType, { width: number; height: number }> = {
+  start: { width: 36, height: 36 },
+  end: { width: 36, height: 36 },
+  event: { width: 36, height: 36 },
+  task: { width: 100, height: 80 },
+  gateway: { width: 50, height: 50 },
+  subprocess: { width: 100, height: 80 },
+};
+
+/**
+ * Serialize a BusinessProcess to BPMN 2.0 XML with a BPMNDiagram section.
+ * Subprocesses with an embedded graph get their own diagram plane
+ * (collapsed subprocess drill-down, as in bpmn.io).
+ */
+export function serializeBpmnWorkflow(workflow: BusinessProcess): string {
+  const processId = toXmlId(workflow.code || workflow.id, 'Process');
+  const ids = assignBpmnIds(workflow, processId);
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL"'
+      + ' xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI"'
+      + ' xmlns:dc="http://www.omg.org/spec/DD/20100524/DC"'
+      + ' xmlns:di="http://www.omg.org/spec/DD/20100524/DI"'
+      + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"'
+      + ' id="Definitions_1" targetNamespace="http://bpmn.io/schema/bpmn"'
+      + ' exporter="Spinner" exporterVersion="0.1.0">',
+    `  <bpmn:process id="${processId}" name="${escapeXml(workflow.name)}" isExecutable="false">`,
+  ];
+
+  if (workflow.description) {
+    lines.push(`    <bpmn:documentation>${escapeXml(workflow.description)}</bpmn:documentation>`);
+  }
+
+  writeBpmnFlowElements(lines, workflow, '    ', ids);
+
+  lines.push('  </bpmn:process>');
+
+  // Diagram interchange: main plane, then one plane per embedded subprocess
+  const planes: { elementId: string; graph: ProcessGraph }[] = [{ elementId: processId, graph: workflow }];
+  const collectSubprocessPlanes = (graph: ProcessGraph) => {
+    graph.nodes.forEach(node => {
+      if (node.type === 'subprocess' && node.children) {
+        planes.push({ elementId: ids.nodes.get(node.id)!, graph: node.children });
+        collectSubprocessPlanes(node.children);
+      }
+    });
+  };
+  collectSubprocessPlanes(workflow);
+
+  planes.forEach(({ elementId, graph }, index) => {
+    lines.push(`  <bpmndi:BPMNDiagram id="BPMNDiagram_${index + 1}">`);
+    lines.push(`    <bpmndi:BPMNPlane id="BPMNPlane_${index + 1}" bpmnElement="${elementId}">`);
+    writeBpmnPlane(lines, graph, ids);
+    lines.push('    </bpmndi:BPMNPlane>');
+    lines.push('  </bpmndi:BPMNDiagram>');
+  });
+
+  lines.push('</bpmn:definitions>');
+
+  return lines.join('\n');
+}
+
+interface BpmnIds {
+  nodes: Map<string, string>;
+  flows: Map<string, string>;
+}
+
+/**
+ * BPMN ids are unique across the whole document, so ids that clean up
+ * to the same NCName (e.g. "a b" and "a_b") get a suffix
+ */
+function assignBpmnIds(workflow: BusinessProcess, processId: string): BpmnIds {
+  const ids: BpmnIds = { nodes: new Map(), flows: new Map() };
+  const usedIds = new Set<string>([processId]);
+  const claim = (id: string) => {
+    while (usedIds.has(id) || usedIds.has(`${id}_di`)) id = `${id}_`;
+    usedIds.add(id);
+    usedIds.add(`${id}_di`);
+    return id;
+  };
+  const assign = (graph: ProcessGraph) => {
+    graph.nodes.forEach(node => {
+      ids.nodes.set(node.id, claim(toXmlId(node.id, 'Node')));
+      if (node.children) assign(node.children);
+    });
+    graph.transitions.forEach(t => ids.flows.set(t.id, claim(toXmlId(t.id, 'Flow'))));
+  };
+  assign(workflow);
+  return ids;
+}
+
+/**
+ * Write the flow nodes and sequence flows of a process or subprocess
+ */
+function writeBpmnFlowElements(lines: string[], graph: ProcessGraph, indent: string, ids: BpmnIds): void {
+  const nodeIds = new Set(graph.nodes.map(n => n.id));
+  const flows = graph.transitions.filter(t => nodeIds.has(t.from) && nodeIds.has(t.to));
+
+  // Flow nodes
+  graph.nodes.forEach(node => {
+    const tag = `bpmn:${getBpmnElement(node)}`;
+    const incoming = flows.filter(t => t.to === node.id);
+    const outgoing = flows.filter(t => t.from === node.id);
+
+    let attrs = `id="${ids.nodes.get(node.id)}" name="${escapeXml(node.name)}"`;
+    if (node.calledProcess) {
+      attrs += ` calledElement="${escapeXml(node.calledProcess)}"`;
+    }
+    if (node.attachedTo) {
+      attrs += ` attachedToRef="${ids.nodes.get(node.attachedTo) || toXmlId(node.attachedTo, 'Node')}"`;
+      if (node.interrupting === false) attrs += ' cancelActivity="false"';
+    }
+
+    const body: string[] = [];
+    if (node.description) {
+      body.push(`${indent}  <bpmn:documentation>${escapeXml(node.description)}</bpmn:documentation>`);
+    }
+    incoming.forEach(t => body.push(`${indent}  <bpmn:incoming>${ids.flows.get(t.id)}</bpmn:incoming>`));
+    outgoing.forEach(t => body.push(`${indent}  <bpmn:outgoing>${ids.flows.get(t.id)}</bpmn:outgoing>`));
+    if (node.eventKind === 'timer' && node.timer && ['start', 'event'].includes(node.type)) {
+      const timerTag = { duration: 'timeDuration', date: 'timeDate', cycle: 'timeCycle' }[node.timer.type];
+      body.push(`${indent}  <bpmn:timerEventDefinition>`);
+      body.push(`${indent}    <bpmn:${timerTag} xsi:type="bpmn:tFormalExpression">${escapeXml(node.timer.value)}</bpmn:${timerTag}>`);
+      body.push(`${indent}  </bpmn:timerEventDefinition>`);
+    } else if (node.eventKind && node.eventKind !== 'none' && ['start', 'end', 'event'].includes(node.type)) {
+      body.push(`${indent}  <bpmn:${BPMN_EVENT_DEFINITIONS[node.eventKind]} />`);
+    }
+    if (node.type === 'subprocess' && node.children) {
+      writeBpmnFlowElements(body, node.children, `${indent}  `, ids);
+    }
+
+    if (body.length === 0) {
+      lines.push(`${indent}<${tag} ${attrs} />`);
+    } else {
+      lines.push(`${indent}<${tag} ${attrs}>`, ...body, `${indent}</${tag}>`);
+    }
+  });
+
+  // Sequence flows
+  flows.forEach(t => {
+    const name = t.label ? ` name="${escapeXml(t.label)}"` : '';
+    const attrs = `id="${ids.flows.get(t.id)}"${name} sourceRef="${ids.nodes.get(t.from)}" targetRef="${ids.nodes.get(t.to)}"`;
+
+    if (t.condition) {
+      lines.push(`${indent}<bpmn:sequenceFlow ${attrs}>`);
+      lines.push(`${indent}  <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">${escapeXml(t.condition)}</bpmn:conditionExpression>`);
+      lines.push(`${indent}</bpmn:sequenceFlow>`);
+    } else {
+      lines.push(`${indent}<bpmn:sequenceFlow ${attrs} />`);
+    }
+  });
+}
+
+/**
+ * Write BPMNShape and BPMNEdge entries for one graph level
+ */
+function writeBpmnPlane(lines: string[], graph: ProcessGraph, ids: BpmnIds): void {
+  const nodeMap = new Map(graph.nodes.map(n => [n.id, n]));
+  const flows = graph.transitions.filter(t => nodeMap.has(t.from) && nodeMap.has(t.to));
+
+  graph.nodes.forEach(node => {
+    const id = ids.nodes.get(node.id)!;
+    const { x, y, width, height } = getShapeBounds(node);
+    const expanded = node.type === 'subprocess' ? ' isExpanded="false"' : '';
+    lines.push(`      <bpmndi:BPMNShape id="${id}_di" bpmnElement="${id}"${expanded}>`);
+    lines.push(`        <dc:Bounds x="${x}" y="${y}" width="${width}" height="${height}" />`);
+    lines.push('      </bpmndi:BPMNShape>');
+  });
+
+  flows.forEach(t => {
+    const id = ids.flows.get(t.id)!;
+    const source = getShapeBounds(nodeMap.get(t.from)!);
+    const target = getShapeBounds(nodeMap.get(t.to)!);
+    lines.push(`      <bpmndi:BPMNEdge id="${id}_di" bpmnElement="${id}">`);
+    getEdgeWaypoints(source, target).forEach(p => {
+      lines.push(`        <di:waypoint x="${p.x}" y="${p.y}" />`);
+    });
+    lines.push('      </bpmndi:BPMNEdge>');
+  });
+}
+
+/**
+ * BPMN element name for a node, honoring task/gateway/event kinds
+ */
+function getBpmnElement(node: ProcessNode): string {
+  switch (node.type) {
+    case 'start':
+      return 'startEvent';
+    case 'end':
+      return 'endEvent';
+    case 'gateway':
+      return `${node.gatewayKind || 'exclusive'}Gateway`;
+    case 'subprocess':
+      return node.calledProcess && !node.children ? 'callActivity' : 'subProcess';
+    case 'event':
+      if (node.attachedTo) return 'boundaryEvent';
+      return node.eventRole === 'throw' ? 'intermediateThrowEvent' : 'intermediateCatchEvent';
+    case 'task':
+    default:
+      return BPMN_TASK_ELEMENTS[node.taskKind || 'user'];
+  }
+}
+
+interface ShapeBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * BPMN shapes are anchored at their top-left corner like React Flow nodes.
+ * Events and gateways are smaller than our cards, so center them vertically
+ * on the card's middle line to keep flows straight.
+ */
+function getShapeBounds(node: ProcessNode): ShapeBounds {
+  const size = BPMN_SHAPE_SIZES[node.type] || BPMN_SHAPE_SIZES.task;
+  const position = node.position || { x: 0, y: 0 };
+  const offsetY = (BPMN_SHAPE_SIZES.task.height - size.height) / 2;
+
+  return {
+    x: Math.round(position.x),
+    y: Math.round(position.y + offsetY),
+    width: size.width,
+    height: size.height,
+  };
+}
+
+/**
+ * Orthogonal waypoints from the source's right side to the target's left side
+ */
+function getEdgeWaypoints(source: ShapeBounds, target: ShapeBounds): { x: number; y: number }[] {
+  const start = { x: source.x + source.width, y: source.y + source.height / 2 };
+  const end = { x: target.x, y: target.y + target.height / 2 };
+
+  if (start.y === end.y) {
+    return [start, end];
+  }
+
+  const midX = Math.round((start.x + end.x) / 2);
+  return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+}
+
+// ─────────────────────────────────────────────────────────────
+// XAML (WF4 StateMachine)
+// ─────────────────────────────────────────────────────────────
+
+const XAML_ACTIVITIES_NS = 'http://schemas.microsoft.com/netfx/2009/xaml/activities';
+const XAML_NS = 'http://schemas.microsoft.com/winfx/2006/xaml';
+
+/**
+ * Serialize a BusinessProcess to a WF4 StateMachine activity.
+ *
+ * Every node becomes a State listed directly under the StateMachine;
+ * transitions and the initial state point at them with x:Reference.
+ * Conditions, triggers, entry/exit actions and variables from a XAML
+ * import are written back. Subprocesses are flattened to plain states.
+ */
+export function serializeXamlWorkflow(workflow: BusinessProcess): string {
+  // Ids that only differ in punctuation clean up to the same name; x:Name must stay unique
+  const stateNames = new Map<string, string>();
+  const usedNames = new Set<string>();
+  workflow.nodes.forEach(node => {
+    let name = toXamlName(node.id);
+    while (usedNames.has(name)) name = `${name}_`;
+    usedNames.add(name);
+    stateNames.set(node.id, name);
+  });
+  const transitions = workflow.transitions.filter(t => stateNames.has(t.from) && stateNames.has(t.to));
+  const initial = workflow.nodes.find(n => n.type === 'start') || workflow.nodes[0];
+
+  // Collect namespace prefixes used by imported activities
+  const namespaces = new Map<string, string>();
+  const registerAction = (action: ProcessAction | undefined) => {
+    const prefix = action?.activity.includes(':') ? action.activity.split(':')[0] : null;
+    if (prefix && prefix !== 'x' && !namespaces.has(prefix)) {
+      namespaces.set(prefix, action!.namespace || `clr-namespace:${prefix}`);
+    }
+  };
+  workflow.nodes.forEach(n => [...(n.entryActions || []), ...(n.exitActions || [])].forEach(registerAction));
+  transitions.forEach(t => registerAction(t.triggerActivity));
+
+  const xmlns = [
+    `xmlns="${XAML_ACTIVITIES_NS}"`,
+    `xmlns:x="${XAML_NS}"`,
+    ...Array.from(namespaces.entries()).map(([prefix, ns]) => `xmlns:${prefix}="${escapeXml(ns)}"`),
+  ].join(' ');
+
+  const lines: string[] = [
+    `<Activity x:Class="${toXamlName(workflow.code || workflow.id)}" ${xmlns}>`,
+    `  <StateMachine DisplayName="${escapeXml(workflow.name)}"${initial ? ` InitialState="{x:Reference ${stateNames.get(initial.id)}}"` : ''}>`,
+  ];
+
+  workflow.nodes.forEach(node => {
+    const outgoing = transitions.filter(t => t.from === node.id);
+    // WF4 rejects final states with outgoing transitions
+    const isFinal = node.type === 'end' && outgoing.length === 0;
+    const attrs = `x:Name="${stateNames.get(node.id)}" DisplayName="${escapeXml(node.name)}"${isFinal ? ' IsFinal="True"' : ''}`;
+
+    const body: string[] = [];
+    writeXamlActions(body, 'State.Entry', node.entryActions);
+    writeXamlActions(body, 'State.Exit', node.exitActions);
+
+    if (outgoing.length > 0) {
+      body.push('      <State.Transitions>');
+      outgoing.forEach(t => {
+        let transAttrs = `DisplayName="${escapeXml(t.label || '')}" To="{x:Reference ${stateNames.get(t.to)}}"`;
+        if (t.condition) {
+          transAttrs += ` Condition="[${escapeXml(t.condition)}]"`;
+        }
+
+        // Timer transitions without an imported trigger wait on a Delay, and
+        // other named triggers on an empty Sequence; the importer reads the
+        // trigger back from the activity's DisplayName
+        let trigger: ProcessAction | undefined = t.triggerActivity || (t.timer?.type === 'duration'
+          ? { activity: 'Delay', properties: { Duration: `[System.Xml.XmlConvert.ToTimeSpan("${t.timer.value}")]` } }
+          : t.trigger ? { activity: 'Sequence' } : undefined);
+        if (trigger && t.trigger && t.trigger !== (trigger.displayName || trigger.activity)) {
+          trigger = { ...trigger, displayName: t.trigger };
+        }
+
+        if (trigger) {
+          body.push(`        <Transition ${transAttrs}>`);
+          body.push('          <Transition.Trigger>');
+          body.push(`            ${xamlActionElement(trigger)}`);
+          body.push('          </Transition.Trigger>');
+          body.push('        </Transition>');
+        } else {
+          body.push(`        <Transition ${transAttrs} />`);
+        }
+      });
+      body.push('      </State.Transitions>');
+    }
+
+    if (body.length === 0) {
+      lines.push(`    <State ${attrs} />`);
+    } else {
+      lines.push(`    <State ${attrs}>`, ...body, '    </State>');
+    }
+  });
+
+  if (workflow.variables && workflow.variables.length > 0) {
+    lines.push('    <StateMachine.Variables>');
+    workflow.variables.forEach(v => {
+      const type = v.type ? ` x:TypeArguments="${escapeXml(v.type)}"` : '';
+      const defaultValue = v.defaultValue !== undefined ? ` Default="${escapeXml(v.defaultValue)}"` : '';
+      lines.push(`      <Variable${type} Name="${escapeXml(v.name)}"${defaultValue} />`);
+    });
+    lines.push('    </StateMachine.Variables>');
+  }
+
+  lines.push('  </StateMachine>');
+  lines.push('</Activity>');
+
+  return lines.join('\n');
+}
+
+/**
+ * Write State.Entry / State.Exit. Several actions are wrapped in a Sequence.
+ */
+function writeXamlActions(lines: string[], propertyName: string, actions: ProcessAction[] | undefined): void {
+  if (!actions || actions.length === 0) return;
+
+  lines.push(`      <${propertyName}>`);
+  if (actions.length === 1) {
+    lines.push(`        ${xamlActionElement(actions[0])}`);
+  } else {
+    lines.push('        <Sequence>');
+    actions.forEach(action => lines.push(`          ${xamlActionElement(action)}`));
+    lines.push('        </Sequence>');
+  }
+  lines.push(`      </${propertyName}>`);
+}
+
+function xamlActionElement(action: ProcessAction): string {
+  const attrs = [
+    action.displayName ? `DisplayName="${escapeXml(action.displayName)}"` : '',
+    ...Object.entries(action.properties || {}).map(([key, value]) => `${key}="${escapeXml(value)}"`),
+  ].filter(Boolean).join(' ');
+
+  return `<${action.activity}${attrs ? ` ${attrs}` : ''} />`;
+}
+
+/**
+ * Make an id safe for use as x:Name / x:Class (XAML identifiers)
+ */
+function toXamlName(id: string): string {
+  const cleaned = id.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Mermaid
+// ─────────────────────────────────────────────────────────────
+
+// [open, close] per node type; the parser maps these shapes back
+const MERMAID_SHAPES: Record<ProcessNodeType, [string, string]> = {
+  start: ['((', '))'],
+  end: ['(((', ')))'],
+  task: ['(', ')'],
+  gateway: ['{', '}'],
+  subprocess: ['[[', ']]'],
+  event: ['{{', '}}'],
+};
+
+// Same palette as getNodeStyle in WorkflowPreview
+const MERMAID_CLASS_DEFS: Record<ProcessNodeType, string> = {
+  start: 'fill:#18181b,stroke:#10b981,color:#10b981,stroke-width:2px',
+  end: 'fill:#18181b,stroke:#ef4444,color:#ef4444,stroke-width:3px',
+  task: 'fill:#18181b,stroke:#3f3f46,color:#e4e4e7',
+  gateway: 'fill:#18181b,stroke:#f59e0b,color:#f59e0b,stroke-width:2px',
+  subprocess: 'fill:#18181b,stroke:#3f3f46,color:#e4e4e7',
+  event: 'fill:#18181b,stroke:#a855f7,color:#a855f7,stroke-width:2px',
+};
+
+// Words Mermaid treats as keywords when used as node ids, lowercase to match ids case-insensitively
+const MERMAID_RESERVED_IDS = ['end', 'graph', 'subgraph', 'flowchart', 'style', 'class', 'classdef', 'click', 'linkstyle', 'direction'];
+
+/**
+ * Serialize a BusinessProcess to a Mermaid flowchart.
+ * Assignees become subgraph lanes, conditions are written as UML guards
+ * ("label [condition]") and node types as classes styled like the canvas.
+ */
+export function serializeMermaidWorkflow(workflow: BusinessProcess): string {
+  const ids = new Map<string, string>();
+  const usedIds = new Set<string>();
+  workflow.nodes.forEach(node => {
+    let id = node.id.replace(/[^\p{L}\p{N}_]/gu, '_') || 'node';
+    if (MERMAID_RESERVED_IDS.includes(id.toLowerCase())) id = `${id}_`;
+    while (usedIds.has(id)) id = `${id}_`;
+    usedIds.add(id);
+    ids.set(node.id, id);
+  });
+
+  const lines: string[] = [
+    '---',
+    // Quoted, so colons and # in the name stay part of the YAML string
+    `title: ${JSON.stringify(workflow.name.replace(/\n/g, ' '))}`,
+    '---',
+    'flowchart LR',
+  ];
+
+  const nodeLine = (node: ProcessNode) => {
+    const [open, close] = MERMAID_SHAPES[node.type] || MERMAID_SHAPES.task;
+    return `${ids.get(node.id)}${open}"${escapeMermaid(node.name)}"${close}`;
+  };
+
+  // Unassigned nodes first, then one subgraph per assignee
+  workflow.nodes.filter(n => !n.assignee).forEach(node => lines.push(`    ${nodeLine(node)}`));
+
+  const lanes = Array.from(new Set(workflow.nodes.map(n => n.assignee).filter((a): a is string => !!a)));
+  lanes.forEach((lane, index) => {
+    lines.push(`    subgraph lane_${index + 1} ["${escapeMermaid(lane)}"]`);
+    workflow.nodes.filter(n => n.assignee === lane).forEach(node => lines.push(`        ${nodeLine(node)}`));
+    lines.push('    end');
+  });
+
+  workflow.transitions.forEach(t => {
+    if (!ids.has(t.from) || !ids.has(t.to)) return;
+    const text = [t.label, t.condition ? `[${t.condition}]` : ''].filter(Boolean).join(' ');
+    const label = text ? `|"${escapeMermaid(text)}"|` : '';
+    lines.push(`    ${ids.get(t.from)} -->${label} ${ids.get(t.to)}`);
+  });
+
+  // Node types as classes ("endNode" - a bare "end" would close a subgraph)
+  const usedTypes = Array.from(new Set(workflow.nodes.map(n => n.type)));
+  usedTypes.forEach(type => {
+    lines.push(`    classDef ${type}Node ${MERMAID_CLASS_DEFS[type] || MERMAID_CLASS_DEFS.task}`);
+    const members = workflow.nodes.filter(n => n.type === type).map(n => ids.get(n.id));
+    lines.push(`    class ${members.join(',')} ${type}Node`);
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Mermaid entity codes for characters that break quoted labels
+ */
+function escapeMermaid(text: string): string {
+  return text
+    .replace(/"/g, '#quot;')
+    .replace(/\|/g, '#124;')
+    .replace(/\[/g, '#91;')
+    .replace(/\]/g, '#93;')
+    .replace(/\n/g, '<br>');
+}
+
+// ─────────────────────────────────────────────────────────────
+// SCXML
+// ─────────────────────────────────────────────────────────────
+
+const SCXML_NS = 'http://www.w3.org/2005/07/scxml';
+
+// Our own attributes on SCXML elements, such as the node's display name
+export const WORKFLOW_NS = 'urn:disrupt-module-spinner:workflow';
+
+// Executable content SCXML defines; actions imported from other formats are dropped
+const SCXML_EXECUTABLE_CONTENT = ['raise', 'if', 'elseif', 'else', 'foreach', 'log', 'assign', 'script', 'send', 'cancel'];
+
+/**
+ * Serialize a BusinessProcess to an SCXML state chart.
+ *
+ * Subprocesses with an embedded graph become compound states (or
+ * <parallel> when concurrent), end nodes become <final>. State ids are
+ * the node ids, so references by id survive a round trip; the display
+ * name goes in a wf:name attribute. Labels become transition events,
+ * except on gateways whose transitions are written eventless so they
+ * fire at once.
+ */
+export function serializeScxmlWorkflow(workflow: BusinessProcess): string {
+  // SCXML ids are unique across the whole document, nested states included
+  const ids = new Map<string, string>();
+  const usedIds = new Set<string>();
+  const assignIds = (graph: ProcessGraph) => {
+    graph.nodes.forEach(node => {
+      let id = toXmlId(node.id, 'state');
+      while (usedIds.has(id)) id = `${id}_`;
+      usedIds.add(id);
+      ids.set(node.id, id);
+      if (node.children) assignIds(node.children);
+    });
+  };
+  assignIds(workflow);
+
+  const initial = getScxmlInitial(workflow);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<scxml xmlns="${SCXML_NS}" xmlns:wf="${WORKFLOW_NS}" version="1.0" name="${escapeXml(workflow.name)}"${initial ? ` initial="${ids.get(initial.id)}"` : ''}>`,
+  ];
+
+  if (workflow.variables && workflow.variables.length > 0) {
+    lines.push('  <datamodel>');
+    workflow.variables.forEach(v => {
+      const expr = v.defaultValue !== undefined ? ` expr="${escapeXml(v.defaultValue)}"` : '';
+      lines.push(`    <data id="${escapeXml(v.name)}"${expr} />`);
+    });
+    lines.push('  </datamodel>');
+  }
+
+  writeScxmlStates(lines, workflow, ids, '  ');
+  lines.push('</scxml>');
+
+  return lines.join('\n');
+}
+
+function writeScxmlStates(lines: string[], graph: ProcessGraph, ids: Map<string, string>, indent: string): void {
+  graph.nodes.forEach(node => {
+    const outgoing = graph.transitions.filter(t => t.from === node.id && ids.has(t.to));
+    const hasChildren = !!node.children && node.children.nodes.length > 0;
+
+    // <final> cannot have transitions or children
+    let element = 'state';
+    if (hasChildren && node.concurrent) element = 'parallel';
+    else if (node.type === 'end' && outgoing.length === 0 && !hasChildren) element = 'final';
+
+    const childInitial = hasChildren && !node.concurrent ? getScxmlInitial(node.children!) : undefined;
+    const attrs = `id="${ids.get(node.id)}" wf:name="${escapeXml(node.name)}"${childInitial ? ` initial="${ids.get(childInitial.id)}"` : ''}`;
+
+    const body: string[] = [];
+    writeScxmlActions(body, 'onentry', node.entryActions, `${indent}  `);
+    writeScxmlActions(body, 'onexit', node.exitActions, `${indent}  `);
+
+    outgoing.forEach(t => {
+      const event = t.trigger || (node.type === 'gateway' ? '' : toScxmlEvent(t.label || ''));
+      const transAttrs = [
+        event ? `event="${escapeXml(event)}"` : '',
+        t.condition ? `cond="${escapeXml(t.condition)}"` : '',
+        `target="${ids.get(t.to)}"`,
+      ].filter(Boolean).join(' ');
+      body.push(`${indent}  <transition ${transAttrs} />`);
+    });
+
+    if (node.calledProcess && !hasChildren) {
+      body.push(`${indent}  <invoke src="${escapeXml(node.calledProcess)}" />`);
+    }
+
+    if (hasChildren) {
+      writeScxmlStates(body, node.children!, ids, `${indent}  `);
+    }
+
+    if (body.length === 0) {
+      lines.push(`${indent}<${element} ${attrs} />`);
+    } else {
+      lines.push(`${indent}<${element} ${attrs}>`, ...body, `${indent}</${element}>`);
+    }
+  });
+}
+
+function writeScxmlActions(lines: string[], element: string, actions: ProcessAction[] | undefined, indent: string): void {
+  const scxmlActions = (actions || []).filter(a => !a.namespace && SCXML_EXECUTABLE_CONTENT.includes(a.activity));
+  if (scxmlActions.length === 0) return;
+
+  lines.push(`${indent}<${element}>`);
+  scxmlActions.forEach(action => {
+    const attrs = Object.entries(action.properties || {})
+      .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+      .join('');
+    lines.push(`${indent}  <${action.activity}${attrs} />`);
+  });
+  lines.push(`${indent}</${element}>`);
+}
+
+function getScxmlInitial(graph: ProcessGraph): ProcessNode | undefined {
+  return graph.nodes.find(n => n.type === 'start') || graph.nodes[0];
+}
+
+/**
+ * Event names are space-separated descriptors - no whitespace inside one
+ */
+function toScxmlEvent(label: string): string {
+  return label.trim().replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+// ─────────────────────────────────────────────────────────────
+// XML helpers
+// ─────────────────────────────────────────────────────────────
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Make an id safe for use as an XML NCName (BPMN ids must not start with a digit)
+ */
+function toXmlId(id: string, prefix: string): string {
+  const cleaned = id.replace(/[^A-Za-z0-9_.-]/g, '_');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `${prefix}_${cleaned}`;
+}
@@ -0,0 +1,176 @@
+/**
+ * Workflow Simulator
+ *
+ * Token game over a BusinessProcess for test-driving a workflow before it
+ * ships. A token starts on the start node; each step fires one enabled
+ * transition, picked by the reviewer or by evaluating conditions against
+ * sample data. The path taken is recorded and can be replayed as a
+ * scenario.
+ *
+ * Parallel gateways fork into every outgoing transition at once and join
+ * only when a token has arrived on every incoming transition. Boundary
+ * events are enabled while their host activity holds a token.
+ */
+
+import type { BusinessProcess, ProcessNode, ProcessTransition } from '@/types/module';
+import { evaluateGuard } from './guard-expression';
+
+export interface SimulationState {
+  tokens: Record<string, number>; // node id -> token count
+  path: string[]; // transitions picked, in order (replayable)
+  firedTransitions: string[]; // every transition fired, parallel branches included
+  visitedNodes: string[];
+}
+
+export interface EnabledTransition {
+  transition: ProcessTransition;
+  parallel: boolean; // Fires together with its sibling branches
+  conditionResult?: boolean; // Undefined without a condition or sample data
+}
+
+export type SimulationStatus = 'running' | 'completed' | 'stuck';
+
+/**
+ * Put a token on the start node
+ */
+export function startSimulation(process: BusinessProcess): SimulationState {
+  const start = process.nodes.find(n => n.type === 'start') || process.nodes[0];
+  return {
+    tokens: start ? { [start.id]: 1 } : {},
+    path: [],
+    firedTransitions: [],
+    visitedNodes: start ? [start.id] : [],
+  };
+}
+
+/**
+ * Transitions that can fire in the current state.
+ * With sample data, conditions are evaluated (undefined when unreadable).
+ */
+export function getEnabledTransitions(
+  process: BusinessProcess,
+  state: SimulationState,
+  data?: Record<string, unknown>
+): EnabledTransition[] {
+  const nodeMap = new Map(process.nodes.map(n => [n.id, n]));
+  const enabled: EnabledTransition[] = [];
+
+  process.transitions.forEach(transition => {
+    const source = nodeMap.get(transition.from);
+    if (!source || !isSourceReady(process, source, state)) return;
+
+    enabled.push({
+      transition,
+      parallel: isParallelGateway(source),
+      conditionResult: transition.condition && data
+        ? evaluateGuard(transition.condition, data)
+        : undefined,
+    });
+  });
+
+  return enabled;
+}
+
+/**
+ * Fire a transition. Parallel gateways fire all their outgoing transitions.
+ * Returns null if the transition is not enabled.
+ */
+export function fireTransition(
+  process: BusinessProcess,
+  state: SimulationState,
+  transitionId: string
+): SimulationState | null {
+  const transition = process.transitions.find(t => t.id === transitionId);
+  const source = transition && process.nodes.find(n => n.id === transition.from);
+  if (!transition || !source || !isSourceReady(process, source, state)) return null;
+
+  const tokens = { ...state.tokens };
+  const fired = isParallelGateway(source)
+    ? process.transitions.filter(t => t.from === source.id)
+    : [transition];
+
+  // Boundary events take the token from their host (unless non-interrupting)
+  const holder = source.attachedTo && !tokens[source.id] ? source.attachedTo : source.id;
+  const consumed = isParallelGateway(source) ? incomingCount(process, source.id) : 1;
+  if (holder === source.id || source.interrupting !== false) {
+    tokens[holder] = (tokens[holder] || 0) - consumed;
+    if (tokens[holder] <= 0) delete tokens[holder];
+  }
+
+  const visitedNodes = [...state.visitedNodes];
+  fired.forEach(t => {
+    tokens[t.to] = (tokens[t.to] || 0) + 1;
+    if (!visitedNodes.includes(t.to)) visitedNodes.push(t.to);
+  });
+
+  return {
+    tokens,
+    path: [...state.path, transitionId],
+    firedTransitions: [...state.firedTransitions, ...fired.map(t => t.id)],
+    visitedNodes,
+  };
+}
+
+/**
+ * Pick the transition sample data leads to: the first whose condition
+ * holds, else an unconditioned (default) one, else the only one enabled.
+ */
+export function pickTransition(enabled: EnabledTransition[]): EnabledTransition | null {
+  return enabled.find(e => e.conditionResult === true)
+    || enabled.find(e => !e.transition.condition)
+    || (enabled.length === 1 ? enabled[0] : null);
+}
+
+/**
+ * Replay a recorded path. Returns the state after each step (index 0 is
+ * the start); stops at the first step that is not enabled.
+ */
+export function replaySimulation(
+  process: BusinessProcess,
+  path: string[]
+): { states: SimulationState[]; error?: string } {
+  const states = [startSimulation(process)];
+
+  for (const transitionId of path) {
+    const next = fireTransition(process, states[states.length - 1], transitionId);
+    if (!next) {
+      const transition = process.transitions.find(t => t.id === transitionId);
+      return {
+        states,
+        error: transition
+          ? `Step ${states.length}: "${transition.label || transitionId}" is not enabled`
+          : `Step ${states.length}: transition ${transitionId} no longer exists`,
+      };
+    }
+    states.push(next);
+  }
+
+  return { states };
+}
+
+export function getSimulationStatus(process: BusinessProcess, state: SimulationState): SimulationStatus {
+  if (getEnabledTransitions(process, state).length > 0) return 'running';
+  const nodeMap = new Map(process.nodes.map(n => [n.id, n]));
+  const allAtEnd = Object.keys(state.tokens).every(id => nodeMap.get(id)?.type === 'end');
+  return allAtEnd ? 'completed' : 'stuck';
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function isSourceReady(process: BusinessProcess, source: ProcessNode, state: SimulationState): boolean {
+  if (source.attachedTo && !state.tokens[source.id]) {
+    return (state.tokens[source.attachedTo] || 0) > 0;
+  }
+  const required = isParallelGateway(source) ? incomingCount(process, source.id) : 1;
+  return (state.tokens[source.id] || 0) >= required;
+}
+
+function isParallelGateway(node: ProcessNode): boolean {
+  return node.type === 'gateway' && node.gatewayKind === 'parallel';
+}
+
+function incomingCount(process: BusinessProcess, nodeId: string): number {
+  return Math.max(1, process.transitions.filter(t => t.to === nodeId).length);
+}
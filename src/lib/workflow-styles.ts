@@ -0,0 +1,161 @@
+/**
+ * Workflow Diagram Styles
+ *
+ * How workflow elements look, shared by the interactive React Flow preview
+ * and the headless SVG renderer so both draw the same diagram: node
+ * styles by BPMN type, the badges under node names, edge colours and
+ * labels, and which SLA escalations get an edge of their own.
+ */
+
+import type { CSSProperties } from 'react';
+import type { BusinessProcess, ProcessNode, ProcessTransition } from '@/types/module';
+import type { RoutingEdge } from './workflow-routing';
+import { formatDuration, formatTimer } from './workflow-timers';
+
+export const EDGE_COLORS = {
+  default: '#52525b',
+  back: '#f59e0b', // Rework loops running against the flow
+  timer: '#a855f7',
+  attached: '#a855f7', // Boundary event to its host
+  escalation: '#ef4444',
+};
+
+export const BADGE_COLOR = '#f59e0b';
+
+// ─────────────────────────────────────────────────────────────
+// Nodes
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Node style by BPMN type, for the React Flow node wrapper
+ */
+export function getNodeStyle(node: ProcessNode): CSSProperties {
+  const base: CSSProperties = {
+    padding: '10px 16px',
+    fontSize: '12px',
+    fontWeight: 500,
+    minWidth: '120px',
+    maxWidth: '160px',
+    textAlign: 'center',
+    boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+    transition: 'all 0.2s ease',
+  };
+
+  switch (node.type) {
+    case 'start':
+      // BPMN: Start events are circles
+      return {
+        ...base,
+        background: '#18181b',
+        color: '#10b981',
+        borderRadius: '50px',
+        border: '2px solid #10b981',
+        minWidth: '80px',
+        maxWidth: '120px',
+        padding: '8px 12px',
+      };
+    case 'end':
+      // BPMN: End events are bold circles
+      return {
+        ...base,
+        background: '#18181b',
+        color: '#ef4444',
+        borderRadius: '50px',
+        border: '3px solid #ef4444',
+        minWidth: '80px',
+        maxWidth: '120px',
+        padding: '8px 12px',
+      };
+    case 'gateway':
+      // BPMN: Gateways are diamonds (we use rounded square)
+      return {
+        ...base,
+        background: '#18181b',
+        color: '#f59e0b',
+        borderRadius: '4px',
+        border: '2px solid #f59e0b',
+        transform: 'rotate(0deg)', // Could be 45deg for diamond
+        minWidth: '100px',
+      };
+    case 'event':
+      // BPMN: Intermediate events are double circles
+      return {
+        ...base,
+        background: '#18181b',
+        color: '#a855f7',
+        borderRadius: '50px',
+        border: '3px double #a855f7',
+        minWidth: '80px',
+        maxWidth: '120px',
+        padding: '8px 12px',
+      };
+    case 'task':
+    default:
+      // BPMN: Tasks are rounded rectangles
+      return {
+        ...base,
+        background: '#18181b',
+        color: '#e4e4e7',
+        borderRadius: '8px',
+        border: '1px solid #3f3f46',
+      };
+  }
+}
+
+/**
+ * Timer and SLA lines shown under a node's name
+ */
+export function getNodeBadges(node: ProcessNode): string[] {
+  return [
+    node.timer && `⏱ ${formatTimer(node.timer)}`,
+    node.sla && `SLA ${formatDuration(node.sla.due)}${node.sla.notify ? ` → ${node.sla.notify}` : ''}`,
+  ].filter((badge): badge is string => !!badge);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Edges
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Colour of a transition outside simulation and findings
+ */
+export function getTransitionColor(transition: ProcessTransition, isBackEdge: boolean): string {
+  return transition.timer ? EDGE_COLORS.timer : isBackEdge ? EDGE_COLORS.back : EDGE_COLORS.default;
+}
+
+/**
+ * Transitions and escalations as the router sees them, with the labels
+ * they are drawn with
+ */
+export function getRoutingEdges(process: BusinessProcess): RoutingEdge[] {
+  return [
+    ...process.transitions.map(t => ({ id: t.id, from: t.from, to: t.to, label: getTransitionLabel(t) })),
+    ...getEscalations(process).map(node => ({
+      id: `escalation-${node.id}`,
+      from: node.id,
+      to: node.sla!.escalateTo!,
+      label: `Overdue ${formatDuration(node.sla!.due)}`,
+    })),
+  ];
+}
+
+/**
+ * Timer and label of a transition, as shown on its edge
+ */
+export function getTransitionLabel(transition: ProcessTransition): string | undefined {
+  const timerLabel = transition.timer ? `⏱ ${formatTimer(transition.timer)}` : '';
+  return [timerLabel, transition.label].filter(Boolean).join(' · ') || undefined;
+}
+
+/**
+ * SLA escalation: where overdue cases go, unless a boundary timer already draws it
+ */
+export function getEscalations(process: BusinessProcess): ProcessNode[] {
+  const nodeIds = new Set(process.nodes.map(n => n.id));
+  return process.nodes
+    .filter(node => node.sla?.escalateTo && nodeIds.has(node.sla.escalateTo))
+    .filter(node => !process.transitions.some(t =>
+      t.to === node.sla!.escalateTo
+      && process.nodes.some(event => event.id === t.from && event.attachedTo === node.id && event.timer)
+    ));
+}
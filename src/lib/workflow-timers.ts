@@ -0,0 +1,100 @@
+/**
+ * Workflow Timers
+ *
+ * ISO 8601 helpers for timer events, SLAs and timer-triggered transitions:
+ * reading durations ("P1DT4H"), writing them from parts and formatting
+ * timers for display ("1d 4h", "every 1h ×3").
+ */
+
+import type { ProcessTimer } from '@/types/module';
+
+export interface DurationParts {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+}
+
+const DURATION_PATTERN =
+  /^P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+// Display units, in the order of an ISO duration
+const UNITS: [keyof DurationParts, string][] = [
+  ['years', 'y'],
+  ['months', 'mo'],
+  ['weeks', 'w'],
+  ['days', 'd'],
+  ['hours', 'h'],
+  ['minutes', 'min'],
+  ['seconds', 's'],
+];
+
+/**
+ * "P1DT4H" -> { days: 1, hours: 4 }; null if not an ISO 8601 duration
+ */
+export function parseDuration(value: string): DurationParts | null {
+  const match = value.trim().toUpperCase().replace(',', '.').match(DURATION_PATTERN);
+  if (!match || value.trim().length <= 1 || /T$/i.test(value.trim())) return null;
+
+  const parts: DurationParts = {};
+  UNITS.forEach(([unit], index) => {
+    if (match[index + 1] !== undefined) parts[unit] = parseFloat(match[index + 1]);
+  });
+  return parts;
+}
+
+/**
+ * { days: 1, hours: 4 } -> "P1DT4H"
+ */
+export function toIsoDuration(parts: DurationParts): string {
+  const date = [
+    parts.years ? `${parts.years}Y` : '',
+    parts.months ? `${parts.months}M` : '',
+    parts.weeks ? `${parts.weeks}W` : '',
+    parts.days ? `${parts.days}D` : '',
+  ].join('');
+  const time = [
+    parts.hours ? `${parts.hours}H` : '',
+    parts.minutes ? `${parts.minutes}M` : '',
+    parts.seconds ? `${parts.seconds}S` : '',
+  ].join('');
+
+  if (!date && !time) return 'PT0S';
+  return `P${date}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * "P1DT4H" -> "1d 4h". Values that are not durations come back as written.
+ */
+export function formatDuration(value: string): string {
+  const parts = parseDuration(value);
+  if (!parts) return value;
+  const text = UNITS
+    .filter(([unit]) => parts[unit])
+    .map(([unit, suffix]) => `${parts[unit]}${suffix}`)
+    .join(' ');
+  return text || '0s';
+}
+
+/**
+ * Short label for a timer: "24h", "at 2025-01-31 09:00", "every 1h ×3"
+ */
+export function formatTimer(timer: ProcessTimer): string {
+  switch (timer.type) {
+    case 'duration':
+      return formatDuration(timer.value);
+
+    case 'date':
+      return `at ${timer.value.replace('T', ' ').replace(/:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/, '')}`;
+
+    case 'cycle': {
+      // R[n]/[start/]duration, or a cron expression as some engines allow
+      const match = timer.value.match(/^R(\d*)\/(?:[^/]+\/)?(P[^/]+)$/i);
+      if (!match) return `every ${timer.value}`;
+      return `every ${formatDuration(match[2])}${match[1] ? ` ×${match[1]}` : ''}`;
+    }
+  }
+}
@@ -2,22 +2,38 @@
  * XAML Workflow Parser
  *
  * Parses Windows Workflow Foundation (WF) XAML state machine files
- * into our BusinessProcess format for visualization.
+ * into our BusinessProcess format for visualization. Transitions
+ * triggered by a Delay activity become timer transitions.
  */
 
-import type { BusinessProcess, ProcessNode, ProcessTransition, ProcessNodeType } from '@/types/module';
+import type {
+  BusinessProcess,
+  ProcessNode,
+  ProcessTransition,
+  ProcessNodeType,
+  ProcessAction,
+  ProcessVariable,
+  ProcessTimer,
+} from '@/types/module';
 import { applyLayout } from './workflow-layout';
+import { parseDuration, toIsoDuration } from './workflow-timers';
+import { toCode } from './workflow-codes';
 
 interface ParsedState {
   id: string;
   name: string;
   refId: string;
+  isFinal: boolean;
+  entryActions: ProcessAction[];
+  exitActions: ProcessAction[];
   transitions: ParsedTransition[];
 }
 
 interface ParsedTransition {
   displayName: string;
   toRefId: string | null;
+  condition?: string;
+  triggerActivity?: ProcessAction;
 }
 
 /**
@@ -41,8 +57,7 @@ export function parseXamlWorkflow(xmlContent: string): BusinessProcess {
   const processedNodes = new Set<string>();
 
   // Determine which is the initial state
-  const initialStateElement = doc.querySelector('StateMachine > InitialState > State');
-  const initialRefId = initialStateElement?.getAttribute('x:Name') || '';
+  const initialRefId = findInitialStateRef(doc);
 
   // Process all states
   let transitionId = 0;
@@ -56,7 +71,7 @@ export function parseXamlWorkflow(xmlContent: string): BusinessProcess {
     const nameLower = state.name.toLowerCase();
     if (state.refId === initialRefId) {
       nodeType = 'start';
-    } else if (nameLower === 'closed') {
+    } else if (state.isFinal) {
       nodeType = 'end';
     } else if (nameLower.includes('check') || nameLower.includes('gateway')) {
       nodeType = 'gateway';
@@ -67,16 +82,26 @@ export function parseXamlWorkflow(xmlContent: string): BusinessProcess {
       type: nodeType,
       name: state.name,
       position: { x: 0, y: 0 },
+      entryActions: state.entryActions.length > 0 ? state.entryActions : undefined,
+      exitActions: state.exitActions.length > 0 ? state.exitActions : undefined,
     });
 
     // Process transitions
     state.transitions.forEach(trans => {
       if (trans.toRefId) {
+        const trigger = trans.triggerActivity
+          ? trans.triggerActivity.displayName || trans.triggerActivity.activity
+          : undefined;
+
         transitions.push({
           id: `transition-${transitionId++}`,
           from: state.refId,
           to: trans.toRefId,
-          label: cleanTransitionLabel(trans.displayName),
+          label: cleanTransitionLabel(trans.displayName) || trigger,
+          condition: trans.condition,
+          trigger,
+          triggerActivity: trans.triggerActivity,
+          timer: getDelayTimer(trans.triggerActivity),
         });
 
         // Process target state
@@ -104,55 +129,83 @@ export function parseXamlWorkflow(xmlContent: string): BusinessProcess {
   // Apply layout
   applyLayout(nodes, transitions);
 
+  const variables = extractVariables(doc);
+  const machineName = findElements(doc, 'StateMachine')[0]?.getAttribute('DisplayName');
+
   return {
     id: generateId(),
-    name: 'Incident Workflow',
-    code: 'incident-workflow',
+    name: machineName || 'Incident Workflow',
+    code: machineName ? toCode(machineName) : 'incident-workflow',
     description: 'Imported from XAML state machine',
     nodes,
     transitions,
+    variables: variables.length > 0 ? variables : undefined,
   };
 }
 
+/**
+ * Find the x:Name of the initial state.
+ * WF4 writes it either as a nested StateMachine.InitialState element or
+ * as an InitialState="{x:Reference ...}" attribute.
+ */
+function findInitialStateRef(doc: Document): string {
+  const machine = findElements(doc, 'StateMachine')[0];
+  if (!machine) return '';
+
+  const attrRef = parseReference(machine.getAttribute('InitialState'));
+  if (attrRef) return attrRef;
+
+  const initialEl = childElements(machine).find(el => el.localName === 'StateMachine.InitialState');
+  if (!initialEl) return '';
+
+  const [target] = childElements(initialEl);
+  if (!target) return '';
+  return target.localName === 'Reference'
+    ? target.textContent?.trim() || ''
+    : target.getAttribute('x:Name') || '';
+}
+
 /**
  * Extract states from XAML document
  */
 function extractStates(doc: Document): ParsedState[] {
   const states: ParsedState[] = [];
-  const stateElements = doc.querySelectorAll('State');
+  const stateElements = findElements(doc, 'State');
 
   stateElements.forEach(stateEl => {
     const name = stateEl.getAttribute('DisplayName') || 'Unknown';
     const refId = stateEl.getAttribute('x:Name') || generateId();
 
     // Extract transitions
-    const transitionElements = stateEl.querySelectorAll(':scope > State\\.Transitions > Transition');
+    const transitionsEl = childElements(stateEl).find(el => el.localName === 'State.Transitions');
+    const transitionElements = transitionsEl
+      ? childElements(transitionsEl).filter(el => el.localName === 'Transition')
+      : [];
     const transitions: ParsedTransition[] = [];
 
     transitionElements.forEach(transEl => {
       const displayName = transEl.getAttribute('DisplayName') || '';
 
       // Check for inline To reference
-      let toRefId = transEl.getAttribute('To');
-      if (toRefId) {
-        // Format: {x:Reference __ReferenceID0}
-        const match = toRefId.match(/\{x:Reference\s+(\S+)\}/);
-        if (match) {
-          toRefId = match[1];
-        }
-      }
+      // Format: {x:Reference __ReferenceID0}
+      let toRefId = parseReference(transEl.getAttribute('To'));
 
-      // Check for nested Transition.To > State
+      // Check for nested Transition.To > State or Transition.To > x:Reference
       if (!toRefId) {
-        const nestedState = transEl.querySelector('Transition\\.To > State');
-        if (nestedState) {
-          toRefId = nestedState.getAttribute('x:Name');
+        const toEl = childElements(transEl).find(el => el.localName === 'Transition.To');
+        const [target] = toEl ? childElements(toEl) : [];
+        if (target?.localName === 'Reference') {
+          toRefId = target.textContent?.trim() || null;
+        } else if (target) {
+          toRefId = target.getAttribute('x:Name');
         }
       }
 
       transitions.push({
         displayName,
         toRefId: toRefId || null,
+        condition: extractCondition(transEl),
+        triggerActivity: extractTrigger(doc, transEl),
       });
     });
 
@@ -162,6 +215,9 @@ function extractStates(doc: Document): ParsedState[] {
         id: generateId(),
         name,
         refId,
+        isFinal: stateEl.getAttribute('IsFinal')?.toLowerCase() === 'true',
+        entryActions: extractActions(stateEl, 'State.Entry'),
+        exitActions: extractActions(stateEl, 'State.Exit'),
         transitions,
       });
     }
@@ -170,6 +226,132 @@ function extractStates(doc: Document): ParsedState[] {
   return states;
 }
 
+/**
+ * Extract the guard expression of a transition.
+ * Either Condition="[expr]" or a Transition.Condition element holding
+ * "[expr]" text or a CSharpValue/VisualBasicValue expression activity.
+ */
+function extractCondition(transEl: Element): string | undefined {
+  const attr = transEl.getAttribute('Condition');
+  if (attr) return stripExpressionBrackets(attr);
+
+  const conditionEl = childElements(transEl).find(el => el.localName === 'Transition.Condition');
+  if (!conditionEl) return undefined;
+
+  const [expressionEl] = childElements(conditionEl);
+  const text = (expressionEl?.getAttribute('ExpressionText') || expressionEl?.textContent || conditionEl.textContent || '').trim();
+  return text ? stripExpressionBrackets(text) : undefined;
+}
+
+/**
+ * Extract the trigger activity of a transition.
+ * Shared triggers are written once and referenced with x:Reference.
+ */
+function extractTrigger(doc: Document, transEl: Element): ProcessAction | undefined {
+  const triggerRef = parseReference(transEl.getAttribute('Trigger'));
+  if (triggerRef) {
+    const shared = findElementByName(doc, triggerRef);
+    return shared ? toAction(shared) : { activity: 'x:Reference', displayName: triggerRef };
+  }
+
+  const triggerEl = childElements(transEl).find(el => el.localName === 'Transition.Trigger');
+  const [activityEl] = triggerEl ? childElements(triggerEl) : [];
+  if (!activityEl) return undefined;
+
+  if (activityEl.localName === 'Reference') {
+    const shared = findElementByName(doc, activityEl.textContent?.trim() || '');
+    return shared ? toAction(shared) : undefined;
+  }
+
+  return toAction(activityEl);
+}
+
+/**
+ * Extract Entry/Exit activities. A wrapping Sequence is unwrapped
+ * into its child activities.
+ */
+function extractActions(stateEl: Element, propertyName: string): ProcessAction[] {
+  const propertyEl = childElements(stateEl).find(el => el.localName === propertyName);
+  if (!propertyEl) return [];
+
+  const activities = childElements(propertyEl);
+  if (activities.length === 1 && activities[0].localName === 'Sequence') {
+    return childElements(activities[0])
+      .filter(el => !el.localName.includes('.'))
+      .map(toAction);
+  }
+
+  return activities.map(toAction);
+}
+
+/**
+ * Extract StateMachine.Variables
+ */
+function extractVariables(doc: Document): ProcessVariable[] {
+  const machine = findElements(doc, 'StateMachine')[0];
+  const variablesEl = machine && childElements(machine).find(el => el.localName === 'StateMachine.Variables');
+  if (!variablesEl) return [];
+
+  return childElements(variablesEl)
+    .filter(el => el.localName === 'Variable')
+    .map(el => ({
+      name: el.getAttribute('Name') || 'variable',
+      type: el.getAttribute('x:TypeArguments') || undefined,
+      defaultValue: el.getAttribute('Default') || undefined,
+    }));
+}
+
+/**
+ * Convert an activity element to action metadata
+ */
+function toAction(el: Element): ProcessAction {
+  const properties: Record<string, string> = {};
+  Array.from(el.attributes).forEach(attr => {
+    if (['DisplayName', 'x:Name'].includes(attr.name) || attr.name.startsWith('xmlns') || attr.name.startsWith('sap')) return;
+    properties[attr.name] = attr.value;
+  });
+
+  return {
+    activity: el.tagName,
+    namespace: el.prefix ? el.namespaceURI || undefined : undefined,
+    displayName: el.getAttribute('DisplayName') || undefined,
+    properties: Object.keys(properties).length > 0 ? properties : undefined,
+  };
+}
+
+/**
+ * Timer of a Delay trigger. Duration is a TimeSpan literal ("1.00:00:00")
+ * or expression: TimeSpan.FromHours(24), New TimeSpan(1, 0, 0),
+ * XmlConvert.ToTimeSpan("PT24H").
+ */
+function getDelayTimer(trigger: ProcessAction | undefined): ProcessTimer | undefined {
+  if (trigger?.activity.replace(/^.*:/, '') !== 'Delay' || !trigger.properties?.Duration) return undefined;
+  const expression = stripExpressionBrackets(trigger.properties.Duration);
+
+  const iso = expression.match(/ToTimeSpan\(\s*["']([^"']+)["']\s*\)/i);
+  if (iso && parseDuration(iso[1])) return { type: 'duration', value: iso[1] };
+
+  const factory = expression.match(/TimeSpan\.From(Days|Hours|Minutes|Seconds)\(\s*([\d.]+)\s*\)/i);
+  if (factory) {
+    return { type: 'duration', value: toIsoDuration({ [factory[1].toLowerCase()]: parseFloat(factory[2]) }) };
+  }
+
+  // New TimeSpan(hours, minutes, seconds) or (days, hours, minutes, seconds)
+  const constructed = expression.match(/New\s+TimeSpan\(\s*([\d\s,]+)\)/i);
+  const literal = expression.match(/^(?:(\d+)\.)?(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?$/);
+  let values: number[] | null = null;
+  if (constructed) {
+    const args = constructed[1].split(',').map(arg => parseFloat(arg));
+    values = args.length === 3 ? [0, ...args] : args.length === 4 ? args : null;
+  } else if (literal) {
+    values = [literal[1], literal[2], literal[3], literal[4]].map(part => parseFloat(part || '0'));
+  }
+  if (!values) return undefined;
+
+  const [days, hours, minutes, seconds] = values;
+  return { type: 'duration', value: toIsoDuration({ days, hours, minutes, seconds }) };
+}
+
 /**
  * Clean up transition label for display
  */
@@ -180,17 +362,39 @@ function cleanTransitionLabel(displayName: string): string {
   // Decode HTML entities
   label = label.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>');
 
-  // Truncate long conditions
-  if (label.length > 25) {
-    // Extract meaningful part
-    const match = label.match(/Submit|Approve|Decline|Close|Reopen|Request|Confirm|Investigation/i);
-    if (match) {
-      return match[0];
-    }
-    return label.substring(0, 20) + '...';
-  }
+  return label.trim();
+}
+
+/**
+ * Parse "{x:Reference __ReferenceID0}" markup extensions
+ */
+function parseReference(value: string | null): string | null {
+  if (!value) return null;
+  const match = value.match(/\{x:Reference\s+(\S+?)\}/);
+  return match ? match[1] : value;
+}
+
+/**
+ * Strip the VB expression brackets: "[severity > 2]" -> "severity > 2"
+ */
+function stripExpressionBrackets(expression: string): string {
+  const trimmed = expression.trim();
+  return trimmed.startsWith('[') && trimmed.endsWith(']') ? trimmed.slice(1, -1).trim() : trimmed;
+}
+
+/**
+ * All elements with the given local name (ignores namespace prefixes)
+ */
+function findElements(doc: Document, localName: string): Element[] {
+  return Array.from(doc.getElementsByTagName('*')).filter(el => el.localName === localName);
+}
+
+function findElementByName(doc: Document, name: string): Element | undefined {
+  return Array.from(doc.getElementsByTagName('*')).find(el => el.getAttribute('x:Name') === name);
+}
 
-  return label || '';
+function childElements(el: Element): Element[] {
+  return Array.from(el.children);
 }
 
 function generateId(): string {
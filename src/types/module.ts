@@ -6,6 +6,7 @@
  * - Dictionaries (dropdowns, statuses)
  * - Forms (field definitions)
  * - Business Processes (workflow states)
+ * - Roles (who works a state and fires a transition)
  */
 
 // ─────────────────────────────────────────────────────────────
@@ -96,16 +97,89 @@ export type ProcessNodeType =
   | 'end'
   | 'task'
   | 'gateway'
-  | 'subprocess';
+  | 'subprocess'
+  | 'event'; // Intermediate and boundary events
+
+export type TaskKind =
+  | 'none'
+  | 'user'
+  | 'service'
+  | 'script'
+  | 'manual'
+  | 'send'
+  | 'receive'
+  | 'businessRule';
+
+export type GatewayKind =
+  | 'exclusive'
+  | 'parallel'
+  | 'inclusive'
+  | 'eventBased'
+  | 'complex';
+
+export type EventKind =
+  | 'none'
+  | 'message'
+  | 'timer'
+  | 'signal'
+  | 'error'
+  | 'escalation'
+  | 'conditional'
+  | 'compensation'
+  | 'link'
+  | 'cancel'
+  | 'terminate';
 
 export interface ProcessNode {
   id: string;
   type: ProcessNodeType;
   name: string;
   description?: string;
-  assignee?: string;
+  assignee?: string; // Role code of who works the state
   formRef?: string; // Reference to form
   position: { x: number; y: number };
+  taskKind?: TaskKind; // task nodes
+  gatewayKind?: GatewayKind; // gateway nodes (default: exclusive)
+  eventKind?: EventKind; // start, end and event nodes
+  eventRole?: 'catch' | 'throw'; // intermediate events
+  attachedTo?: string; // boundary events: id of the host activity
+  interrupting?: boolean; // boundary events (default: true)
+  calledProcess?: string; // subprocess nodes calling another process by code
+  children?: ProcessGraph; // subprocess nodes with an embedded graph
+  concurrent?: boolean; // subprocess nodes whose children run as parallel regions
+  entryActions?: ProcessAction[]; // run when the state is entered
+  exitActions?: ProcessAction[]; // run when the state is left
+  timer?: ProcessTimer; // timer events: when they fire
+  sla?: ProcessSla; // deadline for leaving the state
+}
+
+export interface ProcessTimer {
+  type: 'duration' | 'date' | 'cycle'; // BPMN timeDuration, timeDate, timeCycle
+  value: string; // ISO 8601, e.g. "PT24H", "2025-01-31T09:00:00Z", "R3/PT1H"
+}
+
+export interface ProcessSla {
+  due: string; // ISO 8601 duration from entering the state, e.g. "PT24H"
+  escalateTo?: string; // Node id the case moves to once overdue
+  notify?: string; // Role code alerted when overdue
+}
+
+export interface ProcessAction {
+  activity: string; // Activity type, e.g. "Assign", "WriteLine", "local:SendNotification"
+  namespace?: string; // XML namespace of prefixed activity types
+  displayName?: string;
+  properties?: Record<string, string>;
+}
+
+export interface ProcessVariable {
+  name: string;
+  type?: string; // e.g. "x:String", "x:Int32"
+  defaultValue?: string; // As written in the source, e.g. "[0]" for a VB expression
+}
+
+export interface ProcessGraph {
+  nodes: ProcessNode[];
+  transitions: ProcessTransition[];
 }
 
 export interface ProcessTransition {
@@ -114,6 +188,10 @@ export interface ProcessTransition {
   to: string;
   condition?: string;
   label?: string;
+  trigger?: string; // Event or activity that fires the transition
+  triggerActivity?: ProcessAction; // Trigger activity as imported (WF4 Transition.Trigger)
+  timer?: ProcessTimer; // Fires by itself once the timer elapses
+  roles?: string[]; // Role codes that may fire it (default: the source state's assignee)
 }
 
 export interface BusinessProcess {
@@ -123,6 +201,26 @@ export interface BusinessProcess {
   description?: string;
   nodes: ProcessNode[];
   transitions: ProcessTransition[];
+  variables?: ProcessVariable[];
+  scenarios?: ProcessScenario[]; // Saved simulation paths
+}
+
+export interface ProcessScenario {
+  name: string;
+  path: string[]; // Transition ids picked, in order
+  data?: Record<string, unknown>; // Sample data the conditions were evaluated against
+}
+
+// ─────────────────────────────────────────────────────────────
+// Role Types
+// ─────────────────────────────────────────────────────────────
+
+export interface Role {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  inherits?: string[]; // Codes of roles whose permissions this role also has
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -138,6 +236,7 @@ export interface Module {
   dictionaries: Dictionary[];
   forms: Form[];
   processes: BusinessProcess[];
+  roles: Role[];
   createdAt: string;
   updatedAt: string;
 }
@@ -146,11 +245,11 @@ export interface Module {
 // Artifact Union (for AI generation)
 // ─────────────────────────────────────────────────────────────
 
-export type ArtifactType = 'dictionary' | 'form' | 'process';
+export type ArtifactType = 'dictionary' | 'form' | 'process' | 'role';
 
 export interface GeneratedArtifact {
   type: ArtifactType;
-  data: Dictionary | Form | BusinessProcess;
+  data: Dictionary | Form | BusinessProcess | Role;
   reasoning?: string;
 }
 